@@ -0,0 +1,41 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { createSyncServer, isLoopbackHost } from './syncServer';
+import { SyncState, createSyncStore } from './syncStore';
+
+// Configuration comes from the environment so the server runs unchanged in a container
+const port = Number(process.env.PORT ?? 8787);
+const host = process.env.HOST ?? '127.0.0.1';
+const dataFile = resolve(process.env.SYNC_DATA_FILE ?? 'sync-data.json');
+const token = process.env.SYNC_TOKEN || undefined;
+const allowedOrigin = process.env.SYNC_ALLOWED_ORIGIN ?? '*';
+
+// Anyone who can reach the server could otherwise read and change every record
+if (!token && !isLoopbackHost(host)) {
+  console.error(`Refusing to listen on ${host} without SYNC_TOKEN. Set a token or use HOST=127.0.0.1.`);
+  process.exit(1);
+}
+
+const loadState = (): SyncState | undefined => {
+  if (!existsSync(dataFile)) return undefined;
+  return JSON.parse(readFileSync(dataFile, 'utf8')) as SyncState;
+};
+
+// Write to a temporary file first so a crash mid-write never leaves a truncated data file
+const saveState = (state: SyncState) => {
+  const temporaryFile = `${dataFile}.tmp`;
+  writeFileSync(temporaryFile, JSON.stringify(state, null, 2));
+  renameSync(temporaryFile, dataFile);
+};
+
+const server = createSyncServer({
+  store: createSyncStore(loadState()),
+  token,
+  allowedOrigin,
+  onChange: saveState
+});
+
+server.listen(port, host, () => {
+  console.log(`Tech Blocker sync server listening on http://${host}:${port}`);
+  console.log(`Data file: ${dataFile}${token ? '' : ' (no access token set)'}`);
+});
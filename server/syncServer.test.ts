@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { createSyncServer, isLoopbackHost } from './syncServer';
+import { createSyncStore } from './syncStore';
+import { SyncConflictError, SyncServerError, checkSyncServer, createSyncBackend } from '../src/storage/syncBackend';
+import { SyncServerConfig } from '../src/utils/syncServerStorage';
+
+const TOKEN = 'secret';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-03-01T09:00:00.000Z'),
+  endTime: new Date('2024-03-01T17:00:00.000Z')
+};
+
+const standardBlock = { id: 1, name: 'News', required: true };
+
+const startServer = async (): Promise<{ server: Server; config: SyncServerConfig }> => {
+  const server = createSyncServer({ store: createSyncStore(), token: TOKEN });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, config: { url: `http://127.0.0.1:${port}`, token: TOKEN } };
+};
+
+describe('sync server with sync backends', () => {
+  let server: Server;
+  let config: SyncServerConfig;
+
+  beforeEach(async () => {
+    ({ server, config } = await startServer());
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should report its revision and refuse a wrong token', async () => {
+    await expect(checkSyncServer(config)).resolves.toEqual({ ok: true, rev: 0 });
+    await expect(checkSyncServer({ ...config, token: 'wrong' })).rejects.toThrow(SyncServerError);
+    await expect(checkSyncServer({ ...config, token: `${TOKEN}extra` })).rejects.toThrow(SyncServerError);
+    await expect(checkSyncServer({ ...config, token: undefined })).rejects.toThrow(SyncServerError);
+  });
+
+  it('should bring changes from one device to another', async () => {
+    const laptop = createSyncBackend(config);
+    const desktop = createSyncBackend(config);
+
+    await laptop.load();
+    await laptop.save({ blocks: [block], standardBlocks: [standardBlock], trash: [], quarantine: [] });
+
+    const loaded = await desktop.load();
+    expect(loaded.blocks).toEqual([block]);
+    expect(loaded.standardBlocks).toEqual([standardBlock]);
+
+    await desktop.save({ ...loaded, blocks: [] });
+    expect((await laptop.load()).blocks).toEqual([]);
+  });
+
+  it('should reject an edit based on a record another device has changed since', async () => {
+    const laptop = createSyncBackend(config);
+    const desktop = createSyncBackend(config);
+    await laptop.load();
+    await laptop.save({ blocks: [block], standardBlocks: [], trash: [], quarantine: [] });
+    await desktop.load();
+
+    await laptop.save({ blocks: [{ ...block, name: 'Games' }], standardBlocks: [], trash: [], quarantine: [] });
+    await expect(desktop.save({ blocks: [{ ...block, name: 'Video' }], standardBlocks: [], trash: [], quarantine: [] }))
+      .rejects.toThrow(SyncConflictError);
+
+    expect((await desktop.load()).blocks).toEqual([{ ...block, name: 'Games' }]);
+  });
+
+  it('should notify subscribers of changes pulled while polling', async () => {
+    const laptop = createSyncBackend(config);
+    const desktop = createSyncBackend(config, 10);
+    await laptop.load();
+    await desktop.load();
+
+    const received = new Promise(resolve => {
+      const unsubscribe = desktop.subscribe(data => {
+        unsubscribe();
+        resolve(data.blocks);
+      });
+    });
+    await laptop.save({ blocks: [block], standardBlocks: [], trash: [], quarantine: [] });
+
+    await expect(received).resolves.toEqual([block]);
+  });
+
+  it('should only push records that changed', async () => {
+    const laptop = createSyncBackend(config);
+    await laptop.load();
+    await laptop.save({ blocks: [block], standardBlocks: [standardBlock], trash: [], quarantine: [] });
+    await laptop.save({ blocks: [block], standardBlocks: [{ ...standardBlock, required: false }], trash: [], quarantine: [] });
+
+    await expect(checkSyncServer(config)).resolves.toEqual({ ok: true, rev: 3 });
+  });
+
+  it('should answer malformed pushes with 400', async () => {
+    const response = await fetch(`${config.url}/api/changes`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changes: [{ collection: 'blocks', id: 'one', baseRev: 0, data: null }] })
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Missing or non-numeric id' });
+  });
+});
+
+describe('isLoopbackHost', () => {
+  it('should only accept addresses this machine alone can reach', () => {
+    expect(['127.0.0.1', '127.1.2.3', 'localhost', '::1'].every(isLoopbackHost)).toBe(true);
+    expect(['0.0.0.0', '::', '192.168.1.10', '127.0.0.1.example.com'].some(isLoopbackHost)).toBe(false);
+  });
+});
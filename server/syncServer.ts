@@ -0,0 +1,134 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { HealthResponse, PushRequest } from '../src/sync/protocol';
+import { InvalidChangeError, SyncState, SyncStore, parseChange } from './syncStore';
+
+export interface SyncServerOptions {
+  store: SyncStore;
+  // When set, every request must send `Authorization: Bearer <token>`
+  token?: string;
+  // Value of Access-Control-Allow-Origin; the app is usually served from another origin
+  allowedOrigin?: string;
+  // Called after every accepted push, e.g. to write the state to disk
+  onChange?: (state: SyncState) => void;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const readJsonBody = (request: IncomingMessage): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body is too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+};
+
+// Hashed to equal lengths and compared in constant time, so response times don't give away
+// how much of a guessed token was right
+const hasToken = (request: IncomingMessage, token: string): boolean => {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(request.headers.authorization ?? ''), digest(`Bearer ${token}`));
+};
+
+// Only this machine can reach a server listening on a loopback address
+export const isLoopbackHost = (host: string): boolean => {
+  return host === 'localhost' || host === '::1' || /^127(\.\d{1,3}){3}$/.test(host);
+};
+
+const parseSince = (value: string | null): number => {
+  if (value === null || value === '') return 0;
+  const since = Number(value);
+  if (!Number.isInteger(since) || since < 0) {
+    throw new HttpError(400, 'since must be a non-negative integer');
+  }
+  return since;
+};
+
+const parsePushRequest = (body: unknown): PushRequest => {
+  const changes = (body as { changes?: unknown } | null)?.changes;
+  if (!Array.isArray(changes)) {
+    throw new HttpError(400, 'Body must be an object with a changes array');
+  }
+  try {
+    return { changes: changes.map(parseChange) };
+  } catch (error) {
+    if (error instanceof InvalidChangeError) throw new HttpError(400, error.message);
+    throw error;
+  }
+};
+
+// The REST API described in server/README.md, served over plain HTTP
+export const createSyncServer = ({ store, token, allowedOrigin = '*', onChange }: SyncServerOptions): Server => {
+  const send = (response: ServerResponse, status: number, body?: unknown) => {
+    response.writeHead(status, {
+      'Access-Control-Allow-Origin': allowedOrigin,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+    });
+    response.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method === 'OPTIONS') {
+      send(response, 204);
+      return;
+    }
+    if (token && !hasToken(request, token)) {
+      throw new HttpError(401, 'Missing or wrong access token');
+    }
+
+    if (url.pathname === '/api/health' && request.method === 'GET') {
+      const health: HealthResponse = { ok: true, rev: store.getState().rev };
+      send(response, 200, health);
+    } else if (url.pathname === '/api/changes' && request.method === 'GET') {
+      send(response, 200, store.pull(parseSince(url.searchParams.get('since'))));
+    } else if (url.pathname === '/api/changes' && request.method === 'POST') {
+      const { changes } = parsePushRequest(await readJsonBody(request));
+      const result = store.push(changes);
+      if (result.applied.length > 0) {
+        onChange?.(store.getState());
+      }
+      send(response, 200, result);
+    } else {
+      throw new HttpError(404, `No route for ${request.method} ${url.pathname}`);
+    }
+  };
+
+  return createServer((request, response) => {
+    handle(request, response).catch(error => {
+      if (error instanceof HttpError) {
+        send(response, error.status, { error: error.message });
+      } else {
+        console.error('Error handling sync request:', error);
+        send(response, 500, { error: 'Internal server error' });
+      }
+    });
+  });
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { InvalidChangeError, createSyncStore, parseChange } from './syncStore';
+
+const record = { id: 1, name: 'Social media', startTime: '2024-03-01T09:00:00.000Z', endTime: '2024-03-01T17:00:00.000Z' };
+const now = new Date('2024-03-01T12:00:00.000Z');
+
+describe('createSyncStore', () => {
+  it('should give every accepted change a new revision', () => {
+    const store = createSyncStore();
+    const result = store.push([
+      { collection: 'blocks', id: 1, baseRev: 0, data: record },
+      { collection: 'standardBlocks', id: 1, baseRev: 0, data: { id: 1, name: 'News' } }
+    ], now);
+
+    expect(result.rev).toBe(2);
+    expect(result.applied.map(applied => applied.rev)).toEqual([1, 2]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should only return records changed since the given revision', () => {
+    const store = createSyncStore();
+    store.push([{ collection: 'blocks', id: 1, baseRev: 0, data: record }], now);
+    store.push([{ collection: 'blocks', id: 2, baseRev: 0, data: { ...record, id: 2 } }], now);
+
+    const pulled = store.pull(1);
+    expect(pulled.rev).toBe(2);
+    expect(pulled.records.map(pulledRecord => pulledRecord.id)).toEqual([2]);
+  });
+
+  it('should reject changes based on an outdated revision', () => {
+    const store = createSyncStore();
+    store.push([{ collection: 'blocks', id: 1, baseRev: 0, data: record }], now);
+    store.push([{ collection: 'blocks', id: 1, baseRev: 1, data: { ...record, name: 'Games' } }], now);
+
+    const result = store.push([{ collection: 'blocks', id: 1, baseRev: 1, data: { ...record, name: 'Video' } }], now);
+
+    expect(result.applied).toEqual([]);
+    expect(result.conflicts).toEqual([expect.objectContaining({ id: 1, rev: 2, data: { ...record, name: 'Games' } })]);
+  });
+
+  it('should keep deleted records as tombstones', () => {
+    const store = createSyncStore();
+    store.push([{ collection: 'blocks', id: 1, baseRev: 0, data: record }], now);
+    store.push([{ collection: 'blocks', id: 1, baseRev: 1, data: null }], now);
+
+    expect(store.pull(1).records).toEqual([expect.objectContaining({ id: 1, rev: 2, data: null })]);
+  });
+
+  it('should continue from a saved state', () => {
+    const first = createSyncStore();
+    first.push([{ collection: 'blocks', id: 1, baseRev: 0, data: record }], now);
+
+    const restored = createSyncStore(first.getState());
+    expect(restored.push([{ collection: 'blocks', id: 1, baseRev: 1, data: null }], now).rev).toBe(2);
+  });
+});
+
+describe('parseChange', () => {
+  it('should accept a well-formed change', () => {
+    expect(parseChange({ collection: 'trash', id: 3, baseRev: 0, data: null })).toEqual({ collection: 'trash', id: 3, baseRev: 0, data: null });
+  });
+
+  it('should reject unknown collections, bad revisions and mismatched ids', () => {
+    expect(() => parseChange({ collection: 'settings', id: 1, baseRev: 0, data: null })).toThrow(InvalidChangeError);
+    expect(() => parseChange({ collection: 'blocks', id: 1, baseRev: -1, data: null })).toThrow(InvalidChangeError);
+    expect(() => parseChange({ collection: 'blocks', id: 1, baseRev: 0, data: { id: 2 } })).toThrow(InvalidChangeError);
+  });
+});
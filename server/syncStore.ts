@@ -0,0 +1,98 @@
+import {
+  PullResponse,
+  PushResponse,
+  SyncChange,
+  SyncRecord,
+  getRecordKey,
+  isSyncCollection
+} from '../src/sync/protocol';
+
+// Everything the server keeps, as written to its data file
+export interface SyncState {
+  rev: number;
+  records: SyncRecord[];
+}
+
+export interface SyncStore {
+  pull: (since: number) => PullResponse;
+  push: (changes: SyncChange[], now?: Date) => PushResponse;
+  getState: () => SyncState;
+}
+
+export class InvalidChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidChangeError';
+  }
+}
+
+const isRecordData = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Check the shape of a pushed change; the record content itself is validated by the app on load
+export const parseChange = (value: unknown): SyncChange => {
+  if (!isRecordData(value)) {
+    throw new InvalidChangeError('Change is not an object');
+  }
+  const { collection, id, baseRev, data } = value;
+  if (!isSyncCollection(collection)) {
+    throw new InvalidChangeError(`Unknown collection ${String(collection)}`);
+  }
+  if (typeof id !== 'number' || !Number.isFinite(id)) {
+    throw new InvalidChangeError('Missing or non-numeric id');
+  }
+  if (typeof baseRev !== 'number' || !Number.isInteger(baseRev) || baseRev < 0) {
+    throw new InvalidChangeError(`Invalid baseRev for ${collection} ${id}`);
+  }
+  if (data !== null && !isRecordData(data)) {
+    throw new InvalidChangeError(`data for ${collection} ${id} must be an object or null`);
+  }
+  if (data && data.id !== id) {
+    throw new InvalidChangeError(`data for ${collection} ${id} has a different id`);
+  }
+  return { collection, id, baseRev, data };
+};
+
+// Records with per-record revisions. A change is only accepted when it is based on the record's
+// current revision, so two devices can never silently overwrite each other.
+export const createSyncStore = (initial: SyncState = { rev: 0, records: [] }): SyncStore => {
+  let rev = initial.rev;
+  const records = new Map(initial.records.map(record => [getRecordKey(record.collection, record.id), record]));
+
+  return {
+    pull: (since) => ({
+      rev,
+      records: [...records.values()]
+        .filter(record => record.rev > since)
+        .sort((a, b) => a.rev - b.rev)
+    }),
+    push: (changes, now = new Date()) => {
+      const applied: SyncRecord[] = [];
+      const conflicts: SyncRecord[] = [];
+
+      changes.forEach(change => {
+        const key = getRecordKey(change.collection, change.id);
+        const current = records.get(key);
+        if ((current?.rev ?? 0) !== change.baseRev) {
+          conflicts.push(current ?? { collection: change.collection, id: change.id, rev: 0, data: null, updatedAt: now.toISOString() });
+          return;
+        }
+
+        rev += 1;
+        const record: SyncRecord = {
+          collection: change.collection,
+          id: change.id,
+          rev,
+          data: change.data,
+          updatedAt: now.toISOString()
+        };
+        records.set(key, record);
+        applied.push(record);
+      });
+
+      return { rev, applied, conflicts };
+    },
+    getState: () => ({ rev, records: [...records.values()] })
+  };
+};
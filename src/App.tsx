@@ -1,19 +1,76 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
-import { FileDataStoreProvider } from './context/FileDataStore';
+import { DataStoreProvider } from './context/DataStore';
+import { SettingsProvider } from './context/SettingsContext';
+import { CommandHistoryProvider } from './context/CommandHistoryContext';
 import { BlockerProvider } from './context/BlockerContext';
 import { StandardBlocksProvider } from './context/StandardBlocksContext';
+import { RecurrenceProvider } from './context/RecurrenceContext';
+import { BackupProvider } from './context/BackupContext';
+import { ArchiveProvider } from './context/ArchiveContext';
 import Layout from './components/Layout';
 import BlockerDashboard from './components/BlockerDashboard';
 import HistoryPage from './components/HistoryPage';
 import RequiredBlocksPage from './components/RequiredBlocksPage';
+import TrashPage from './components/TrashPage';
+import BackupsPage from './components/BackupsPage';
+import ImportExportPage from './components/ImportExportPage';
+import PassphrasePrompt from './components/PassphrasePrompt';
 import { selectFile, isFileSystemAccessSupported } from './utils/fileStorage';
-import { saveFileHandle, getStoredFileHandle, verifyAndRequestPermission, clearStoredFileHandle } from './utils/fileHandleStorage';
+import { createFileBackend } from './storage/fileBackend';
+import { createLocalStorageBackend } from './storage/localStorageBackend';
+import { createChangeLogBackend } from './storage/changeLogBackend';
+import { clearStoredManualFile, createManualFile, createManualFileBackend, getStoredManualFile, openManualFile } from './storage/manualFileBackend';
+import { SyncServerError, checkSyncServer, createSyncBackend } from './storage/syncBackend';
+import { StorageBackend } from './storage/storageBackend';
+import { combineData } from './utils/combineData';
+import { NewerSchemaVersionError } from './utils/migrations';
+import { PassphraseRequiredError } from './utils/encryption';
+import {
+  RecentFile,
+  saveFileHandle,
+  getStoredFileHandle,
+  getRecentFiles,
+  removeRecentFile,
+  verifyAndRequestPermission,
+  clearStoredFileHandle,
+  isMissingFile
+} from './utils/fileHandleStorage';
+import { BrowserStorageMode, getBrowserStorageMode, saveBrowserStorageMode } from './utils/browserStorageMode';
+import { SyncServerConfig, getStoredSyncServer, saveSyncServer, clearStoredSyncServer } from './utils/syncServerStorage';
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Offer to bring records that only exist in the current storage into newly connected storage
+const offerDataMerge = async (source: StorageBackend, target: StorageBackend) => {
+  const sourceData = await source.load();
+  const targetData = await target.load();
+  const { data, added } = combineData(targetData, sourceData);
+  
+  const parts = [];
+  if (added.blocks.length > 0) parts.push(pluralize(added.blocks.length, 'block'));
+  if (added.standardBlocks.length > 0) parts.push(pluralize(added.standardBlocks.length, 'standard block'));
+  if (added.trash.length > 0) parts.push(pluralize(added.trash.length, 'trashed block'));
+  if (parts.length === 0) return;
+  
+  if (window.confirm(`${source.label} has ${parts.join(', ')} that ${target.label} doesn't have. Merge them into ${target.label}?`)) {
+    await target.save({ ...data, quarantine: targetData.quarantine });
+  }
+};
 
 function App() {
-  const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(null);
-  const [useFileStorage, setUseFileStorage] = useState(false);
+  // Kept for the whole session so an encrypted file's passphrase is only asked for once
+  const [fileBackend, setFileBackend] = useState<StorageBackend | null>(null);
   const [isReconnecting, setIsReconnecting] = useState(true);
+  const [recentFiles, setRecentFiles] = useState<RecentFile[]>([]);
+  const [syncServer, setSyncServer] = useState<SyncServerConfig | null>(getStoredSyncServer);
+  const [browserStorageMode, setBrowserStorageMode] = useState<BrowserStorageMode>(getBrowserStorageMode);
+
+  // Where data lives while no file or sync server is connected
+  const browserBackend = useMemo(
+    () => browserStorageMode === 'changeLog' ? createChangeLogBackend() : createLocalStorageBackend(),
+    [browserStorageMode]
+  );
 
   useEffect(() => {
     // Try to reconnect to previous file
@@ -25,17 +82,23 @@ function App() {
           // Verify we still have permission
           const hasPermission = await verifyAndRequestPermission(storedHandle);
           
-          if (hasPermission) {
-            setFileHandle(storedHandle);
-            setUseFileStorage(true);
+          if (hasPermission && !(await isMissingFile(storedHandle))) {
+            setFileBackend(createFileBackend(storedHandle));
           } else {
-            // Permission denied, clear the stored handle
+            // Permission denied or the file is gone; it can still be picked from the recent files
             await clearStoredFileHandle();
           }
+        } else {
+          // A file opened by upload keeps its working copy, including changes not yet downloaded
+          const storedManualFile = await getStoredManualFile();
+          if (storedManualFile) {
+            setFileBackend(createManualFileBackend(storedManualFile));
+          }
         }
       } catch (error) {
         console.error('Error reconnecting to file:', error);
       } finally {
+        setRecentFiles(await getRecentFiles());
         setIsReconnecting(false);
       }
     };
@@ -53,27 +116,185 @@ function App() {
     try {
       const handle = await selectFile();
       if (handle) {
-        setFileHandle(handle);
-        setUseFileStorage(true);
+        const selectedBackend = createFileBackend(handle);
+        try {
+          await offerDataMerge(browserBackend, selectedBackend);
+        } catch (error) {
+          console.error('Error merging browser storage into file:', error);
+          alert(error instanceof NewerSchemaVersionError || error instanceof PassphraseRequiredError
+            ? error.message
+            : 'Could not merge the data from browser storage into the file. It is still kept in browser storage.');
+        }
+        setFileBackend(selectedBackend);
         // Save to IndexedDB for auto-reconnect
-        await saveFileHandle(handle);
+        setRecentFiles(await saveFileHandle(handle));
       }
       // If user cancels, we stay with current file (or localStorage if no file was selected)
     } catch (error) {
       console.error('Error selecting file:', error);
     }
+  }, [browserBackend]);
+
+  // Switching between files replaces the data as is; each file keeps its own blocks
+  const handleSwitchFile = useCallback(async (recent: RecentFile) => {
+    try {
+      const hasPermission = await verifyAndRequestPermission(recent.handle);
+      if (!hasPermission) {
+        alert(`Access to ${recent.name} was not granted. Pick it again to keep using it.`);
+        return;
+      }
+      
+      if (await isMissingFile(recent.handle)) {
+        if (window.confirm(`${recent.name} was moved or deleted. Remove it from the recent files?`)) {
+          setRecentFiles(await removeRecentFile(recent.id));
+        }
+        return;
+      }
+      
+      setFileBackend(createFileBackend(recent.handle));
+      setRecentFiles(await saveFileHandle(recent.handle));
+    } catch (error) {
+      console.error('Error switching file:', error);
+      alert(`Could not open ${recent.name}.`);
+    }
   }, []);
 
-  const handleDisconnect = useCallback(async () => {
-    setFileHandle(null);
-    setUseFileStorage(false);
-    await clearStoredFileHandle();
+  const handleRemoveRecentFile = useCallback(async (id: string) => {
+    setRecentFiles(await removeRecentFile(id));
   }, []);
 
+  // Browsers without the File System Access API work on a copy of the file and download it to save
+  const connectManualFile = useCallback(async (selectedBackend: StorageBackend) => {
+    try {
+      await offerDataMerge(browserBackend, selectedBackend);
+    } catch (error) {
+      console.error('Error merging browser storage into file:', error);
+      alert(error instanceof NewerSchemaVersionError || error instanceof PassphraseRequiredError
+        ? error.message
+        : 'Could not merge the data from browser storage into the file. It is still kept in browser storage.');
+    }
+    setFileBackend(selectedBackend);
+  }, [browserBackend]);
+
+  const handleManualFileOpen = useCallback(async (file: File) => {
+    try {
+      await connectManualFile(createManualFileBackend(await openManualFile(file)));
+    } catch (error) {
+      console.error('Error opening file:', error);
+      alert(`Could not open ${file.name}.`);
+    }
+  }, [connectManualFile]);
+
+  const handleManualFileCreate = useCallback(async () => {
+    try {
+      await connectManualFile(createManualFileBackend(await createManualFile()));
+    } catch (error) {
+      console.error('Error creating file:', error);
+    }
+  }, [connectManualFile]);
+
+  const handleDisconnect = useCallback(async () => {
+    const manualFile = fileBackend?.manualFile;
+    if (manualFile?.hasUnsavedChanges() && window.confirm(`${fileBackend?.label} has changes that were never downloaded. Download it before closing?`)) {
+      try {
+        await manualFile.download();
+      } catch (error) {
+        console.error('Error downloading data file:', error);
+      }
+    }
+
+    // Otherwise the app goes back to whatever was in browser storage before the file was connected
+    if (fileBackend && window.confirm(`Copy the data from ${fileBackend.label} into browser storage? Choose Cancel to keep the data that was there before the file was connected.`)) {
+      try {
+        await browserBackend.save(await fileBackend.load());
+      } catch (error) {
+        console.error('Error copying file data into browser storage:', error);
+        alert(error instanceof NewerSchemaVersionError || error instanceof PassphraseRequiredError
+          ? error.message
+          : 'Could not copy the file\'s data into browser storage.');
+      }
+    }
+    
+    setFileBackend(null);
+    if (manualFile) {
+      await clearStoredManualFile();
+    } else {
+      await clearStoredFileHandle();
+    }
+  }, [fileBackend, browserBackend]);
+
+  const handleBrowserStorageModeChange = useCallback(async (mode: BrowserStorageMode) => {
+    const target = mode === 'changeLog' ? createChangeLogBackend() : createLocalStorageBackend();
+    try {
+      await offerDataMerge(browserBackend, target);
+    } catch (error) {
+      console.error('Error copying data between browser storage modes:', error);
+      alert(error instanceof NewerSchemaVersionError
+        ? error.message
+        : `Could not copy the data from ${browserBackend.label} into ${target.label}. It is still kept in ${browserBackend.label}.`);
+    }
+    setBrowserStorageMode(mode);
+    saveBrowserStorageMode(mode);
+  }, [browserBackend]);
+
+  // Where data lives when no sync server is connected
+  const localBackend = useMemo(
+    () => fileBackend ?? browserBackend,
+    [fileBackend, browserBackend]
+  );
+  
+  const backend = useMemo(
+    () => syncServer ? createSyncBackend(syncServer) : localBackend,
+    [syncServer, localBackend]
+  );
+
+  const handleConnectSyncServer = useCallback(async () => {
+    const url = window.prompt('Sync server URL', 'http://localhost:8787')?.trim();
+    if (!url) return;
+    const token = window.prompt('Access token (leave empty if the server was started without one)', '');
+    if (token === null) return;
+    
+    const config: SyncServerConfig = { url, token: token.trim() || undefined };
+    try {
+      await checkSyncServer(config);
+    } catch (error) {
+      console.error('Error connecting to sync server:', error);
+      alert(error instanceof SyncServerError
+        ? `The sync server refused the connection: ${error.message}`
+        : `Could not reach a sync server at ${url}.`);
+      return;
+    }
+    
+    try {
+      await offerDataMerge(localBackend, createSyncBackend(config));
+    } catch (error) {
+      console.error('Error merging data into sync server:', error);
+      alert(`Could not merge the data from ${localBackend.label} into the sync server. It is still kept in ${localBackend.label}.`);
+    }
+    setSyncServer(config);
+    saveSyncServer(config);
+  }, [localBackend]);
+
+  const handleDisconnectSyncServer = useCallback(async () => {
+    if (window.confirm(`Copy the data from ${backend.label} into ${localBackend.label}? Choose Cancel to keep the data that was there before the server was connected.`)) {
+      try {
+        await localBackend.save(await backend.load());
+      } catch (error) {
+        console.error('Error copying sync server data:', error);
+        alert(error instanceof NewerSchemaVersionError
+          ? error.message
+          : `Could not copy the sync server's data into ${localBackend.label}.`);
+      }
+    }
+    
+    setSyncServer(null);
+    clearStoredSyncServer();
+  }, [backend, localBackend]);
+
   // Get current file name for display
   const getFileName = () => {
-    if (fileHandle) {
-      return fileHandle.name;
+    if (fileBackend) {
+      return fileBackend.label;
     }
     return null;
   };
@@ -93,24 +314,48 @@ function App() {
 
   return (
     <BrowserRouter>
-      <FileDataStoreProvider fileHandle={useFileStorage ? fileHandle : null}>
-        <BlockerProvider>
-          <StandardBlocksProvider>
-            <Layout 
-              onFileSelect={handleFileSelection}
-              onDisconnect={handleDisconnect}
-              currentFileName={getFileName()}
-              isFileSystemSupported={isFileSystemAccessSupported()}
-            >
-              <Routes>
-                <Route path="/" element={<BlockerDashboard />} />
-                <Route path="/history" element={<HistoryPage />} />
-                <Route path="/required" element={<RequiredBlocksPage />} />
-              </Routes>
-            </Layout>
-          </StandardBlocksProvider>
-        </BlockerProvider>
-      </FileDataStoreProvider>
+      <PassphrasePrompt />
+      <DataStoreProvider backend={backend}>
+        <SettingsProvider>
+          <CommandHistoryProvider>
+            <BlockerProvider>
+              <StandardBlocksProvider>
+                <RecurrenceProvider>
+                  <BackupProvider>
+                    <ArchiveProvider>
+                      <Layout 
+                        onFileSelect={handleFileSelection}
+                        onDisconnect={handleDisconnect}
+                        currentFileName={getFileName()}
+                        isFileSystemSupported={isFileSystemAccessSupported()}
+                        recentFiles={recentFiles}
+                        onSwitchFile={handleSwitchFile}
+                        onRemoveRecentFile={handleRemoveRecentFile}
+                        syncServerLabel={syncServer ? backend.label : null}
+                        onConnectSyncServer={handleConnectSyncServer}
+                        onDisconnectSyncServer={handleDisconnectSyncServer}
+                        browserStorageMode={browserStorageMode}
+                        onBrowserStorageModeChange={handleBrowserStorageModeChange}
+                        onManualFileOpen={handleManualFileOpen}
+                        onManualFileCreate={handleManualFileCreate}
+                      >
+                        <Routes>
+                          <Route path="/" element={<BlockerDashboard />} />
+                          <Route path="/history" element={<HistoryPage />} />
+                          <Route path="/required" element={<RequiredBlocksPage />} />
+                          <Route path="/trash" element={<TrashPage />} />
+                          <Route path="/backups" element={<BackupsPage />} />
+                          <Route path="/transfer" element={<ImportExportPage />} />
+                        </Routes>
+                      </Layout>
+                    </ArchiveProvider>
+                  </BackupProvider>
+                </RecurrenceProvider>
+              </StandardBlocksProvider>
+            </BlockerProvider>
+          </CommandHistoryProvider>
+        </SettingsProvider>
+      </DataStoreProvider>
     </BrowserRouter>
   );
 }
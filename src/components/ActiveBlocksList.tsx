@@ -1,16 +1,20 @@
 import React, { useState } from 'react';
 import { Block } from '../types';
 import { useBlocker } from '../context/BlockerContext';
+import { QUICK_EXTENSIONS, describeActivity, getTomorrowMorning, isPaused } from '../utils/adjustments';
+import { isLockEnforced } from '../utils/locks';
+import { describeTargets } from '../utils/blocklist';
 import { calculateRemainingTime, calculateProgress } from '../utils/timeUtils';
-import { ShieldAlert, FileText } from 'lucide-react';
+import { ShieldAlert, FileText, Pause, Play, Moon, History, Target } from 'lucide-react';
 import { BlockActions } from './BlockActions';
+import TagBadges from './TagBadges';
 
 interface ActiveBlocksListProps {
   blocks: Block[];
 }
 
 const ActiveBlocksList: React.FC<ActiveBlocksListProps> = ({ blocks }) => {
-  const { currentTime } = useBlocker();
+  const { currentTime, extendBlock, pauseBlock, resumeBlock } = useBlocker();
   const [editingId, setEditingId] = useState<number | null>(null);
   
   return (
@@ -28,8 +32,12 @@ const ActiveBlocksList: React.FC<ActiveBlocksListProps> = ({ blocks }) => {
       ) : (
         <div className="space-y-4">
           {blocks.map(block => {
-            const remaining = calculateRemainingTime(block.endTime, currentTime);
-            const progress = calculateProgress(block.startTime, block.endTime, currentTime);
+            const remaining = calculateRemainingTime(block.endTime, currentTime, block.pauses);
+            const progress = calculateProgress(block.startTime, block.endTime, currentTime, block.pauses);
+            const paused = isPaused(block);
+            const tomorrowMorning = getTomorrowMorning(currentTime);
+            const activity = describeActivity(block);
+            const targets = describeTargets(block.targets);
             
             return (
               <div 
@@ -49,6 +57,7 @@ const ActiveBlocksList: React.FC<ActiveBlocksListProps> = ({ blocks }) => {
                     <div className="flex justify-between items-start mb-3">
                       <div className="flex-grow">
                         <h3 className="font-bold text-xl">{block.name}</h3>
+                        <TagBadges block={block} />
                         <p className="text-sm text-gray-600">
                           {block.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })} - 
                           {block.endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
@@ -59,15 +68,33 @@ const ActiveBlocksList: React.FC<ActiveBlocksListProps> = ({ blocks }) => {
                             <p className="text-sm text-gray-600 italic">{block.notes}</p>
                           </div>
                         )}
+                        {targets && (
+                          <p
+                            className="mt-1 text-xs text-gray-500 flex items-center gap-1"
+                            title={[...(block.targets?.domains ?? []), ...(block.targets?.urlPatterns ?? []), ...(block.targets?.apps ?? [])].join('\n')}
+                          >
+                            <Target size={12} /> Blocking {targets}
+                          </p>
+                        )}
+                        {activity && (
+                          <p
+                            className="mt-1 text-xs text-gray-500 flex items-center gap-1"
+                            title={(block.activity ?? []).map(entry => `${entry.action} at ${new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}`).join('\n')}
+                          >
+                            <History size={12} /> {activity}
+                          </p>
+                        )}
                       </div>
                       
                       <div className="flex items-start justify-between gap-4">
                         <div className="text-right">
-                          <div className="text-sm text-gray-500 mb-1">Time Remaining:</div>
+                          <div className="text-sm text-gray-500 mb-1">{paused ? 'Paused, remaining:' : 'Time Remaining:'}</div>
                           <div className={`text-2xl font-bold ${
-                            remaining.totalMinutes && remaining.totalMinutes < 10 
-                              ? 'text-red-600'
-                              : 'text-blue-600'
+                            paused
+                              ? 'text-gray-400'
+                              : remaining.totalMinutes && remaining.totalMinutes < 10 
+                                ? 'text-red-600'
+                                : 'text-blue-600'
                           }`}>
                             {remaining.text}
                           </div>
@@ -88,16 +115,55 @@ const ActiveBlocksList: React.FC<ActiveBlocksListProps> = ({ blocks }) => {
                       <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
                         <div
                           className={`h-3 rounded-full transition-all duration-1000 ${
-                            remaining.totalMinutes && remaining.totalMinutes < 10 
-                              ? 'bg-red-500'
-                              : remaining.totalMinutes && remaining.totalMinutes < 30
-                                ? 'bg-amber-500'
-                                : 'bg-blue-500'
+                            paused
+                              ? 'bg-gray-400'
+                              : remaining.totalMinutes && remaining.totalMinutes < 10 
+                                ? 'bg-red-500'
+                                : remaining.totalMinutes && remaining.totalMinutes < 30
+                                  ? 'bg-amber-500'
+                                  : 'bg-blue-500'
                           }`}
                           style={{ width: `${progress}%` }}
                         />
                       </div>
                     </div>
+                    
+                    {/* Quick adjustments, each logged on the block */}
+                    <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+                      {QUICK_EXTENSIONS.map(extension => (
+                        <button
+                          key={extension.label}
+                          onClick={() => extendBlock(block.id, new Date(block.endTime.getTime() + extension.minutes * 60 * 1000))}
+                          className="px-3 py-1 rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 transition-colors"
+                        >
+                          {extension.label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => extendBlock(block.id, tomorrowMorning)}
+                        disabled={tomorrowMorning <= block.endTime}
+                        className="px-3 py-1 rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 transition-colors flex items-center gap-1"
+                        title={`Extend until ${tomorrowMorning.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit', hour12: false })}`}
+                      >
+                        <Moon size={14} /> Until tomorrow morning
+                      </button>
+                      {paused ? (
+                        <button
+                          onClick={() => resumeBlock(block.id)}
+                          className="ml-auto px-3 py-1 rounded-lg bg-green-50 text-green-700 hover:bg-green-100 transition-colors flex items-center gap-1"
+                        >
+                          <Play size={14} /> Resume
+                        </button>
+                      ) : !isLockEnforced(block, currentTime) && (
+                        <button
+                          onClick={() => pauseBlock(block.id)}
+                          className="ml-auto px-3 py-1 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors flex items-center gap-1"
+                          title="Pause; the remaining time is kept for when you resume"
+                        >
+                          <Pause size={14} /> Pause
+                        </button>
+                      )}
+                    </div>
                   </>
                 )}
               </div>
@@ -1,17 +1,32 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Plus, X, Clock, ArrowRight, FileText } from 'lucide-react';
+import { Plus, X, Clock, ArrowRight, FileText, Lock } from 'lucide-react';
 import { useBlocker } from '../context/BlockerContext';
 import { useStandardBlocks } from '../context/StandardBlocksContext';
+import { useRecurrence } from '../context/RecurrenceContext';
 import { formatDateOnly, updateDateTimePart, formatDateForDateInput, formatTimeForTimeInput, updateDateAndTime } from '../utils/timeUtils';
+import { validateRecurrenceRule } from '../utils/recurrence';
+import { getTemplateTimes } from '../utils/templates';
+import { formatTags, toTagFields } from '../utils/tags';
+import { TargetText, toBlockTargets, toTargetText } from '../utils/blocklist';
+import { findConflicts } from '../utils/overlaps';
 import StandardBlocksList from './StandardBlocksList';
-import { StandardBlock } from '../types';
+import RecurrenceFields from './RecurrenceFields';
+import TagFields from './TagFields';
+import TargetFields from './TargetFields';
+import OverlapWarning from './OverlapWarning';
+import { RecurrenceRule, StandardBlock } from '../types';
 
 const AddBlockForm: React.FC = () => {
-  const { addBlock, currentTime } = useBlocker();
+  const { blocks, addBlock, currentTime } = useBlocker();
   const { addStandardBlock } = useStandardBlocks();
+  const { repeatBlock, mergeBlocks } = useRecurrence();
   const [showForm, setShowForm] = useState(false);
   const [blockName, setBlockName] = useState('');
   const [notes, setNotes] = useState('');
+  const [category, setCategory] = useState('');
+  const [tags, setTags] = useState('');
+  const [locked, setLocked] = useState(false);
+  const [targets, setTargets] = useState<TargetText>(() => toTargetText(undefined));
   
   // Date state using Date objects
   const [startTime, setStartTime] = useState<Date | null>(null);
@@ -29,6 +44,8 @@ const AddBlockForm: React.FC = () => {
   
   const [formError, setFormError] = useState('');
   const [saveAsStandard, setSaveAsStandard] = useState(false);
+  // Null for a one-off block
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
   
   // Refs for inputs to manage focus
   const blockNameInputRef = useRef<HTMLInputElement>(null);
@@ -150,9 +167,14 @@ const AddBlockForm: React.FC = () => {
   const resetForm = () => {
     setBlockName('');
     setNotes('');
+    setCategory('');
+    setTags('');
+    setLocked(false);
+    setTargets(toTargetText(undefined));
     setStartTime(null);
     setEndTime(null);
     setSaveAsStandard(false);
+    setRecurrence(null);
     setFormError('');
     setUseDuration(false);
     setDuration({
@@ -217,6 +239,33 @@ const AddBlockForm: React.FC = () => {
     }
   };
   
+  // The block described by the form
+  const getFormBlock = (start: Date, end: Date) => ({
+    name: blockName.trim(),
+    startTime: start,
+    endTime: end,
+    notes: notes.trim(),
+    ...toTagFields(category, tags),
+    targets: toBlockTargets(targets),
+    locked: locked || undefined
+  });
+  
+  // Existing blocks with the same name that a one-off block would overlap
+  const conflicts = !recurrence && blockName.trim() && startTime && endTime && endTime > startTime
+    ? findConflicts({ name: blockName, startTime, endTime }, blocks)
+    : [];
+  
+  const handleMergeConflicts = () => {
+    if (!startTime || !endTime) return;
+    
+    if (!mergeBlocks(conflicts.map(block => block.id), getFormBlock(startTime, endTime))) {
+      setFormError('These blocks could not be merged without shortening or unlocking a locked block');
+      return;
+    }
+    resetForm();
+    setShowForm(false);
+  };
+  
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -247,17 +296,29 @@ const AddBlockForm: React.FC = () => {
         return;
       }
 
-      addBlock({
-        name: blockName.trim(),
-        startTime: startTime,
-        endTime: endTime,
-        notes: notes.trim()
-      });
+      const block = getFormBlock(startTime, endTime);
+
+      if (recurrence) {
+        const problem = validateRecurrenceRule(recurrence, formatDateForDateInput(startTime));
+        if (problem) {
+          setFormError(problem);
+          return;
+        }
+        // The series lives on the standard block of the same name, which is created if needed
+        repeatBlock(block, recurrence);
+      } else {
+        addBlock(block);
+      }
       
       // Save as standard block if checkbox is checked
-      if (saveAsStandard) {
+      if (saveAsStandard && !recurrence) {
         addStandardBlock({
-          name: blockName.trim()
+          name: blockName.trim(),
+          durationMinutes: Math.round((endTime.getTime() - startTime.getTime()) / 60000),
+          notes: notes.trim() || undefined,
+          ...toTagFields(category, tags),
+          targets: toBlockTargets(targets),
+          locked: locked || undefined
         });
       }
       
@@ -271,13 +332,16 @@ const AddBlockForm: React.FC = () => {
   // Handle selecting a standard block
   const handleSelectStandardBlock = (block: StandardBlock) => {
     setBlockName(block.name);
+    setNotes(block.notes ?? '');
+    setCategory(block.category ?? '');
+    setTags(formatTags(block.tags));
+    setLocked(block.locked === true);
+    setTargets(toTargetText(block.targets));
     
-    // Use the actual current system time
-    const now = new Date();
-    const later = new Date(now.getTime() + 3600000); // Default 1 hour later
-    
-    setStartTime(now);
-    setEndTime(later);
+    // Start from the standard block's defaults, using the actual current system time
+    const times = getTemplateTimes(block, new Date());
+    setStartTime(times.startTime);
+    setEndTime(times.endTime);
     
     setShowForm(true);
   };
@@ -559,7 +623,7 @@ const AddBlockForm: React.FC = () => {
           </div>
         </div>
         
-
+        <OverlapWarning conflicts={conflicts} onMerge={handleMergeConflicts} className="mb-4" />
         
         <div className="mb-4">
           <label htmlFor="blockNotes" className="block font-medium mb-1 text-gray-700 flex items-center gap-1.5">
@@ -575,15 +639,50 @@ const AddBlockForm: React.FC = () => {
           />
         </div>
         
+        <div className="mb-4">
+          <TagFields
+            idPrefix="block"
+            category={category}
+            tags={tags}
+            onCategoryChange={setCategory}
+            onTagsChange={setTags}
+          />
+        </div>
+        
+        <div className="mb-4">
+          <TargetFields idPrefix="block" value={targets} onChange={setTargets} />
+        </div>
+        
+        <div className="mb-4">
+          <RecurrenceFields rule={recurrence} onChange={setRecurrence} />
+        </div>
+        
+        <div className="mb-4">
+          <label className="flex items-center cursor-pointer space-x-2">
+            <input
+              type="checkbox"
+              checked={locked}
+              onChange={(e) => setLocked(e.target.checked)}
+              className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="text-gray-700 flex items-center gap-1.5">
+              <Lock size={16} /> Lock while active, so it can't be shortened or removed
+            </span>
+          </label>
+        </div>
+        
         <div className="mb-4">
           <label className="flex items-center cursor-pointer space-x-2">
             <input
               type="checkbox"
-              checked={saveAsStandard}
+              checked={saveAsStandard || recurrence !== null}
               onChange={handleSaveAsStandardChange}
+              disabled={recurrence !== null}
               className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
             />
-            <span className="text-gray-700">Save as standard block for future use</span>
+            <span className="text-gray-700">
+              {recurrence ? 'Repeating blocks are always saved as standard blocks' : 'Save as standard block for future use'}
+            </span>
           </label>
         </div>
         
@@ -599,7 +698,7 @@ const AddBlockForm: React.FC = () => {
             type="submit"
             className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
           >
-            Create Block
+            {recurrence ? 'Create Series' : 'Create Block'}
           </button>
         </div>
       </form>
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Archive, FolderOpen, AlertTriangle } from 'lucide-react';
+import { useArchives } from '../context/ArchiveContext';
+import { useSettings } from '../context/SettingsContext';
+import { isDirectoryPickerSupported } from '../utils/backupStorage';
+
+const ARCHIVE_OPTIONS = [
+  { days: 0, label: 'Never' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 180, label: '6 months' },
+  { days: 365, label: '1 year' }
+];
+
+// Where old history is archived and how old it has to be
+const ArchiveSettings: React.FC = () => {
+  const {
+    archivedMonths,
+    archiveDirectory,
+    needsDirectoryPermission,
+    canArchive,
+    chooseArchiveDirectory,
+    reconnectArchiveDirectory,
+    switchArchivesToBrowserStorage,
+    archiveNow,
+    isArchiving,
+    error
+  } = useArchives();
+  const { settings, updateSettings } = useSettings();
+
+  return (
+    <div className="mt-6 bg-white border rounded-lg p-6 shadow-sm space-y-4">
+      <h2 className="text-lg font-semibold text-gray-600 flex items-center gap-2">
+        <Archive className="h-5 w-5" />
+        Archive
+        {archivedMonths.length > 0 && (
+          <span className="ml-2 bg-gray-100 text-gray-800 text-sm rounded-full px-2 py-0.5">
+            {archivedMonths.length} month{archivedMonths.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </h2>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 text-red-700 border border-red-200 rounded-lg text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {canArchive ? (
+        <div className="flex justify-between items-center gap-4">
+          <label htmlFor="archive-after" className="flex items-center gap-2 text-sm text-gray-700">
+            Move blocks into monthly archives once they ended
+            <select
+              id="archive-after"
+              value={settings.archiveAfterDays}
+              onChange={(e) => updateSettings({ archiveAfterDays: Number(e.target.value) })}
+              className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              {ARCHIVE_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+            {settings.archiveAfterDays > 0 && 'ago'}
+          </label>
+          {settings.archiveAfterDays > 0 && (
+            <button
+              onClick={archiveNow}
+              disabled={isArchiving}
+              className="px-3 py-2 rounded-md text-sm font-medium flex items-center bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 transition-colors"
+            >
+              <Archive className="h-4 w-4 mr-1.5" />
+              Archive now
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-700">
+          Blocks are not archived while your data syncs with a server, since removing them here would
+          delete them on every device.
+        </p>
+      )}
+
+      <div className="flex justify-between items-center gap-4">
+        <div className="text-sm text-gray-700">
+          {archiveDirectory
+            ? <>Archives are saved to the <span className="font-medium">{archiveDirectory.name}</span> directory.</>
+            : 'Archives are saved in browser storage.'}
+        </div>
+        <div className="flex items-center gap-2">
+          {needsDirectoryPermission && (
+            <button
+              onClick={reconnectArchiveDirectory}
+              className="px-3 py-2 rounded-md text-sm font-medium text-amber-700 bg-amber-50 hover:bg-amber-100 transition-colors"
+            >
+              Reconnect archive directory
+            </button>
+          )}
+          {isDirectoryPickerSupported() && (
+            <button
+              onClick={chooseArchiveDirectory}
+              className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+            >
+              <FolderOpen className="h-4 w-4 mr-1.5 text-gray-500" />
+              {archiveDirectory ? 'Change directory' : 'Choose directory'}
+            </button>
+          )}
+          {(archiveDirectory || needsDirectoryPermission) && (
+            <button
+              onClick={switchArchivesToBrowserStorage}
+              className="px-3 py-2 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+            >
+              Use browser storage
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveSettings;
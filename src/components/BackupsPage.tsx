@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { useBackups } from '../context/BackupContext';
+import { useSettings } from '../context/SettingsContext';
+import { BackupSnapshotInfo, BackupTier, BACKUP_TIERS } from '../utils/backups';
+import { LoadedFileData } from '../utils/fileStorage';
+import { isDirectoryPickerSupported } from '../utils/backupStorage';
+import { PassphraseRequiredError } from '../utils/encryption';
+import { formatDuration } from '../utils/timeUtils';
+import { DatabaseBackup, FolderOpen, ChevronLeft, AlertTriangle, ArchiveRestore } from 'lucide-react';
+import { Link } from 'react-router-dom';
+
+const TIER_LABELS: Record<BackupTier, string> = {
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly'
+};
+
+const formatDateTime = (date: Date) => {
+  return date.toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+const BackupsPage: React.FC = () => {
+  const {
+    snapshots,
+    backupDirectory,
+    needsDirectoryPermission,
+    chooseBackupDirectory,
+    reconnectBackupDirectory,
+    switchBackupsToBrowserStorage,
+    backupNow,
+    readSnapshot,
+    restoreSnapshot,
+    isBackingUp,
+    error
+  } = useBackups();
+  const { settings, updateSettings } = useSettings();
+  const [selected, setSelected] = useState<BackupSnapshotInfo | null>(null);
+  const [preview, setPreview] = useState<LoadedFileData | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const handleSelect = async (snapshot: BackupSnapshotInfo) => {
+    setSelected(snapshot);
+    setPreview(null);
+    setPreviewError(null);
+    try {
+      setPreview(await readSnapshot(snapshot.id));
+    } catch (err) {
+      console.error('Error reading backup:', err);
+      setPreviewError(err instanceof PassphraseRequiredError ? err.message : 'This backup could not be read.');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!selected || !preview) return;
+
+    if (window.confirm(`Replace your current blocks with the backup from ${formatDateTime(selected.createdAt)}? You can undo this with Ctrl+Z.`)) {
+      restoreSnapshot(selected, preview);
+    }
+  };
+
+  const handleRetentionChange = (tier: BackupTier, value: string) => {
+    const count = Math.max(0, Math.floor(Number(value) || 0));
+    updateSettings({ backupRetention: { ...settings.backupRetention, [tier]: count } });
+  };
+
+  const sortedPreviewBlocks = preview
+    ? [...preview.blocks].sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+    : [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-3xl font-bold text-gray-900">Backups</h2>
+        <Link 
+          to="/" 
+          className="bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium py-2 px-4 rounded-lg flex items-center"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to Dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-6 flex items-start gap-2 p-3 bg-red-50 text-red-700 border border-red-200 rounded-lg text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Location and rotation settings */}
+      <div className="mb-6 p-4 bg-white rounded-lg shadow-sm space-y-4">
+        <div className="flex justify-between items-center gap-4">
+          <div className="text-sm text-gray-700">
+            {backupDirectory
+              ? <>Backups are saved to the <span className="font-medium">{backupDirectory.name}</span> directory.</>
+              : 'Backups are saved in browser storage.'}
+          </div>
+          <div className="flex items-center gap-2">
+            {needsDirectoryPermission && (
+              <button
+                onClick={reconnectBackupDirectory}
+                className="px-3 py-2 rounded-md text-sm font-medium text-amber-700 bg-amber-50 hover:bg-amber-100 transition-colors"
+              >
+                Reconnect backup directory
+              </button>
+            )}
+            {isDirectoryPickerSupported() && (
+              <button
+                onClick={chooseBackupDirectory}
+                className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+              >
+                <FolderOpen className="h-4 w-4 mr-1.5 text-gray-500" />
+                {backupDirectory ? 'Change directory' : 'Choose directory'}
+              </button>
+            )}
+            {(backupDirectory || needsDirectoryPermission) && (
+              <button
+                onClick={switchBackupsToBrowserStorage}
+                className="px-3 py-2 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+              >
+                Use browser storage
+              </button>
+            )}
+            <button
+              onClick={backupNow}
+              disabled={isBackingUp}
+              className="px-3 py-2 rounded-md text-sm font-medium flex items-center bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 transition-colors"
+            >
+              <DatabaseBackup className="h-4 w-4 mr-1.5" />
+              Back up now
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-6 text-sm text-gray-700">
+          <span>Snapshots to keep:</span>
+          {BACKUP_TIERS.map(tier => (
+            <label key={tier} className="flex items-center gap-2">
+              {TIER_LABELS[tier]}
+              <input
+                type="number"
+                min={0}
+                value={settings.backupRetention[tier]}
+                onChange={(e) => handleRetentionChange(tier, e.target.value)}
+                className="w-16 border border-gray-300 rounded-md px-2 py-1"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Snapshot list */}
+        <div className="bg-white border rounded-lg p-6 shadow-sm">
+          <h2 className="text-lg font-semibold mb-4 text-gray-600 flex items-center gap-2">
+            <DatabaseBackup className="h-5 w-5" />
+            Snapshots <span className="ml-2 bg-gray-100 text-gray-800 text-sm rounded-full px-2 py-0.5">{snapshots.length}</span>
+          </h2>
+          {snapshots.length === 0 ? (
+            <p className="text-gray-500 text-sm py-4">No backups yet</p>
+          ) : (
+            <div className="space-y-2">
+              {snapshots.map(snapshot => (
+                <button
+                  key={snapshot.id}
+                  onClick={() => handleSelect(snapshot)}
+                  className={`w-full text-left p-2 rounded text-sm flex justify-between items-center transition-colors ${
+                    selected?.id === snapshot.id ? 'bg-blue-50 text-blue-700' : 'bg-gray-50 hover:bg-gray-100'
+                  }`}
+                >
+                  <span>{formatDateTime(snapshot.createdAt)}</span>
+                  <span className="text-xs bg-gray-200 text-gray-700 rounded-full px-2 py-0.5">{TIER_LABELS[snapshot.tier]}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Preview of the selected snapshot */}
+        <div className="md:col-span-2 bg-white border rounded-lg p-6 shadow-sm">
+          {!selected ? (
+            <p className="text-gray-500 text-sm py-4">Select a snapshot to preview its contents</p>
+          ) : previewError ? (
+            <p className="text-red-600 text-sm py-4">{previewError}</p>
+          ) : !preview ? (
+            <p className="text-gray-500 text-sm py-4">Loading backup...</p>
+          ) : (
+            <div>
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800">{formatDateTime(selected.createdAt)}</h3>
+                  <p className="text-sm text-gray-600">
+                    {preview.blocks.length} block{preview.blocks.length === 1 ? '' : 's'},{' '}
+                    {preview.standardBlocks.length} standard block{preview.standardBlocks.length === 1 ? '' : 's'},{' '}
+                    {preview.trash.length} in the trash
+                  </p>
+                </div>
+                <button
+                  onClick={handleRestore}
+                  className="px-3 py-2 rounded-md text-sm font-medium flex items-center bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+                >
+                  <ArchiveRestore className="h-4 w-4 mr-1.5" />
+                  Restore this snapshot
+                </button>
+              </div>
+
+              {preview.quarantine.length > 0 && (
+                <p className="mb-4 text-sm text-amber-700">
+                  {preview.quarantine.length} malformed entr{preview.quarantine.length > 1 ? 'ies' : 'y'} in this backup will not be restored.
+                </p>
+              )}
+
+              {preview.standardBlocks.length > 0 && (
+                <div className="mb-4 flex flex-wrap gap-2">
+                  {preview.standardBlocks.map(block => (
+                    <span key={block.id} className="text-xs bg-gray-100 text-gray-700 rounded-full px-2 py-0.5">
+                      {block.name}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {sortedPreviewBlocks.map(block => (
+                  <div key={block.id} className="bg-gray-50 p-2 rounded text-sm flex justify-between items-center">
+                    <span className="font-medium">{block.name}</span>
+                    <span className="text-gray-600">
+                      {formatDateTime(block.startTime)} - {formatDateTime(block.endTime)}
+                      <span className="ml-2 text-xs bg-gray-200 text-gray-700 rounded-full px-2 py-0.5">
+                        {formatDuration(block.startTime, block.endTime)}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupsPage;
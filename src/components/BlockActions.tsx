@@ -1,8 +1,20 @@
-import React, { useState, useEffect } from 'react';
-import { Edit2, Trash2, X, Check, Calendar, Clock, FileText } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Edit2, Trash2, X, Check, Calendar, Clock, FileText, History, CalendarOff, Lock, StopCircle } from 'lucide-react';
 import { Block, BlockFormData } from '../types';
 import { useBlocker } from '../context/BlockerContext';
+import { useRecurrence } from '../context/RecurrenceContext';
+import { useDataStore } from '../context/DataStore';
+import BlockEditHistoryDialog from './BlockEditHistoryDialog';
+import EmergencyUnlockDialog from './EmergencyUnlockDialog';
+import TagFields from './TagFields';
+import TargetFields from './TargetFields';
+import OverlapWarning from './OverlapWarning';
 import { formatDateTimeLocal, parseDateTimeLocal } from '../utils/timeUtils';
+import { formatTags, toTagFields } from '../utils/tags';
+import { getLockViolation, isLockEnforced } from '../utils/locks';
+import { TargetText, toBlockTargets, toTargetText } from '../utils/blocklist';
+import { findConflicts } from '../utils/overlaps';
+import { getEffectiveEndTime } from '../utils/adjustments';
 
 interface BlockActionsProps {
   block: Block;
@@ -19,15 +31,26 @@ export const BlockActions: React.FC<BlockActionsProps> = ({
   initialEditMode = false,
   fullScreenEdit = false
 }) => {
-  const { removeBlock, updateBlock } = useBlocker();
+  const { blocks, removeBlock, updateBlock, endBlockNow, currentTime } = useBlocker();
+  const { getSeries, updateSeries, skipOccurrence, stopSeries, mergeBlocks } = useRecurrence();
+  const series = getSeries(block);
+  const { backend } = useDataStore();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isUnlockOpen, setIsUnlockOpen] = useState(false);
+  const isLocked = isLockEnforced(block, currentTime);
+  const isActive = currentTime >= block.startTime && currentTime < getEffectiveEndTime(block, currentTime);
   const [isEditing, setIsEditing] = useState(initialEditMode);
   const [isExpanded, setIsExpanded] = useState(false);
   const [formData, setFormData] = useState<BlockFormData>({
     name: block.name,
     startTime: formatDateTimeLocal(block.startTime),
     endTime: formatDateTimeLocal(block.endTime),
-    notes: block.notes || ''
+    notes: block.notes || '',
+    category: block.category || '',
+    tags: formatTags(block.tags),
+    locked: block.locked === true
   });
+  const [targets, setTargets] = useState<TargetText>(() => toTargetText(block.targets));
   const [error, setError] = useState('');
 
   useEffect(() => {
@@ -50,17 +73,22 @@ export const BlockActions: React.FC<BlockActionsProps> = ({
       name: block.name,
       startTime: formatDateTimeLocal(block.startTime),
       endTime: formatDateTimeLocal(block.endTime),
-      notes: block.notes || ''
+      notes: block.notes || '',
+      category: block.category || '',
+      tags: formatTags(block.tags),
+      locked: block.locked === true
     });
+    setTargets(toTargetText(block.targets));
     onEditEnd?.();
   };
 
-  const handleSave = () => {
+  // The edited block, or null after reporting why the form can't be saved
+  const getChanges = (): Omit<Block, 'id'> | null => {
     setError('');
 
     if (!formData.name.trim()) {
       setError('Please enter a block name');
-      return;
+      return null;
     }
 
     const start = parseDateTimeLocal(formData.startTime);
@@ -68,32 +96,101 @@ export const BlockActions: React.FC<BlockActionsProps> = ({
 
     if (isNaN(start.getTime()) || isNaN(end.getTime())) {
       setError('Invalid date format');
-      return;
+      return null;
     }
 
     if (end <= start) {
       setError('End time must be after start time');
-      return;
+      return null;
     }
 
-    updateBlock(block.id, {
+    // Keep fields the form doesn't edit, such as the series an occurrence belongs to
+    const changes = {
+      ...block,
       name: formData.name.trim(),
       startTime: start,
       endTime: end,
-      notes: formData.notes.trim()
-    });
+      notes: formData.notes.trim(),
+      ...toTagFields(formData.category, formData.tags),
+      targets: toBlockTargets(targets),
+      locked: formData.locked || undefined
+    };
 
+    const violation = getLockViolation(block, changes);
+    if (violation) {
+      setError(violation);
+      return null;
+    }
+    return changes;
+  };
+
+  const finishEditing = () => {
     setIsEditing(false);
     setIsExpanded(false);
     onEditEnd?.();
   };
 
+  const handleSave = () => {
+    const changes = getChanges();
+    if (!changes) return;
+
+    if (series && window.confirm(`Apply these changes to every upcoming occurrence of "${series.name}"? Choose Cancel to change only this occurrence.`)) {
+      updateSeries(block, changes);
+    } else {
+      // An occurrence edited on its own no longer follows changes to its series
+      updateBlock(block.id, series ? { ...changes, detached: true } : changes);
+    }
+
+    finishEditing();
+  };
+
+  // Other blocks with the same name that the edited times overlap. A half-typed time is an
+  // invalid date here rather than an error, so the check just waits for it.
+  const editedStart = new Date(formData.startTime);
+  const editedEnd = new Date(formData.endTime);
+  const conflicts = isEditing && editedEnd > editedStart
+    ? findConflicts({ name: formData.name, startTime: editedStart, endTime: editedEnd }, blocks, block.id)
+    : [];
+
+  const handleMergeConflicts = () => {
+    const changes = getChanges();
+    if (!changes) return;
+
+    if (!mergeBlocks([block.id, ...conflicts.map(conflict => conflict.id)], { ...changes, id: block.id })) {
+      setError('These blocks could not be merged without shortening or unlocking a locked block.');
+      return;
+    }
+    finishEditing();
+  };
+
   const handleDelete = () => {
-    if (window.confirm('Are you sure you want to delete this block?')) {
+    if (series) {
+      if (window.confirm(`Skip this occurrence of "${series.name}"? It moves to the trash and won't be created again.`)) {
+        skipOccurrence(block);
+      }
+    } else if (window.confirm('Move this block to the trash? You can restore it from the Trash page.')) {
       removeBlock(block.id);
     }
   };
 
+  const handleEndNow = () => {
+    const reason = window.prompt(`Why are you ending "${block.name}" early? It will show as broken in your history.`);
+    if (reason !== null) {
+      endBlockNow(block.id, reason);
+    }
+  };
+
+  const handleStopRepeating = () => {
+    if (series && window.confirm(`Stop repeating "${series.name}"? Occurrences that haven't started yet move to the trash.`)) {
+      stopSeries(series.id);
+    }
+  };
+
+  const loadHistory = useCallback(
+    () => backend.getRecordHistory ? backend.getRecordHistory(block.id) : Promise.resolve([]),
+    [backend, block.id]
+  );
+
   const toggleExpand = () => {
     setIsExpanded(!isExpanded);
   };
@@ -173,6 +270,8 @@ export const BlockActions: React.FC<BlockActionsProps> = ({
             </div>
           </div>
 
+          <OverlapWarning conflicts={conflicts} onMerge={handleMergeConflicts} />
+
           <div className="space-y-2">
             <label htmlFor="blockNotes" className="block text-sm font-medium text-gray-700 flex items-center gap-2">
               <FileText size={16} /> Notes
@@ -186,6 +285,31 @@ export const BlockActions: React.FC<BlockActionsProps> = ({
               placeholder="Add optional notes about this block"
             />
           </div>
+
+          <TagFields
+            idPrefix={`block${block.id}`}
+            category={formData.category}
+            tags={formData.tags}
+            onCategoryChange={(category) => setFormData({ ...formData, category })}
+            onTagsChange={(tags) => setFormData({ ...formData, tags })}
+            className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none text-base"
+          />
+
+          <TargetFields idPrefix={`block${block.id}`} value={targets} onChange={setTargets} />
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.locked}
+              onChange={(e) => setFormData({ ...formData, locked: e.target.checked })}
+              disabled={isLocked}
+              className="w-4 h-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <Lock size={14} />
+            {isLocked
+              ? 'Locked until it ends: it can be extended but not shortened'
+              : "Lock while active, so it can't be shortened or removed"}
+          </label>
         </div>
 
         <div className={`${isExpanded ? 'mt-6 flex justify-between' : 'mt-5 flex justify-end gap-3'}`}>
@@ -228,13 +352,60 @@ export const BlockActions: React.FC<BlockActionsProps> = ({
       >
         <Edit2 size={16} />
       </button>
-      <button
-        onClick={handleDelete}
-        className="p-1 text-gray-500 hover:text-red-600 transition-colors"
-        title="Delete block"
-      >
-        <Trash2 size={16} />
-      </button>
+      {backend.getRecordHistory && (
+        <button
+          onClick={() => setIsHistoryOpen(true)}
+          className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+          title="Edit history"
+        >
+          <History size={16} />
+        </button>
+      )}
+      {isActive && !isLocked && (
+        <button
+          onClick={handleEndNow}
+          className="p-1 text-gray-500 hover:text-red-600 transition-colors"
+          title="End now"
+        >
+          <StopCircle size={16} />
+        </button>
+      )}
+      {series && (
+        <button
+          onClick={handleStopRepeating}
+          className="p-1 text-gray-500 hover:text-red-600 transition-colors"
+          title="Stop repeating"
+        >
+          <CalendarOff size={16} />
+        </button>
+      )}
+      {isLocked ? (
+        <button
+          onClick={() => setIsUnlockOpen(true)}
+          className={`p-1 transition-colors ${block.unlockRequestedAt ? 'text-amber-500 hover:text-amber-600' : 'text-red-500 hover:text-red-600'}`}
+          title={block.unlockRequestedAt ? 'Unlocking...' : 'Locked: emergency unlock'}
+        >
+          <Lock size={16} />
+        </button>
+      ) : (
+        <button
+          onClick={handleDelete}
+          className="p-1 text-gray-500 hover:text-red-600 transition-colors"
+          title={series ? 'Skip this occurrence' : 'Delete block'}
+        >
+          <Trash2 size={16} />
+        </button>
+      )}
+      {isUnlockOpen && isLocked && (
+        <EmergencyUnlockDialog block={block} onClose={() => setIsUnlockOpen(false)} />
+      )}
+      {isHistoryOpen && (
+        <BlockEditHistoryDialog
+          blockName={block.name}
+          loadHistory={loadHistory}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { History, X } from 'lucide-react';
+import { ChangeEvent } from '../utils/changeLog';
+
+interface BlockEditHistoryDialogProps {
+  blockName: string;
+  loadHistory: () => Promise<ChangeEvent[]>;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  startTime: 'start time',
+  endTime: 'end time',
+  notes: 'notes',
+  plannedEndTime: 'planned end',
+  breakReason: 'break reason',
+  locked: 'lock'
+};
+
+const formatDateTime = (value: string) => {
+  return new Date(value).toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false
+  });
+};
+
+// What an event did to the block, given the version before it
+const describeEvent = (event: ChangeEvent, previous: ChangeEvent['record']): string => {
+  if (event.collection === 'trash') {
+    return event.record ? 'Moved to trash' : 'Left the trash';
+  }
+  if (event.type === 'add') return previous ? 'Restored' : 'Created';
+  if (event.type === 'remove') return 'Removed';
+
+  const changed = Object.keys(FIELD_LABELS).filter(field => previous?.[field] !== event.record?.[field]);
+  return changed.length > 0
+    ? `Changed ${changed.map(field => FIELD_LABELS[field]).join(', ')}`
+    : 'Edited';
+};
+
+// Every recorded change to one block, from the change log
+const BlockEditHistoryDialog: React.FC<BlockEditHistoryDialogProps> = ({ blockName, loadHistory, onClose }) => {
+  const [events, setEvents] = useState<ChangeEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory()
+      .then(setEvents)
+      .catch(err => {
+        console.error('Error loading block history:', err);
+        setError('The edit history could not be loaded.');
+      });
+  }, [loadHistory]);
+
+  // Each event's description depends on the block as it was before
+  let previous: ChangeEvent['record'] = null;
+  const entries = (events ?? []).map(event => {
+    const description = describeEvent(event, previous);
+    if (event.record) previous = event.record;
+    return { event, description };
+  });
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[80vh] flex flex-col">
+        <div className="p-6 border-b flex justify-between items-start">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <History className="h-5 w-5 text-blue-500" />
+            Edit History: {blockName}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!error && events === null && <p className="text-sm text-gray-500">Loading...</p>}
+          {events && events.length === 0 && (
+            <p className="text-sm text-gray-500">No changes were recorded for this block.</p>
+          )}
+          <ol className="space-y-3">
+            {entries.slice().reverse().map(({ event, description }) => (
+              <li key={event.seq} className="flex justify-between gap-4 text-sm">
+                <span className="text-gray-800">{description}</span>
+                <span className="text-gray-500 whitespace-nowrap">{formatDateTime(event.at)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlockEditHistoryDialog;
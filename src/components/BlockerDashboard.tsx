@@ -1,16 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useBlocker } from '../context/BlockerContext';
+import { getEffectiveEndTime } from '../utils/adjustments';
+import { NO_TAG_FILTER, TagFilter, getAllCategories, getAllTags, isTagFilterActive, matchesTagFilter } from '../utils/tags';
 import AddBlockForm from './AddBlockForm';
 import ActiveBlocksList from './ActiveBlocksList';
 import UpcomingBlocksList from './UpcomingBlocksList';
 import CompletedBlocksList from './CompletedBlocksList';
+import TagFilterBar from './TagFilterBar';
+import BreakRates from './BreakRates';
 
 const BlockerDashboard: React.FC = () => {
-  const { blocks, currentTime } = useBlocker();
+  const { blocks: allBlocks, currentTime } = useBlocker();
+  const [tagFilter, setTagFilter] = useState<TagFilter>(NO_TAG_FILTER);
+  const blocks = allBlocks.filter(block => matchesTagFilter(block, tagFilter));
   
   // Filter blocks by status
+  // A paused block stays active past its end time until it's resumed
   const activeBlocks = blocks.filter(block => 
-    currentTime >= block.startTime && currentTime < block.endTime
+    currentTime >= block.startTime && currentTime < getEffectiveEndTime(block, currentTime)
   ).sort((a, b) => a.endTime.getTime() - b.endTime.getTime());
   
   const upcomingBlocks = blocks.filter(block => 
@@ -18,7 +25,7 @@ const BlockerDashboard: React.FC = () => {
   ).sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
   
   const completedBlocks = blocks.filter(block => 
-    currentTime >= block.endTime
+    currentTime >= getEffectiveEndTime(block, currentTime)
   ).sort((a, b) => b.endTime.getTime() - a.endTime.getTime());
   
   const todayCompletedBlocks = completedBlocks.filter(block => 
@@ -33,6 +40,12 @@ const BlockerDashboard: React.FC = () => {
         <AddBlockForm />
       </div>
       
+      <TagFilterBar
+        filter={tagFilter}
+        onChange={setTagFilter}
+        categories={getAllCategories(allBlocks)}
+        tags={getAllTags(allBlocks)}
+      />
       
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Active Blocks (Main Focus) */}
@@ -42,8 +55,9 @@ const BlockerDashboard: React.FC = () => {
         
         {/* Sidebar with Upcoming and Completed */}
         <div className="space-y-6">
-          <UpcomingBlocksList blocks={upcomingBlocks} />
+          <UpcomingBlocksList blocks={upcomingBlocks} canClearAll={!isTagFilterActive(tagFilter)} />
           <CompletedBlocksList blocks={todayCompletedBlocks} />
+          <BreakRates blocks={completedBlocks} />
         </div>
       </div>
     </div>
@@ -0,0 +1,21 @@
+import React from 'react';
+import { StopCircle } from 'lucide-react';
+import { Block } from '../types';
+import { isBroken } from '../utils/breaks';
+
+// Planned end and reason of a block that was ended early, or nothing for one that ran its course
+const BreakNote: React.FC<{ block: Block }> = ({ block }) => {
+  if (!isBroken(block) || !block.plannedEndTime) return null;
+
+  return (
+    <div className="mt-1 text-xs text-red-700 flex items-start gap-1.5">
+      <StopCircle size={12} className="mt-0.5 flex-shrink-0" />
+      <span>
+        Ended early, planned until {block.plannedEndTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+        {block.breakReason && <>: <span className="italic">{block.breakReason}</span></>}
+      </span>
+    </div>
+  );
+};
+
+export default BreakNote;
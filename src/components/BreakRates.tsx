@@ -0,0 +1,43 @@
+import React from 'react';
+import { TrendingDown } from 'lucide-react';
+import { Block } from '../types';
+import { getBreakRates } from '../utils/breaks';
+
+interface BreakRatesProps {
+  blocks: Block[];
+  title?: string;
+  className?: string;
+}
+
+// Share of finished blocks per name that were ended early; hidden until a block has been broken
+const BreakRates: React.FC<BreakRatesProps> = ({ blocks, title = 'Break Rates', className = '' }) => {
+  const rates = getBreakRates(blocks);
+  if (!rates.some(rate => rate.broken > 0)) return null;
+
+  return (
+    <div className={`bg-white border rounded-lg p-6 shadow-sm ${className}`}>
+      <h2 className="text-lg font-semibold mb-4 text-gray-600 flex items-center gap-2">
+        <TrendingDown className="h-5 w-5" />
+        {title}
+      </h2>
+      <ul className="space-y-2 text-sm">
+        {rates.map(rate => (
+          <li key={rate.name}>
+            <div className="flex justify-between gap-2">
+              <span className="truncate text-gray-800">{rate.name}</span>
+              <span className={`flex-shrink-0 ${rate.broken > 0 ? 'text-red-700' : 'text-gray-500'}`}>
+                {Math.round(rate.rate * 100)}%
+                <span className="text-xs text-gray-500"> · {rate.broken} of {rate.completed}</span>
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1 overflow-hidden">
+              <div className="h-1.5 bg-red-400 rounded-full" style={{ width: `${rate.rate * 100}%` }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BreakRates;
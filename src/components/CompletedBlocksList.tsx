@@ -3,6 +3,10 @@ import { Block } from '../types';
 import { formatDuration } from '../utils/timeUtils';
 import { CheckCircle2, FileText, History } from 'lucide-react';
 import { BlockActions } from './BlockActions';
+import TagBadges from './TagBadges';
+import TagRollup from './TagRollup';
+import BreakNote from './BreakNote';
+import { isBroken } from '../utils/breaks';
 import { Link } from 'react-router-dom';
 
 interface CompletedBlocksListProps {
@@ -27,7 +31,7 @@ const CompletedBlocksList: React.FC<CompletedBlocksListProps> = ({ blocks }) =>
             return (
               <div 
                 key={block.id} 
-                className="bg-gray-50 p-3 rounded transition-all duration-200 hover:bg-gray-100"
+                className={`p-3 rounded transition-all duration-200 ${isBroken(block) ? 'bg-red-50 hover:bg-red-100' : 'bg-gray-50 hover:bg-gray-100'}`}
               >
                 {editingId === block.id ? (
                   <BlockActions
@@ -41,6 +45,8 @@ const CompletedBlocksList: React.FC<CompletedBlocksListProps> = ({ blocks }) =>
                   <div className="flex justify-between items-start">
                     <div className="flex-grow">
                       <div className="font-medium">{block.name}</div>
+                      <TagBadges block={block} />
+                      <BreakNote block={block} />
                       <div className="text-sm text-gray-600 flex justify-between items-center mt-1">
                         <span>
                           {block.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })} - 
@@ -76,6 +82,8 @@ const CompletedBlocksList: React.FC<CompletedBlocksListProps> = ({ blocks }) =>
         </div>
       )}
       
+      <TagRollup blocks={blocks} className="mt-4 pt-4 border-t" />
+      
       {/* History button */}
       <div className="mt-4 pt-4 border-t">
         <Link 
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { GitMerge, Laptop, FileText } from 'lucide-react';
+import { useDataStore, ConflictChoice } from '../context/DataStore';
+import { DataConflict } from '../utils/merge';
+import { Block, StandardBlock } from '../types';
+
+const formatDateTime = (date: Date) => {
+  return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+const ConflictVersion: React.FC<{
+  conflict: DataConflict;
+  version: Block | StandardBlock | null;
+}> = ({ conflict, version }) => {
+  if (!version) {
+    return <p className="text-sm italic text-red-600">Deleted</p>;
+  }
+
+  if (conflict.collection === 'blocks') {
+    const block = version as Block;
+    return (
+      <div className="text-sm space-y-1">
+        <div className="font-medium text-gray-800">{block.name}</div>
+        <div className="text-gray-600">
+          {formatDateTime(block.startTime)} - {formatDateTime(block.endTime)}
+        </div>
+        {block.notes && <div className="text-gray-500 italic">{block.notes}</div>}
+      </div>
+    );
+  }
+
+  const standardBlock = version as StandardBlock;
+  return (
+    <div className="text-sm space-y-1">
+      <div className="font-medium text-gray-800">{standardBlock.name}</div>
+      <div className="text-gray-600">{standardBlock.required ? 'Required' : 'Not required'}</div>
+    </div>
+  );
+};
+
+const ConflictResolutionDialog: React.FC = () => {
+  const { conflicts, resolveConflicts, backend } = useDataStore();
+  const [choices, setChoices] = useState<ConflictChoice[]>([]);
+
+  useEffect(() => {
+    setChoices(conflicts.map(() => 'local'));
+  }, [conflicts]);
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const setChoice = (index: number, choice: ConflictChoice) => {
+    setChoices(previous => previous.map((current, i) => i === index ? choice : current));
+  };
+
+  const setAll = (choice: ConflictChoice) => {
+    setChoices(conflicts.map(() => choice));
+  };
+
+  const handleApply = () => {
+    const refused = resolveConflicts(choices);
+    if (refused.length > 0) {
+      alert(`Some changes were not taken, so your version was kept:\n${refused.join('\n')}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-amber-500" />
+            Resolve Conflicting Changes
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {backend.capabilities.userVisibleFile
+              ? `${backend.label} was changed elsewhere while you were editing.`
+              : `${backend.label} was changed in another tab or on another device while you were editing.`}
+            Other changes were merged automatically; choose which version to keep for these records.
+          </p>
+        </div>
+
+        <div className="p-6 overflow-auto space-y-4">
+          {conflicts.map((conflict, index) => (
+            <div key={`${conflict.collection}-${conflict.id}-${index}`} className="border rounded-lg p-4">
+              <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-3">
+                {conflict.collection === 'blocks' ? 'Block' : 'Standard block'}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {(['local', 'remote'] as const).map(side => (
+                  <label
+                    key={side}
+                    className={`block border rounded-lg p-3 cursor-pointer transition-colors ${
+                      choices[index] === side ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 mb-2 text-sm font-medium text-gray-700">
+                      <input
+                        type="radio"
+                        name={`conflict-${index}`}
+                        checked={choices[index] === side}
+                        onChange={() => setChoice(index, side)}
+                        className="h-4 w-4 text-blue-600"
+                      />
+                      {side === 'local' ? <Laptop size={14} /> : <FileText size={14} />}
+                      {side === 'local' ? 'Your version' : backend.capabilities.userVisibleFile ? 'Version in file' : 'Other version'}
+                    </div>
+                    <ConflictVersion conflict={conflict} version={conflict[side]} />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t flex justify-between items-center">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setAll('local')}
+              className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Keep all mine
+            </button>
+            <button
+              onClick={() => setAll('remote')}
+              className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              {backend.capabilities.userVisibleFile ? 'Take all from file' : 'Take all others'}
+            </button>
+          </div>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 text-sm text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolutionDialog;
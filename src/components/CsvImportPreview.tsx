@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { useBlocker } from '../context/BlockerContext';
+import {
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvField,
+  detectDateFormats,
+  planCsvImport,
+  suggestColumnMapping
+} from '../utils/csv';
+import { formatDuration } from '../utils/timeUtils';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface CsvImportPreviewProps {
+  fileName: string;
+  rows: string[][];
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  name: 'Name',
+  start: 'Start',
+  end: 'End',
+  duration: 'Duration',
+  notes: 'Notes'
+};
+
+const DATE_FORMAT_LABELS: Record<CsvDateFormat, string> = {
+  iso: 'YYYY-MM-DD',
+  mdy: 'MM/DD/YYYY',
+  dmy: 'DD/MM/YYYY'
+};
+
+const formatDateTime = (date: Date) => {
+  return date.toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+const CsvImportPreview: React.FC<CsvImportPreviewProps> = ({ fileName, rows, onClose }) => {
+  const { blocks, importBlocks } = useBlocker();
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => suggestColumnMapping(rows[0] ?? []));
+
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const columnLabel = (index: number) => (hasHeader && rows[0]?.[index]?.trim()) || `Column ${index + 1}`;
+
+  // Detect the date format from the mapped start and end columns
+  const dateValues = dataRows.flatMap(row => [
+    mapping.start !== undefined ? row[mapping.start] ?? '' : '',
+    mapping.end !== undefined ? row[mapping.end] ?? '' : ''
+  ]);
+  const detectedFormats = detectDateFormats(dateValues);
+  const [chosenFormat, setChosenFormat] = useState<CsvDateFormat | null>(null);
+  const dateFormat = chosenFormat ?? detectedFormats[0] ?? 'iso';
+
+  const report = planCsvImport(dataRows, mapping, dateFormat, blocks, hasHeader ? 2 : 1);
+  const toCreate = report.flatMap(row => (row.block ? [row.block] : []));
+  const skippedCount = report.length - toCreate.length;
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    const updated = { ...mapping };
+    if (value === '') {
+      delete updated[field];
+    } else {
+      updated[field] = Number(value);
+    }
+    setMapping(updated);
+  };
+
+  const handleImport = () => {
+    if (toCreate.length === 0) return;
+
+    importBlocks(toCreate, `Import ${toCreate.length} block${toCreate.length === 1 ? '' : 's'} from ${fileName}`);
+    onClose();
+  };
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <h3 className="font-medium text-gray-800 mb-2">Preview of {fileName}</h3>
+
+      <div className="mb-4 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+          First row is a header
+        </label>
+        {CSV_FIELDS.map(field => (
+          <label key={field} className="flex items-center gap-2">
+            {FIELD_LABELS[field]}
+            <select
+              value={mapping[field] ?? ''}
+              onChange={(e) => handleMappingChange(field, e.target.value)}
+              className="border border-gray-300 rounded-md px-2 py-1"
+            >
+              <option value="">None</option>
+              {Array.from({ length: columnCount }, (_, index) => (
+                <option key={index} value={index}>{columnLabel(index)}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          Dates
+          <select
+            value={dateFormat}
+            onChange={(e) => setChosenFormat(e.target.value as CsvDateFormat)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          >
+            {(Object.keys(DATE_FORMAT_LABELS) as CsvDateFormat[]).map(format => (
+              <option key={format} value={format}>
+                {DATE_FORMAT_LABELS[format]}{detectedFormats.includes(format) ? ' (detected)' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {detectedFormats.length > 1 && !chosenFormat && (
+        <p className="mb-4 text-sm text-amber-700">
+          These dates could be read as more than one format. Check the format above before importing.
+        </p>
+      )}
+
+      <p className="mb-2 text-sm text-gray-600">
+        Dry run: {toCreate.length} block{toCreate.length === 1 ? '' : 's'} would be created, {skippedCount} row{skippedCount === 1 ? '' : 's'} skipped.
+      </p>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {report.map(row => (
+          <div key={row.line} className="bg-gray-50 p-2 rounded text-sm flex items-center gap-3">
+            <span className="text-xs text-gray-400 w-12">Line {row.line}</span>
+            {row.block ? (
+              <>
+                <CheckCircle2 size={14} className="text-green-600 flex-shrink-0" />
+                <span className="font-medium flex-grow">{row.block.name}</span>
+                <span className="text-gray-600">
+                  {formatDateTime(row.block.startTime)} - {formatDateTime(row.block.endTime)}
+                </span>
+                <span className="text-xs bg-gray-200 text-gray-700 rounded-full px-2 py-0.5">
+                  {formatDuration(row.block.startTime, row.block.endTime)}
+                </span>
+              </>
+            ) : (
+              <>
+                <XCircle size={14} className="text-red-500 flex-shrink-0" />
+                <span className="text-red-600">{row.reason}</span>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-2 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={toCreate.length === 0}
+          className="px-3 py-2 rounded-md text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Import {toCreate.length} block{toCreate.length === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportPreview;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, X } from 'lucide-react';
+import { Block } from '../types';
+import { useBlocker } from '../context/BlockerContext';
+import { UNLOCK_COOLDOWN_MINUTES, UNLOCK_PHRASE, getUnlockAvailableAt } from '../utils/locks';
+import { formatSimplifiedRemainingTime } from '../utils/timeUtils';
+
+interface EmergencyUnlockDialogProps {
+  block: Block;
+  onClose: () => void;
+}
+
+const formatDateTime = (value: string) => {
+  return new Date(value).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+// The deliberate way out of a locked block: wait out the cooldown, then type the phrase
+const EmergencyUnlockDialog: React.FC<EmergencyUnlockDialogProps> = ({ block, onClose }) => {
+  const { currentTime, requestUnlock, cancelUnlock, emergencyUnlock } = useBlocker();
+  const [phrase, setPhrase] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const availableAt = getUnlockAvailableAt(block);
+  const isCoolingDown = availableAt !== null && currentTime < availableAt;
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = emergencyUnlock(block.id, phrase, reason);
+    if (problem) {
+      setError(problem);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[80vh] flex flex-col">
+        <div className="p-6 border-b flex justify-between items-start">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <Lock className="h-5 w-5 text-red-500" />
+            Emergency Unlock: {block.name}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto space-y-4 text-sm">
+          {!availableAt && (
+            <>
+              <p className="text-gray-700">
+                This block is locked until {block.endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}.
+                Unlocking starts a {UNLOCK_COOLDOWN_MINUTES}-minute cooldown, after which you can confirm.
+                The unlock is recorded on the block.
+              </p>
+              <button
+                onClick={() => requestUnlock(block.id)}
+                className="px-4 py-2 rounded-lg text-white bg-red-600 hover:bg-red-700"
+              >
+                Start cooldown
+              </button>
+            </>
+          )}
+
+          {availableAt && isCoolingDown && (
+            <>
+              <p className="text-gray-700">
+                You can unlock in <span className="font-semibold">{formatSimplifiedRemainingTime(availableAt, currentTime)}</span>.
+                Keep this open or come back later; the cooldown keeps running.
+              </p>
+              <button
+                onClick={() => cancelUnlock(block.id)}
+                className="px-4 py-2 rounded-lg text-gray-700 border hover:bg-gray-50"
+              >
+                Stay locked
+              </button>
+            </>
+          )}
+
+          {availableAt && !isCoolingDown && (
+            <form onSubmit={handleUnlock} className="space-y-3">
+              {error && <p className="text-red-600">{error}</p>}
+              <div>
+                <label htmlFor="unlockReason" className="block font-medium text-gray-700 mb-1">Why are you unlocking?</label>
+                <textarea
+                  id="unlockReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="unlockPhrase" className="block font-medium text-gray-700 mb-1">
+                  Type <span className="font-mono">{UNLOCK_PHRASE}</span>
+                </label>
+                <input
+                  id="unlockPhrase"
+                  type="text"
+                  value={phrase}
+                  onChange={(e) => setPhrase(e.target.value)}
+                  autoComplete="off"
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => cancelUnlock(block.id)}
+                  className="px-4 py-2 rounded-lg text-gray-700 border hover:bg-gray-50"
+                >
+                  Stay locked
+                </button>
+                <button type="submit" className="px-4 py-2 rounded-lg text-white bg-red-600 hover:bg-red-700 flex items-center gap-1">
+                  <Unlock size={16} /> Unlock
+                </button>
+              </div>
+            </form>
+          )}
+
+          {block.unlocks && block.unlocks.length > 0 && (
+            <div className="pt-4 border-t">
+              <h3 className="font-medium text-gray-600 mb-2">Earlier unlocks</h3>
+              <ol className="space-y-2">
+                {block.unlocks.map(unlock => (
+                  <li key={unlock.unlockedAt} className="flex justify-between gap-4">
+                    <span className="text-gray-800">{unlock.reason || 'No reason given'}</span>
+                    <span className="text-gray-500 whitespace-nowrap">{formatDateTime(unlock.unlockedAt)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyUnlockDialog;
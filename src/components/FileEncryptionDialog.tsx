@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, X, AlertTriangle } from 'lucide-react';
+import { BackendEncryption } from '../storage/storageBackend';
+import { WrongPassphraseError } from '../utils/encryption';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type Action = 'encrypt' | 'change' | 'decrypt';
+
+interface FileEncryptionDialogProps {
+  encryption: BackendEncryption;
+  fileName: string;
+  onClose: () => void;
+}
+
+const PasswordField: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  autoComplete: 'current-password' | 'new-password';
+}> = ({ label, value, onChange, autoComplete }) => (
+  <label className="block">
+    <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+    <input
+      type="password"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      autoComplete={autoComplete}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  </label>
+);
+
+// Encrypt the data file with a passphrase, change that passphrase, or store the file as plain JSON again
+const FileEncryptionDialog: React.FC<FileEncryptionDialogProps> = ({ encryption, fileName, onClose }) => {
+  const isEncrypted = encryption.isEncrypted();
+  const [action, setAction] = useState<Action>(isEncrypted ? 'change' : 'encrypt');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const needsNewPassphrase = action !== 'decrypt';
+
+  const validate = (): string | null => {
+    if (action !== 'encrypt' && !currentPassphrase) return 'Enter the current passphrase.';
+    if (!needsNewPassphrase) return null;
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) return `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    if (newPassphrase !== confirmation) return 'The new passphrases don\'t match.';
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validate();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (action === 'encrypt') {
+        await encryption.encrypt(newPassphrase);
+      } else if (action === 'change') {
+        await encryption.changePassphrase(currentPassphrase, newPassphrase);
+      } else {
+        await encryption.decrypt(currentPassphrase);
+      }
+      onClose();
+    } catch (err) {
+      console.error('Error changing file encryption:', err);
+      setError(err instanceof WrongPassphraseError
+        ? 'The current passphrase is wrong.'
+        : `Could not rewrite ${fileName}. Please check file permissions.`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const actionTab = (tab: Action, label: string) => (
+    <button
+      type="button"
+      onClick={() => {
+        setAction(tab);
+        setError(null);
+      }}
+      className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+        action === tab ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-md w-full">
+        <div className="p-6 border-b flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              {isEncrypted ? <Lock className="h-5 w-5 text-blue-500" /> : <Unlock className="h-5 w-5 text-gray-500" />}
+              File Encryption
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {isEncrypted
+                ? `${fileName} is encrypted with a passphrase.`
+                : `${fileName} is stored as plain JSON that anyone with the file can read.`}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {isEncrypted && (
+            <div className="flex gap-1">
+              {actionTab('change', 'Change passphrase')}
+              {actionTab('decrypt', 'Remove encryption')}
+            </div>
+          )}
+
+          {action !== 'encrypt' && (
+            <PasswordField
+              label="Current passphrase"
+              value={currentPassphrase}
+              onChange={setCurrentPassphrase}
+              autoComplete="current-password"
+            />
+          )}
+          {needsNewPassphrase && (
+            <>
+              <PasswordField
+                label="New passphrase"
+                value={newPassphrase}
+                onChange={setNewPassphrase}
+                autoComplete="new-password"
+              />
+              <PasswordField
+                label="Repeat new passphrase"
+                value={confirmation}
+                onChange={setConfirmation}
+                autoComplete="new-password"
+              />
+              <p className="flex items-start gap-2 text-sm text-amber-700">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                There is no way to recover the data without the passphrase. Backups are encrypted with it too.
+              </p>
+            </>
+          )}
+          {action === 'decrypt' && (
+            <p className="text-sm text-gray-600">
+              The file and new backups will be readable by anyone who can open them.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-6 border-t flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isWorking}
+            className={`px-4 py-2 text-sm text-white rounded-lg transition-colors disabled:opacity-50 ${
+              action === 'decrypt' ? 'bg-red-500 hover:bg-red-600' : 'bg-blue-500 hover:bg-blue-600'
+            }`}
+          >
+            {isWorking
+              ? 'Working...'
+              : action === 'encrypt' ? 'Encrypt file' : action === 'change' ? 'Change passphrase' : 'Remove encryption'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default FileEncryptionDialog;
@@ -1,52 +1,129 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useBlocker } from '../context/BlockerContext';
+import { useArchives } from '../context/ArchiveContext';
 import { Block } from '../types';
 import { formatDuration } from '../utils/timeUtils';
-import { CheckCircle2, FileText, ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import { getArchiveMonth } from '../utils/archives';
+import { NO_TAG_FILTER, TagFilter, getAllCategories, getAllTags, matchesTagFilter } from '../utils/tags';
+import { CheckCircle2, FileText, ChevronLeft, ChevronRight, Calendar, Download, Archive } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { BlockActions } from './BlockActions';
+import ArchiveSettings from './ArchiveSettings';
+import TagBadges from './TagBadges';
+import TagFilterBar from './TagFilterBar';
+import TagRollup from './TagRollup';
+import BreakNote from './BreakNote';
+import BreakRates from './BreakRates';
+import OverlapCleanup from './OverlapCleanup';
+import { isBroken } from '../utils/breaks';
+import { describeActivity } from '../utils/adjustments';
+
+// Days with completed blocks, most recent first
+const getCompletedDates = (blocks: Block[], now: Date): Date[] => {
+  const dates = new Set<string>();
+  blocks.forEach(block => {
+    if (block.endTime <= now) {
+      dates.add(block.endTime.toDateString());
+    }
+  });
+  return Array.from(dates)
+    .map(dateStr => new Date(dateStr))
+    .sort((a, b) => b.getTime() - a.getTime());
+};
+
+// Name, times, duration and notes of a completed block
+const CompletedBlockSummary: React.FC<{ block: Block }> = ({ block }) => {
+  const activity = describeActivity(block);
+
+  return (
+    <div className="flex-grow">
+      <div className="font-medium">{block.name}</div>
+      <TagBadges block={block} />
+      <BreakNote block={block} />
+      {activity && <div className="mt-1 text-xs text-gray-500">{activity}</div>}
+      <div className="text-sm text-gray-600 flex justify-between items-center mt-1">
+        <span>
+          {block.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })} - 
+          {block.endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+        </span>
+        <span className="text-xs bg-green-100 text-green-800 rounded-full px-2 py-0.5">
+          {formatDuration(block.startTime, block.endTime)}
+        </span>
+      </div>
+      {block.notes && (
+        <div className="mt-2 flex items-start gap-1.5">
+          <FileText size={14} className="text-gray-500 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-gray-600 italic">{block.notes}</p>
+        </div>
+      )}
+    </div>
+  );
+};
 
 const HistoryPage: React.FC = () => {
   const { blocks } = useBlocker();
+  const { archivedMonths, loadedArchives, loadArchive } = useArchives();
   const [selectedDate, setSelectedDate] = useState<Date>(() => new Date());
   const [editingId, setEditingId] = useState<number | null>(null);
   const [availableDates, setAvailableDates] = useState<Date[]>([]);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<TagFilter>(NO_TAG_FILTER);
+
+  // Archived blocks are only known once their month has been loaded
+  const archivedBlocks = useMemo(() => {
+    const liveIds = new Set(blocks.map(block => block.id));
+    return Object.values(loadedArchives).flat().filter(block => !liveIds.has(block.id));
+  }, [blocks, loadedArchives]);
 
   // Find all dates that have completed blocks
   useEffect(() => {
-    const dates = new Set<string>();
-    
-    blocks.forEach(block => {
-      if (block.endTime <= new Date()) {
-        dates.add(block.endTime.toDateString());
-      }
+    setAvailableDates(getCompletedDates([...blocks, ...archivedBlocks], new Date()));
+  }, [blocks, archivedBlocks]);
+
+  const selectedMonth = getArchiveMonth(selectedDate);
+
+  // Load the archive of the month being browsed
+  useEffect(() => {
+    if (!archivedMonths.includes(selectedMonth) || loadedArchives[selectedMonth]) return;
+
+    setArchiveError(null);
+    loadArchive(selectedMonth).catch(err => {
+      console.error('Error loading archive:', err);
+      setArchiveError(`The archive for ${selectedMonth} could not be read.`);
     });
-    
-    const sortedDates = Array.from(dates).map(dateStr => new Date(dateStr));
-    sortedDates.sort((a, b) => b.getTime() - a.getTime()); // Sort descending
-    
-    setAvailableDates(sortedDates);
-  }, [blocks]);
-
-  // Navigate to previous date with blocks
-  const goToPreviousDate = () => {
-    const currentIndex = availableDates.findIndex(
-      date => date.toDateString() === selectedDate.toDateString()
-    );
-    
-    if (currentIndex < availableDates.length - 1) {
-      setSelectedDate(availableDates[currentIndex + 1]);
+  }, [selectedMonth, archivedMonths, loadedArchives, loadArchive]);
+
+  const selectedDay = new Date(selectedDate.toDateString());
+
+  // The newest archive that may hold days before the selected one and hasn't been read yet
+  const olderArchive = archivedMonths.find(month => month <= selectedMonth && !loadedArchives[month]);
+  const previousDate = availableDates.find(date => date < selectedDay);
+  const nextDate = [...availableDates].reverse().find(date => date > selectedDay);
+
+  // Navigate to previous date with blocks, reading older archives on the way
+  const goToPreviousDate = async () => {
+    if (olderArchive && (!previousDate || getArchiveMonth(previousDate) <= olderArchive)) {
+      try {
+        const archived = await loadArchive(olderArchive);
+        const earlier = getCompletedDates([...blocks, ...archivedBlocks, ...archived], new Date())
+          .find(date => date < selectedDay);
+        if (earlier) setSelectedDate(earlier);
+      } catch (err) {
+        console.error('Error loading archive:', err);
+        setArchiveError(`The archive for ${olderArchive} could not be read.`);
+      }
+      return;
+    }
+
+    if (previousDate) {
+      setSelectedDate(previousDate);
     }
   };
 
   // Navigate to next date with blocks
   const goToNextDate = () => {
-    const currentIndex = availableDates.findIndex(
-      date => date.toDateString() === selectedDate.toDateString()
-    );
-    
-    if (currentIndex > 0) {
-      setSelectedDate(availableDates[currentIndex - 1]);
+    if (nextDate) {
+      setSelectedDate(nextDate);
     }
   };
 
@@ -59,28 +136,42 @@ const HistoryPage: React.FC = () => {
   // Filter blocks for the selected date
   const filteredBlocks = blocks.filter(block => 
     block.endTime.toDateString() === selectedDate.toDateString() && 
-    block.endTime <= new Date()
+    block.endTime <= new Date() &&
+    matchesTagFilter(block, tagFilter)
   ).sort((a, b) => b.endTime.getTime() - a.endTime.getTime());
 
+  const filteredArchivedBlocks = archivedBlocks
+    .filter(block => block.endTime.toDateString() === selectedDate.toDateString() && matchesTagFilter(block, tagFilter))
+    .sort((a, b) => b.endTime.getTime() - a.endTime.getTime());
+
   return (
     <div>
       <div className="mb-8">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-3xl font-bold text-gray-900">Block History</h2>
-          <Link 
-            to="/" 
-            className="bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium py-2 px-4 rounded-lg flex items-center"
-          >
-            <ChevronLeft className="h-4 w-4 mr-1" />
-            Back to Dashboard
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link 
+              to="/transfer" 
+              className="text-gray-600 hover:bg-gray-100 hover:text-gray-900 font-medium py-2 px-4 rounded-lg flex items-center"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </Link>
+            <Link 
+              to="/" 
+              className="bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium py-2 px-4 rounded-lg flex items-center"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Back to Dashboard
+            </Link>
+          </div>
         </div>
         
         {/* Date Navigation */}
         <div className="flex justify-between items-center mb-6 p-4 bg-white rounded-lg shadow-sm">
           <button 
             onClick={goToPreviousDate}
-            disabled={availableDates.findIndex(date => date.toDateString() === selectedDate.toDateString()) === availableDates.length - 1}
+            disabled={!previousDate && !olderArchive}
             className="p-2 rounded-full hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <ChevronLeft className="h-5 w-5" />
@@ -110,29 +201,40 @@ const HistoryPage: React.FC = () => {
           
           <button 
             onClick={goToNextDate}
-            disabled={availableDates.findIndex(date => date.toDateString() === selectedDate.toDateString()) === 0}
+            disabled={!nextDate}
             className="p-2 rounded-full hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <ChevronRight className="h-5 w-5" />
           </button>
         </div>
+        
+        <TagFilterBar
+          filter={tagFilter}
+          onChange={setTagFilter}
+          categories={getAllCategories([...blocks, ...archivedBlocks])}
+          tags={getAllTags([...blocks, ...archivedBlocks])}
+        />
       </div>
       
       {/* Blocks for Selected Date */}
       <div className="bg-white border rounded-lg p-6 shadow-sm">
         <h2 className="text-lg font-semibold mb-4 text-gray-600 flex items-center gap-2">
           <CheckCircle2 className="h-5 w-5" />
-          Completed Blocks <span className="ml-2 bg-gray-100 text-gray-800 text-sm rounded-full px-2 py-0.5">{filteredBlocks.length}</span>
+          Completed Blocks <span className="ml-2 bg-gray-100 text-gray-800 text-sm rounded-full px-2 py-0.5">{filteredBlocks.length + filteredArchivedBlocks.length}</span>
         </h2>
         
-        {filteredBlocks.length === 0 ? (
+        {archiveError && <p className="text-sm text-red-600 mb-3">{archiveError}</p>}
+        
+        <TagRollup blocks={[...filteredBlocks, ...filteredArchivedBlocks]} className="mb-4 pb-4 border-b" />
+        
+        {filteredBlocks.length === 0 && filteredArchivedBlocks.length === 0 ? (
           <p className="text-gray-500 text-sm py-4">No completed blocks on this date</p>
         ) : (
           <div className="space-y-3">
             {filteredBlocks.map(block => (
               <div 
                 key={block.id} 
-                className="bg-gray-50 p-3 rounded transition-all duration-200 hover:bg-gray-100"
+                className={`p-3 rounded transition-all duration-200 ${isBroken(block) ? 'bg-red-50 hover:bg-red-100' : 'bg-gray-50 hover:bg-gray-100'}`}
               >
                 {editingId === block.id ? (
                   <BlockActions
@@ -144,24 +246,7 @@ const HistoryPage: React.FC = () => {
                   />
                 ) : (
                   <div className="flex justify-between items-start">
-                    <div className="flex-grow">
-                      <div className="font-medium">{block.name}</div>
-                      <div className="text-sm text-gray-600 flex justify-between items-center mt-1">
-                        <span>
-                          {block.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })} - 
-                          {block.endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
-                        </span>
-                        <span className="text-xs bg-green-100 text-green-800 rounded-full px-2 py-0.5">
-                          {formatDuration(block.startTime, block.endTime)}
-                        </span>
-                      </div>
-                      {block.notes && (
-                        <div className="mt-2 flex items-start gap-1.5">
-                          <FileText size={14} className="text-gray-500 mt-0.5 flex-shrink-0" />
-                          <p className="text-sm text-gray-600 italic">{block.notes}</p>
-                        </div>
-                      )}
-                    </div>
+                    <CompletedBlockSummary block={block} />
                     <BlockActions
                       block={block}
                       onEditStart={() => setEditingId(block.id)}
@@ -171,9 +256,29 @@ const HistoryPage: React.FC = () => {
                 )}
               </div>
             ))}
+            {/* Archived blocks are read-only; they live outside the data */}
+            {filteredArchivedBlocks.map(block => (
+              <div key={block.id} className={`${isBroken(block) ? 'bg-red-50' : 'bg-gray-50'} p-3 rounded flex justify-between items-start gap-4`}>
+                <CompletedBlockSummary block={block} />
+                <span className="text-xs text-gray-500 flex items-center gap-1 flex-shrink-0" title="Stored in a monthly archive">
+                  <Archive size={12} />
+                  Archived
+                </span>
+              </div>
+            ))}
           </div>
         )}
       </div>
+      
+      <BreakRates
+        blocks={[...blocks, ...archivedBlocks].filter(block => matchesTagFilter(block, tagFilter))}
+        title="Break Rates by Block"
+        className="mt-6"
+      />
+      
+      <OverlapCleanup className="mt-6" />
+      
+      <ArchiveSettings />
     </div>
   );
 };
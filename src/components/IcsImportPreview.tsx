@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { useBlocker } from '../context/BlockerContext';
+import { useStandardBlocks } from '../context/StandardBlocksContext';
+import { IcsParseResult, planIcsImport, suggestNameMapping, toImportedBlock } from '../utils/ics';
+import { formatDuration } from '../utils/timeUtils';
+import { AlertTriangle } from 'lucide-react';
+
+interface IcsImportPreviewProps {
+  fileName: string;
+  result: IcsParseResult;
+  onClose: () => void;
+}
+
+const formatDateTime = (date: Date) => {
+  return date.toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+};
+
+const IcsImportPreview: React.FC<IcsImportPreviewProps> = ({ fileName, result, onClose }) => {
+  const { blocks, importBlocks } = useBlocker();
+  const { standardBlocks } = useStandardBlocks();
+  const [mapping, setMapping] = useState(() => suggestNameMapping(result.events, standardBlocks));
+  const rows = planIcsImport(result.events, blocks, mapping);
+  // Duplicates start out unselected
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(rows.flatMap((row, index) => (row.duplicate ? [] : [index])))
+  );
+
+  const summaries = Array.from(new Set(result.events.map(event => event.summary)));
+
+  const toggleRow = (index: number) => {
+    const updated = new Set(selected);
+    if (updated.has(index)) {
+      updated.delete(index);
+    } else {
+      updated.add(index);
+    }
+    setSelected(updated);
+  };
+
+  const handleImport = () => {
+    const toImport = rows.filter((_, index) => selected.has(index)).map(toImportedBlock);
+    if (toImport.length === 0) return;
+
+    importBlocks(toImport, `Import ${toImport.length} block${toImport.length === 1 ? '' : 's'} from ${fileName}`);
+    onClose();
+  };
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <h3 className="font-medium text-gray-800 mb-2">Preview of {fileName}</h3>
+
+      {result.skipped.length > 0 && (
+        <div className="mb-4 flex items-start gap-2 p-3 bg-amber-50 text-amber-800 border border-amber-200 rounded-lg text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <div>
+            {result.skipped.length} event{result.skipped.length === 1 ? '' : 's'} will be skipped:
+            <ul className="list-disc list-inside">
+              {result.skipped.map((event, index) => (
+                <li key={index}>{event.summary || 'Untitled event'}: {event.reason}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {summaries.length > 0 && (
+        <div className="mb-4 space-y-2">
+          <p className="text-sm text-gray-600">Block names for each event title:</p>
+          {summaries.map(summary => (
+            <label key={summary} className="flex items-center gap-2 text-sm">
+              <span className="w-48 truncate text-gray-700" title={summary}>{summary}</span>
+              <span className="text-gray-400">→</span>
+              <select
+                value={mapping[summary]}
+                onChange={(e) => setMapping({ ...mapping, [summary]: e.target.value })}
+                className="border border-gray-300 rounded-md px-2 py-1"
+              >
+                <option value={summary}>Keep "{summary}"</option>
+                {standardBlocks
+                  .filter(block => block.name !== summary)
+                  .map(block => (
+                    <option key={block.id} value={block.name}>{block.name}</option>
+                  ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-gray-500 text-sm py-4">No events found in this file</p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {rows.map((row, index) => (
+            <label
+              key={index}
+              className={`p-2 rounded text-sm flex items-center gap-3 ${row.duplicate ? 'bg-gray-50 text-gray-400' : 'bg-gray-50'}`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(index)}
+                onChange={() => toggleRow(index)}
+              />
+              <span className="font-medium flex-grow">{row.name}</span>
+              {row.duplicate && (
+                <span className="text-xs bg-gray-200 text-gray-600 rounded-full px-2 py-0.5">Already imported</span>
+              )}
+              <span>
+                {formatDateTime(row.event.start)} - {formatDateTime(row.event.end)}
+              </span>
+              <span className="text-xs bg-gray-200 text-gray-700 rounded-full px-2 py-0.5">
+                {formatDuration(row.event.start, row.event.end)}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-2 rounded-md text-sm font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={selected.size === 0}
+          className="px-3 py-2 rounded-md text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Import {selected.size} block{selected.size === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IcsImportPreview;
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { useBlocker } from '../context/BlockerContext';
+import { useArchives } from '../context/ArchiveContext';
+import { exportBlocksToIcs, parseIcs, IcsParseResult } from '../utils/ics';
+import { exportBlocksToCsv, getBlocksInDateRange, parseCsv } from '../utils/csv';
+import { downloadTextFile } from '../utils/download';
+import { createTargetManifest, exportHostsFragment, exportUBlockFilters, getEnforcedBlocks, mergeTargets } from '../utils/blocklist';
+import { formatDateOnly } from '../utils/timeUtils';
+import { getArchiveMonth } from '../utils/archives';
+import IcsImportPreview from './IcsImportPreview';
+import CsvImportPreview from './CsvImportPreview';
+import { CalendarDays, Download, Upload, ChevronLeft, Sheet, Target } from 'lucide-react';
+import { Link } from 'react-router-dom';
+
+type ExportScope = 'all' | 'current' | 'completed';
+
+// Date inputs give "YYYY-MM-DD", which should be read as a local day
+const parseDateInput = (value: string): Date | null => {
+  const [year, month, day] = value.split('-').map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : null;
+};
+
+const ImportExportPage: React.FC = () => {
+  const { blocks, currentTime } = useBlocker();
+  const { archivedMonths } = useArchives();
+  const [icsScope, setIcsScope] = useState<ExportScope>('current');
+  const [icsImport, setIcsImport] = useState<{ fileName: string; result: IcsParseResult } | null>(null);
+  const [icsError, setIcsError] = useState<string | null>(null);
+  const [csvFrom, setCsvFrom] = useState(() => {
+    const monthAgo = new Date();
+    monthAgo.setDate(monthAgo.getDate() - 30);
+    return formatDateOnly(monthAgo);
+  });
+  const [csvTo, setCsvTo] = useState(() => formatDateOnly(new Date()));
+  const [csvImport, setCsvImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+
+  const blocksInScope = (scope: ExportScope) => {
+    if (scope === 'current') return blocks.filter(block => block.endTime > currentTime);
+    if (scope === 'completed') return blocks.filter(block => block.endTime <= currentTime);
+    return blocks;
+  };
+
+  const handleIcsExport = () => {
+    const sorted = [...blocksInScope(icsScope)].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    downloadTextFile(`tech-blocker-${formatDateOnly(new Date())}.ics`, exportBlocksToIcs(sorted), 'text/calendar');
+  };
+
+  const handleIcsFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setIcsError(null);
+      setIcsImport({ fileName: file.name, result: parseIcs(await file.text()) });
+    } catch (err) {
+      console.error('Error reading calendar file:', err);
+      setIcsError(`Could not read ${file.name}.`);
+    }
+  };
+
+  const csvFromDate = parseDateInput(csvFrom);
+  const csvToDate = parseDateInput(csvTo);
+  const csvBlocks = csvFromDate && csvToDate ? getBlocksInDateRange(blocks, csvFromDate, csvToDate) : [];
+  // Archived blocks are left out of the export
+  const csvSkipsArchives = csvFromDate !== null && csvToDate !== null && archivedMonths.some(month =>
+    month >= getArchiveMonth(csvFromDate) && month <= getArchiveMonth(csvToDate)
+  );
+
+  const handleCsvExport = () => {
+    downloadTextFile(`tech-blocker-${csvFrom}-to-${csvTo}.csv`, exportBlocksToCsv(csvBlocks), 'text/csv');
+  };
+
+  // Blocklists cover the targets of blocks enforcing right now
+  const enforcedBlocks = getEnforcedBlocks(blocks, currentTime);
+  const activeTargets = mergeTargets(enforcedBlocks);
+  const hasActiveTargets = Object.values(activeTargets).some(list => list.length > 0);
+
+  const handleBlocklistExport = (format: 'hosts' | 'ublock' | 'json') => {
+    const now = new Date();
+    const stamp = formatDateOnly(now);
+    if (format === 'hosts') {
+      downloadTextFile(`tech-blocker-hosts-${stamp}.txt`, exportHostsFragment(enforcedBlocks, now), 'text/plain');
+    } else if (format === 'ublock') {
+      downloadTextFile(`tech-blocker-ublock-${stamp}.txt`, exportUBlockFilters(enforcedBlocks, now), 'text/plain');
+    } else {
+      downloadTextFile(
+        `tech-blocker-targets-${stamp}.json`,
+        JSON.stringify(createTargetManifest(enforcedBlocks, now), null, 2),
+        'application/json'
+      );
+    }
+  };
+
+  const handleCsvFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setCsvError(null);
+      const rows = parseCsv(await file.text());
+      if (rows.length === 0) {
+        setCsvError(`${file.name} has no rows.`);
+        return;
+      }
+      setCsvImport({ fileName: file.name, rows });
+    } catch (err) {
+      console.error('Error reading CSV file:', err);
+      setCsvError(`Could not read ${file.name}.`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-3xl font-bold text-gray-900">Import & Export</h2>
+        <Link 
+          to="/" 
+          className="bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium py-2 px-4 rounded-lg flex items-center"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to Dashboard
+        </Link>
+      </div>
+
+      {/* iCalendar */}
+      <div className="bg-white border rounded-lg p-6 shadow-sm">
+        <h2 className="text-lg font-semibold mb-4 text-gray-600 flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar (.ics)
+        </h2>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Export
+            <select
+              value={icsScope}
+              onChange={(e) => setIcsScope(e.target.value as ExportScope)}
+              className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              <option value="current">Active and upcoming blocks</option>
+              <option value="completed">Completed blocks</option>
+              <option value="all">All blocks</option>
+            </select>
+          </label>
+          <button
+            onClick={handleIcsExport}
+            disabled={blocksInScope(icsScope).length === 0}
+            className="px-3 py-2 rounded-md text-sm font-medium flex items-center bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="h-4 w-4 mr-1.5" />
+            Download .ics
+          </button>
+          <label className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 cursor-pointer transition-colors">
+            <Upload className="h-4 w-4 mr-1.5 text-gray-500" />
+            Import .ics
+            <input type="file" accept=".ics,text/calendar" onChange={handleIcsFile} className="sr-only" />
+          </label>
+        </div>
+
+        {icsError && <p className="mt-3 text-sm text-red-600">{icsError}</p>}
+
+        {icsImport && (
+          <IcsImportPreview
+            key={icsImport.fileName}
+            fileName={icsImport.fileName}
+            result={icsImport.result}
+            onClose={() => setIcsImport(null)}
+          />
+        )}
+      </div>
+
+      {/* CSV */}
+      <div className="mt-6 bg-white border rounded-lg p-6 shadow-sm">
+        <h2 className="text-lg font-semibold mb-4 text-gray-600 flex items-center gap-2">
+          <Sheet className="h-5 w-5" />
+          Spreadsheet (.csv)
+        </h2>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Export blocks starting from
+            <input
+              type="date"
+              value={csvFrom}
+              onChange={(e) => setCsvFrom(e.target.value)}
+              className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            to
+            <input
+              type="date"
+              value={csvTo}
+              onChange={(e) => setCsvTo(e.target.value)}
+              className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+            />
+          </label>
+          <button
+            onClick={handleCsvExport}
+            disabled={csvBlocks.length === 0}
+            className="px-3 py-2 rounded-md text-sm font-medium flex items-center bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="h-4 w-4 mr-1.5" />
+            Download .csv ({csvBlocks.length})
+          </button>
+          <label className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 cursor-pointer transition-colors">
+            <Upload className="h-4 w-4 mr-1.5 text-gray-500" />
+            Import .csv
+            <input type="file" accept=".csv,text/csv" onChange={handleCsvFile} className="sr-only" />
+          </label>
+        </div>
+
+        {csvSkipsArchives && (
+          <p className="mt-3 text-sm text-gray-500">
+            Archived blocks in this range are not exported. They can still be viewed on the History page.
+          </p>
+        )}
+        {csvError && <p className="mt-3 text-sm text-red-600">{csvError}</p>}
+
+        {csvImport && (
+          <CsvImportPreview
+            key={csvImport.fileName}
+            fileName={csvImport.fileName}
+            rows={csvImport.rows}
+            onClose={() => setCsvImport(null)}
+          />
+        )}
+      </div>
+
+      {/* Blocklists */}
+      <div className="mt-6 bg-white border rounded-lg p-6 shadow-sm">
+        <h2 className="text-lg font-semibold mb-4 text-gray-600 flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Blocklists
+        </h2>
+
+        <p className="text-sm text-gray-700 mb-4">
+          {hasActiveTargets
+            ? `Sites and apps of the ${enforcedBlocks.length} block${enforcedBlocks.length === 1 ? '' : 's'} running now: ` +
+              `${activeTargets.domains.length} domains, ${activeTargets.urlPatterns.length} URL patterns and ${activeTargets.apps.length} applications.`
+            : 'No running block lists any sites or apps. Add them under "Blocked sites and apps" when creating or editing a block.'}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4">
+          {([
+            ['hosts', 'Hosts file fragment'],
+            ['ublock', 'uBlock Origin filters'],
+            ['json', 'JSON manifest']
+          ] as const).map(([format, label]) => (
+            <button
+              key={format}
+              onClick={() => handleBlocklistExport(format)}
+              disabled={!hasActiveTargets}
+              className="px-3 py-2 rounded-md text-sm font-medium flex items-center bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Download className="h-4 w-4 mr-1.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportExportPage;
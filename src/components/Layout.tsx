@@ -1,8 +1,18 @@
-import React from 'react';
-import { Clock, History, Star, File, FileText } from 'lucide-react';
+import React, { useState } from 'react';
+import { Clock, History, Star, FileText, AlertTriangle, Trash2, DatabaseBackup, ArrowLeftRight, Cloud, Lock, Unlock, FolderOpen, FilePlus, Download } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { useStandardBlocks } from '../context/StandardBlocksContext';
 import { useBlocker } from '../context/BlockerContext';
+import { useDataStore } from '../context/DataStore';
+import { getEnforcedBlocks } from '../utils/blocklist';
+import QuarantineNotice from './QuarantineNotice';
+import UnsavedChangesNotice from './UnsavedChangesNotice';
+import ConflictResolutionDialog from './ConflictResolutionDialog';
+import UndoToast from './UndoToast';
+import FileEncryptionDialog from './FileEncryptionDialog';
+import RecentFilesMenu from './RecentFilesMenu';
+import { BrowserStorageMode } from '../utils/browserStorageMode';
+import { RecentFile } from '../utils/fileHandleStorage';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -10,6 +20,17 @@ interface LayoutProps {
   onDisconnect?: () => Promise<void>;
   currentFileName?: string | null;
   isFileSystemSupported?: boolean;
+  recentFiles?: RecentFile[];
+  onSwitchFile?: (recent: RecentFile) => Promise<void>;
+  onRemoveRecentFile?: (id: string) => Promise<void>;
+  syncServerLabel?: string | null;
+  onConnectSyncServer?: () => Promise<void>;
+  onDisconnectSyncServer?: () => Promise<void>;
+  browserStorageMode?: BrowserStorageMode;
+  onBrowserStorageModeChange?: (mode: BrowserStorageMode) => Promise<void>;
+  // Fallbacks for browsers without the File System Access API
+  onManualFileOpen?: (file: File) => Promise<void>;
+  onManualFileCreate?: () => Promise<void>;
 }
 
 const Layout: React.FC<LayoutProps> = ({ 
@@ -17,20 +38,33 @@ const Layout: React.FC<LayoutProps> = ({
   onFileSelect,
   onDisconnect,
   currentFileName,
-  isFileSystemSupported = false
+  isFileSystemSupported = false,
+  recentFiles = [],
+  onSwitchFile,
+  onRemoveRecentFile,
+  syncServerLabel,
+  onConnectSyncServer,
+  onDisconnectSyncServer,
+  browserStorageMode = 'snapshot',
+  onBrowserStorageModeChange,
+  onManualFileOpen,
+  onManualFileCreate
 }) => {
   const location = useLocation();
   const isHistoryActive = location.pathname === '/history';
   const isDashboardActive = location.pathname === '/';
   const isRequiredActive = location.pathname === '/required';
+  const isTrashActive = location.pathname === '/trash';
+  const isBackupsActive = location.pathname === '/backups';
+  const isTransferActive = location.pathname === '/transfer';
   
   const { getRequiredBlocks } = useStandardBlocks();
-  const { blocks, currentTime } = useBlocker();
+  const { blocks, trash, currentTime } = useBlocker();
+  const { error: fileError, backend } = useDataStore();
+  const [isEncryptionOpen, setIsEncryptionOpen] = useState(false);
   
-  // Get active block names for required blocks check
-  const activeBlockNames = blocks
-    .filter(block => currentTime >= block.startTime && currentTime < block.endTime)
-    .map(block => block.name);
+  // Get active block names for required blocks check; a paused block isn't blocking anything
+  const activeBlockNames = getEnforcedBlocks(blocks, currentTime).map(block => block.name);
   
   // Check if all required blocks are active
   const requiredBlocks = getRequiredBlocks();
@@ -43,6 +77,18 @@ const Layout: React.FC<LayoutProps> = ({
     }
   };
 
+  const handleSwitchFile = async (recent: RecentFile) => {
+    if (onSwitchFile) {
+      await onSwitchFile(recent);
+    }
+  };
+
+  const handleRemoveRecentFile = async (id: string) => {
+    if (onRemoveRecentFile) {
+      await onRemoveRecentFile(id);
+    }
+  };
+
   const handleDisconnect = async () => {
     if (onDisconnect) {
       if (window.confirm('Are you sure you want to disconnect from the file? The app will revert to using local browser storage.')) {
@@ -51,6 +97,32 @@ const Layout: React.FC<LayoutProps> = ({
     }
   };
 
+  const handleManualFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again later
+    e.target.value = '';
+    if (file && onManualFileOpen) {
+      await onManualFileOpen(file);
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      await backend.manualFile?.download();
+    } catch (err) {
+      console.error('Error downloading data file:', err);
+      alert(`Could not download ${backend.label}.`);
+    }
+  };
+
+  const handleDisconnectSyncServer = async () => {
+    if (onDisconnectSyncServer) {
+      if (window.confirm(`Are you sure you want to disconnect from ${syncServerLabel}? Changes will no longer sync with your other devices.`)) {
+        await onDisconnectSyncServer();
+      }
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow-sm">
@@ -107,28 +179,110 @@ const Layout: React.FC<LayoutProps> = ({
                   <History className={`h-4 w-4 mr-1.5 ${isHistoryActive ? 'text-blue-500' : 'text-gray-500'}`} />
                   History
                 </Link>
+                <Link 
+                  to="/trash" 
+                  className={`px-3 py-2 rounded-md text-sm font-medium flex items-center ${
+                    isTrashActive 
+                      ? 'bg-blue-50 text-blue-700' 
+                      : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                  }`}
+                >
+                  <Trash2 className={`h-4 w-4 mr-1.5 ${isTrashActive ? 'text-blue-500' : 'text-gray-500'}`} />
+                  Trash
+                  {trash.length > 0 && (
+                    <span className="ml-1.5 bg-gray-100 text-gray-700 text-xs rounded-full px-1.5 py-0.5">{trash.length}</span>
+                  )}
+                </Link>
+                <Link 
+                  to="/backups" 
+                  className={`px-3 py-2 rounded-md text-sm font-medium flex items-center ${
+                    isBackupsActive 
+                      ? 'bg-blue-50 text-blue-700' 
+                      : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                  }`}
+                >
+                  <DatabaseBackup className={`h-4 w-4 mr-1.5 ${isBackupsActive ? 'text-blue-500' : 'text-gray-500'}`} />
+                  Backups
+                </Link>
+                <Link 
+                  to="/transfer" 
+                  className={`px-3 py-2 rounded-md text-sm font-medium flex items-center ${
+                    isTransferActive 
+                      ? 'bg-blue-50 text-blue-700' 
+                      : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                  }`}
+                >
+                  <ArrowLeftRight className={`h-4 w-4 mr-1.5 ${isTransferActive ? 'text-blue-500' : 'text-gray-500'}`} />
+                  Import/Export
+                </Link>
               </nav>
               
               <div className="flex space-x-1 border-l border-gray-200 pl-4">
-                {/* File Management Buttons */}
-                {isFileSystemSupported && (
+                {/* Sync server replaces the file or browser storage while connected */}
+                {syncServerLabel ? (
                   <>
+                    <span
+                      className="px-3 py-2 rounded-md text-sm font-medium flex items-center bg-blue-50 text-blue-700"
+                      title={`Syncing with ${syncServerLabel}`}
+                    >
+                      <Cloud className="h-4 w-4 mr-1.5 text-blue-500" />
+                      {syncServerLabel}
+                    </span>
                     <button
-                      onClick={handleFileSelect}
-                      className={`px-3 py-2 rounded-md text-sm font-medium flex items-center transition-colors ${
-                        currentFileName
-                          ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
-                          : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
-                      }`}
-                      title={currentFileName ? `Current file: ${currentFileName}` : 'Select data file'}
+                      onClick={handleDisconnectSyncServer}
+                      className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-red-600 hover:bg-red-100 hover:text-red-700 transition-colors"
+                      title="Disconnect from sync server"
                     >
-                      {currentFileName ? (
-                        <FileText className="h-4 w-4 mr-1.5 text-blue-500" />
-                      ) : (
-                        <File className="h-4 w-4 mr-1.5 text-gray-500" />
-                      )}
-                      {currentFileName || 'Select File'}
+                      Disconnect
                     </button>
+                  </>
+                ) : onConnectSyncServer && (
+                  <button
+                    onClick={onConnectSyncServer}
+                    className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+                    title="Connect to a sync server"
+                  >
+                    <Cloud className="h-4 w-4 mr-1.5 text-gray-500" />
+                    Sync
+                  </button>
+                )}
+
+                {!syncServerLabel && !currentFileName && onBrowserStorageModeChange && (
+                  <select
+                    value={browserStorageMode}
+                    onChange={(e) => onBrowserStorageModeChange(e.target.value as BrowserStorageMode)}
+                    className="px-2 py-2 rounded-md text-sm font-medium text-gray-600 bg-transparent hover:bg-gray-100 cursor-pointer"
+                    title="How data is kept in this browser"
+                  >
+                    <option value="snapshot">Browser storage</option>
+                    <option value="changeLog">Browser change log</option>
+                  </select>
+                )}
+
+                {/* File Management Buttons */}
+                {isFileSystemSupported && !syncServerLabel && (
+                  <>
+                    <RecentFilesMenu
+                      recentFiles={recentFiles}
+                      currentFileName={currentFileName}
+                      onSelectFile={handleFileSelect}
+                      onSwitchFile={handleSwitchFile}
+                      onRemoveRecentFile={handleRemoveRecentFile}
+                    />
+
+                    {currentFileName && backend.encryption && (
+                      <button
+                        onClick={() => setIsEncryptionOpen(true)}
+                        className="px-2 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+                        title={backend.encryption.isEncrypted() ? 'File is encrypted' : 'Encrypt file'}
+                      >
+                        {backend.encryption.isEncrypted() ? (
+                          <Lock className="h-4 w-4 text-blue-500" />
+                        ) : (
+                          <Unlock className="h-4 w-4 text-gray-500" />
+                        )}
+                      </button>
+                    )}
 
                     {currentFileName && (
                       <button
@@ -141,14 +295,86 @@ const Layout: React.FC<LayoutProps> = ({
                     )}
                   </>
                 )}
+
+                {/* Without the File System Access API files are opened by upload and saved by download */}
+                {!isFileSystemSupported && !syncServerLabel && (
+                  currentFileName ? (
+                    <>
+                      <span
+                        className="px-3 py-2 rounded-md text-sm font-medium flex items-center bg-blue-50 text-blue-700"
+                        title={`Current file: ${currentFileName}`}
+                      >
+                        <FileText className="h-4 w-4 mr-1.5 text-blue-500" />
+                        {currentFileName}
+                      </span>
+                      {backend.manualFile && (
+                        <button
+                          onClick={handleDownload}
+                          className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+                          title={`Download ${currentFileName} with the latest changes`}
+                        >
+                          <Download className="h-4 w-4 mr-1.5 text-gray-500" />
+                          Download
+                        </button>
+                      )}
+                      <button
+                        onClick={handleDisconnect}
+                        className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-red-600 hover:bg-red-100 hover:text-red-700 transition-colors"
+                        title="Close file"
+                      >
+                        Disconnect
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      {onManualFileOpen && (
+                        <label
+                          className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors cursor-pointer"
+                          title="Open a data file"
+                        >
+                          <FolderOpen className="h-4 w-4 mr-1.5 text-gray-500" />
+                          Open File
+                          <input type="file" accept=".json,application/json" onChange={handleManualFileInput} className="hidden" />
+                        </label>
+                      )}
+                      {onManualFileCreate && (
+                        <button
+                          onClick={onManualFileCreate}
+                          className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+                          title="Start a new data file"
+                        >
+                          <FilePlus className="h-4 w-4 mr-1.5 text-gray-500" />
+                          New File
+                        </button>
+                      )}
+                    </>
+                  )
+                )}
               </div>
             </div>
           </div>
         </div>
       </header>
       <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6">
+        {fileError && (
+          <div className="mb-6 flex items-start gap-2 p-3 bg-red-50 text-red-700 border border-red-200 rounded-lg text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{fileError}</span>
+          </div>
+        )}
+        <UnsavedChangesNotice />
+        <QuarantineNotice />
         {children}
       </main>
+      <ConflictResolutionDialog />
+      {isEncryptionOpen && backend.encryption && (
+        <FileEncryptionDialog
+          encryption={backend.encryption}
+          fileName={backend.label}
+          onClose={() => setIsEncryptionOpen(false)}
+        />
+      )}
+      <UndoToast />
       <footer className="bg-white border-t mt-auto">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4">
           <div className="text-center text-sm text-gray-500">
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CopyX, Merge } from 'lucide-react';
+import { useBlocker } from '../context/BlockerContext';
+import { useRecurrence } from '../context/RecurrenceContext';
+import { useArchives } from '../context/ArchiveContext';
+import { findOverlapGroups, formatBlockRange, getMergedBlock } from '../utils/overlaps';
+
+// Finds overlapping or duplicate blocks with the same name anywhere in the data and merges them;
+// hidden while there are none. Archived blocks are read-only and left out.
+const OverlapCleanup: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { blocks } = useBlocker();
+  const { mergeBlocks, mergeOverlaps } = useRecurrence();
+  const { archivedMonths } = useArchives();
+  const groups = findOverlapGroups(blocks);
+  if (groups.length === 0) return null;
+
+  const handleMergeAll = () => {
+    if (window.confirm(`Merge ${groups.length} group${groups.length === 1 ? '' : 's'} of overlapping blocks? The extra blocks move to the trash.`)) {
+      mergeOverlaps();
+    }
+  };
+
+  return (
+    <div className={`bg-white border rounded-lg p-6 shadow-sm ${className}`}>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-gray-600 flex items-center gap-2">
+          <CopyX className="h-5 w-5" />
+          Overlapping Blocks
+          <span className="ml-2 bg-yellow-100 text-yellow-800 text-sm rounded-full px-2 py-0.5">{groups.length}</span>
+        </h2>
+        <button
+          onClick={handleMergeAll}
+          className="bg-blue-50 hover:bg-blue-100 text-blue-700 text-sm font-medium py-1.5 px-3 rounded-lg flex items-center gap-1"
+        >
+          <Merge size={14} />
+          Merge all
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-3">
+        These blocks share a name and overlap in time. Merging turns each group into one continuous block.
+        {archivedMonths.length > 0 && ' Archived blocks are not checked.'}
+      </p>
+      <ul className="space-y-3">
+        {groups.map(group => {
+          const merged = getMergedBlock(group);
+          return (
+            <li key={group.map(block => block.id).join('-')} className="p-3 bg-gray-50 rounded flex justify-between items-start gap-4">
+              <div className="text-sm">
+                <div className="font-medium text-gray-800">
+                  {merged.name} <span className="text-xs text-gray-500">× {group.length}</span>
+                </div>
+                <ul className="mt-1 text-xs text-gray-500">
+                  {group.map(block => <li key={block.id}>{formatBlockRange(block)}</li>)}
+                </ul>
+                <div className="mt-1 text-xs text-gray-700">Merged: {formatBlockRange(merged)}</div>
+              </div>
+              <button
+                onClick={() => mergeBlocks(group.map(block => block.id))}
+                className="p-1 text-gray-500 hover:text-blue-600 transition-colors flex-shrink-0"
+                title="Merge into one block"
+              >
+                <Merge size={16} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default OverlapCleanup;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, Merge } from 'lucide-react';
+import { Block } from '../types';
+import { formatBlockRange } from '../utils/overlaps';
+
+interface OverlapWarningProps {
+  // Same-name blocks that overlap the one being added or edited
+  conflicts: Block[];
+  onMerge: () => void;
+  className?: string;
+}
+
+// Warns about overlapping blocks with the same name and offers to combine them into one
+const OverlapWarning: React.FC<OverlapWarningProps> = ({ conflicts, onMerge, className = '' }) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className={`p-3 bg-yellow-50 text-yellow-800 rounded border border-yellow-300 text-sm ${className}`}>
+      <div className="flex items-start gap-2">
+        <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+        <div className="flex-grow">
+          <p>
+            Overlaps {conflicts.length === 1 ? 'another block' : `${conflicts.length} other blocks`} named
+            "{conflicts[0].name}":
+          </p>
+          <ul className="mt-1 text-xs list-disc list-inside">
+            {conflicts.map(block => <li key={block.id}>{formatBlockRange(block)}</li>)}
+          </ul>
+        </div>
+        <button
+          type="button"
+          onClick={onMerge}
+          className="flex items-center gap-1 px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100 transition-colors flex-shrink-0"
+        >
+          <Merge size={14} />
+          Merge into one block
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OverlapWarning;
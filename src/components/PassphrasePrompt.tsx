@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { PassphraseRequest, setPassphrasePrompt } from '../utils/passphrasePrompt';
+
+interface PendingRequest extends PassphraseRequest {
+  resolve: (passphrase: string | null) => void;
+}
+
+// Answers passphrase requests from storage code, e.g. when an encrypted data file is opened
+const PassphrasePrompt: React.FC = () => {
+  const [request, setRequest] = useState<PendingRequest | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setPassphrasePrompt(next => new Promise(resolve => {
+      setPassphrase('');
+      setRequest({ ...next, resolve });
+    }));
+    return () => setPassphrasePrompt(null);
+  }, []);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [request]);
+
+  if (!request) {
+    return null;
+  }
+
+  const answer = (value: string | null) => {
+    request.resolve(value);
+    setRequest(null);
+    setPassphrase('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase) {
+      answer(passphrase);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl max-w-md w-full">
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <Lock className="h-5 w-5 text-blue-500" />
+            Enter Passphrase
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {request.label.charAt(0).toUpperCase() + request.label.slice(1)} is encrypted. Enter its passphrase to open it.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-2">
+          <input
+            ref={inputRef}
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {request.isRetry && (
+            <p className="text-sm text-red-600">That passphrase didn't work. Try again.</p>
+          )}
+        </div>
+
+        <div className="p-6 border-t flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => answer(null)}
+            className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!passphrase}
+            className="px-4 py-2 text-sm text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PassphrasePrompt;
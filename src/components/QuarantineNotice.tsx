@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+import { useDataStore } from '../context/DataStore';
+import { QuarantinedEntry } from '../types';
+
+const COLLECTION_LABELS: Record<QuarantinedEntry['collection'], string> = {
+  blocks: 'Block',
+  standardBlocks: 'Standard block',
+  trash: 'Trashed block'
+};
+
+const describeEntry = (entry: QuarantinedEntry): string => {
+  const raw = entry.entry;
+  const label = COLLECTION_LABELS[entry.collection];
+  if (typeof raw === 'object' && raw !== null) {
+    const { id, name } = raw as { id?: unknown; name?: unknown };
+    if (typeof name === 'string' && name.trim()) return `${label} "${name}"`;
+    if (id !== undefined) return `${label} with id ${String(id)}`;
+  }
+  return `Unnamed ${label.toLowerCase()}`;
+};
+
+const QuarantineNotice: React.FC = () => {
+  const { quarantine, clearQuarantine, backend } = useDataStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (quarantine.length === 0) {
+    return null;
+  }
+
+  const handleDiscard = () => {
+    if (window.confirm(`Permanently discard ${quarantine.length} quarantined entr${quarantine.length > 1 ? 'ies' : 'y'}?`)) {
+      clearQuarantine();
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm">
+      <div className="flex justify-between items-start gap-4">
+        <div className="flex items-start gap-2 text-amber-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">
+              {quarantine.length} malformed entr{quarantine.length > 1 ? 'ies were' : 'y was'} set aside
+            </p>
+            <p className="text-amber-700">
+              {backend.capabilities.userVisibleFile
+                ? `They are kept in the "quarantine" section of ${backend.label}. Fix them there and move them back into the section listed for each entry.`
+                : 'They are kept in browser storage so no data is lost.'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="flex items-center gap-1 px-2 py-1 text-amber-700 hover:bg-amber-100 rounded transition-colors"
+          >
+            {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            Details
+          </button>
+          <button
+            onClick={handleDiscard}
+            className="flex items-center gap-1 px-2 py-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+            title="Discard quarantined entries"
+          >
+            <Trash2 size={14} /> Discard
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <ul className="mt-3 space-y-2">
+          {quarantine.map((entry, index) => (
+            <li key={index} className="bg-white border border-amber-100 rounded p-3">
+              <div className="flex justify-between items-center">
+                <span className="font-medium text-gray-800">{describeEntry(entry)}</span>
+                <code className="text-xs text-gray-500">{entry.collection}</code>
+              </div>
+              <ul className="mt-1 list-disc list-inside text-red-600">
+                {entry.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+              <pre className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-600 overflow-x-auto">
+                {JSON.stringify(entry.entry, null, 2)}
+              </pre>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default QuarantineNotice;
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, File, FileText, X } from 'lucide-react';
+import { RecentFile } from '../utils/fileHandleStorage';
+import { formatLocalDateTime } from '../utils/timeUtils';
+
+interface RecentFilesMenuProps {
+  recentFiles: RecentFile[];
+  currentFileName?: string | null;
+  onSelectFile: () => Promise<void>;
+  onSwitchFile: (recent: RecentFile) => Promise<void>;
+  onRemoveRecentFile: (id: string) => Promise<void>;
+}
+
+// The data file button, with a menu for switching between recently opened files
+const RecentFilesMenu: React.FC<RecentFilesMenuProps> = ({
+  recentFiles,
+  currentFileName,
+  onSelectFile,
+  onSwitchFile,
+  onRemoveRecentFile
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  // The first entry is the file that is open, so it isn't offered again
+  const otherFiles = currentFileName ? recentFiles.slice(1) : recentFiles;
+
+  const handleSwitch = async (recent: RecentFile) => {
+    setIsOpen(false);
+    await onSwitchFile(recent);
+  };
+
+  const handleSelect = async () => {
+    setIsOpen(false);
+    await onSelectFile();
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => otherFiles.length > 0 ? setIsOpen(!isOpen) : handleSelect()}
+        className={`px-3 py-2 rounded-md text-sm font-medium flex items-center transition-colors ${
+          currentFileName
+            ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+            : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+        }`}
+        title={currentFileName ? `Current file: ${currentFileName}` : 'Select data file'}
+      >
+        {currentFileName ? (
+          <FileText className="h-4 w-4 mr-1.5 text-blue-500" />
+        ) : (
+          <File className="h-4 w-4 mr-1.5 text-gray-500" />
+        )}
+        {currentFileName || 'Select File'}
+        {otherFiles.length > 0 && <ChevronDown className="h-4 w-4 ml-1" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-40 py-1">
+          <p className="px-3 py-1.5 text-xs font-medium text-gray-500 uppercase">Recent files</p>
+          {otherFiles.map(recent => (
+            <div key={recent.id} className="flex items-center hover:bg-gray-50">
+              <button
+                onClick={() => handleSwitch(recent)}
+                className="flex-1 min-w-0 px-3 py-2 text-left"
+                title={`Switch to ${recent.name}`}
+              >
+                <span className="block text-sm text-gray-900 truncate">{recent.name}</span>
+                <span className="block text-xs text-gray-500">
+                  Opened {formatLocalDateTime(new Date(recent.lastOpened), { month: 'short', day: 'numeric' })}
+                </span>
+              </button>
+              <button
+                onClick={() => onRemoveRecentFile(recent.id)}
+                className="p-2 mr-1 text-gray-400 hover:text-gray-600"
+                title="Remove from recent files"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <div className="border-t mt-1 pt-1">
+            <button
+              onClick={handleSelect}
+              className="w-full px-3 py-2 text-left text-sm text-blue-600 hover:bg-gray-50"
+            >
+              Open another file...
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecentFilesMenu;
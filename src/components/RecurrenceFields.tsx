@@ -0,0 +1,150 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { WORKWEEK } from '../utils/recurrence';
+
+const WEEKDAYS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' }
+];
+
+type EndMode = 'never' | 'until' | 'count';
+
+interface RecurrenceFieldsProps {
+  // Null while the block doesn't repeat
+  rule: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ rule, onChange }) => {
+  const endMode: EndMode = rule?.until !== undefined ? 'until' : rule?.count !== undefined ? 'count' : 'never';
+
+  const handleFrequencyChange = (value: RecurrenceFrequency | 'none') => {
+    if (value === 'none') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: value,
+      weekdays: value === 'weekly' ? rule?.weekdays ?? WORKWEEK : undefined,
+      intervalDays: value === 'everyNDays' ? rule?.intervalDays ?? 2 : undefined,
+      until: rule?.until,
+      count: rule?.count
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!rule) return;
+    const weekdays = rule.weekdays ?? [];
+    onChange({
+      ...rule,
+      weekdays: weekdays.includes(day) ? weekdays.filter(other => other !== day) : [...weekdays, day]
+    });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (!rule) return;
+    onChange({
+      ...rule,
+      until: mode === 'until' ? rule.until ?? '' : undefined,
+      count: mode === 'count' ? rule.count ?? 10 : undefined
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="repeatFrequency" className="font-medium text-gray-700 flex items-center gap-1.5">
+          <Repeat size={16} /> Repeat:
+        </label>
+        <select
+          id="repeatFrequency"
+          value={rule?.frequency ?? 'none'}
+          onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | 'none')}
+          className="p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none"
+        >
+          <option value="none">Does not repeat</option>
+          <option value="daily">Every day</option>
+          <option value="weekly">Weekly on...</option>
+          <option value="everyNDays">Every few days</option>
+        </select>
+
+        {rule?.frequency === 'everyNDays' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            every
+            <input
+              type="number"
+              min="1"
+              value={rule.intervalDays ?? ''}
+              onChange={(e) => onChange({ ...rule, intervalDays: parseInt(e.target.value) || 0 })}
+              className="w-16 p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none"
+            />
+            days
+          </label>
+        )}
+      </div>
+
+      {rule?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map(({ day, label }) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`px-2.5 py-1 text-sm rounded border transition-colors ${
+                rule.weekdays?.includes(day)
+                  ? 'bg-blue-500 border-blue-500 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {rule && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <label htmlFor="repeatEnds">Ends:</label>
+          <select
+            id="repeatEnds"
+            value={endMode}
+            onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+            className="p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none"
+          >
+            <option value="never">Never</option>
+            <option value="until">On a date</option>
+            <option value="count">After a number of times</option>
+          </select>
+          {endMode === 'until' && (
+            <input
+              type="date"
+              value={rule.until ?? ''}
+              onChange={(e) => onChange({ ...rule, until: e.target.value })}
+              className="p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none"
+            />
+          )}
+          {endMode === 'count' && (
+            <>
+              <input
+                type="number"
+                min="1"
+                value={rule.count ?? ''}
+                onChange={(e) => onChange({ ...rule, count: parseInt(e.target.value) || 0 })}
+                className="w-20 p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none"
+              />
+              times
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
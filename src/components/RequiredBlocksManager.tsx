@@ -3,6 +3,7 @@ import { useStandardBlocks } from '../context/StandardBlocksContext';
 import { Star, Trash2, AlertTriangle, Check, Clock } from 'lucide-react';
 import { StandardBlock, Block } from '../types';
 import { formatSimplifiedRemainingTime } from '../utils/timeUtils';
+import { getContinuousEndTime } from '../utils/overlaps';
 
 const RequiredBlocksManager: React.FC<{
   activeBlocks: Block[];
@@ -24,25 +25,21 @@ const RequiredBlocksManager: React.FC<{
     return allBlocks.filter(block => block.name === requiredBlock.name);
   };
 
-  // Find earliest end time for active/scheduled blocks for this required block
-  const getEarliestEndTime = (requiredBlock: StandardBlock) => {
-    const matchingBlocks = getBlocksForRequiredBlock(requiredBlock);
-    if (matchingBlocks.length === 0) return null;
-
-    // Sort by end time and take the earliest
-    return matchingBlocks.sort((a, b) => a.endTime.getTime() - b.endTime.getTime())[0].endTime;
+  // When this required block stops being covered: overlapping or back-to-back blocks count as one
+  const getCoveredUntil = (requiredBlock: StandardBlock) => {
+    return getContinuousEndTime(getBlocksForRequiredBlock(requiredBlock));
   };
 
   // Sort required blocks by their end time (soonest first)
   const sortedRequiredBlocks = [...requiredBlocks].sort((a, b) => {
-    const aEndTime = getEarliestEndTime(a);
-    const bEndTime = getEarliestEndTime(b);
+    const aEndTime = getCoveredUntil(a);
+    const bEndTime = getCoveredUntil(b);
     
     // If no matching blocks or end time, put at the end
     if (!aEndTime) return 1;
     if (!bEndTime) return -1;
     
-    // Sort by earliest end time
+    // Sort by when coverage ends
     return aEndTime.getTime() - bEndTime.getTime();
   });
   
@@ -77,14 +74,14 @@ const RequiredBlocksManager: React.FC<{
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
           {sortedRequiredBlocks.map(block => {
             const isActive = activeBlockNames.includes(block.name);
-            const earliestEndTime = getEarliestEndTime(block);
+            const coveredUntil = getCoveredUntil(block);
             
             return (
               <RequiredBlockItem 
                 key={block.id} 
                 block={block} 
                 isActive={isActive}
-                endTime={earliestEndTime}
+                endTime={coveredUntil}
                 onRemoveRequired={() => toggleRequiredStatus(block.id)}
               />
             );
@@ -4,6 +4,9 @@ import { useBlocker } from '../context/BlockerContext';
 import { Star, Trash2, PlusCircle, Star as StarIcon, AlertTriangle, Clock } from 'lucide-react';
 import { StandardBlock, Block } from '../types';
 import { formatSimplifiedRemainingTime } from '../utils/timeUtils';
+import { getContinuousEndTime } from '../utils/overlaps';
+import { getEffectiveEndTime } from '../utils/adjustments';
+import { getEnforcedBlocks } from '../utils/blocklist';
 
 const RequiredBlocksPage: React.FC = () => {
   const { standardBlocks, getRequiredBlocks, toggleRequiredStatus } = useStandardBlocks();
@@ -13,9 +16,9 @@ const RequiredBlocksPage: React.FC = () => {
   const nonRequiredStandardBlocks = standardBlocks.filter(block => !block.required);
   const requiredBlocks = getRequiredBlocks();
   
-  // Filter active and upcoming blocks
+  // Filter active and upcoming blocks; a paused block stays active past its end time until it's resumed
   const activeBlocks = blocks.filter(block => 
-    currentTime >= block.startTime && currentTime < block.endTime
+    currentTime >= block.startTime && currentTime < getEffectiveEndTime(block, currentTime)
   );
   
   const upcomingBlocks = blocks.filter(block => 
@@ -25,33 +28,30 @@ const RequiredBlocksPage: React.FC = () => {
   // Combine active and upcoming for scheduled blocks
   const activeAndUpcomingBlocks = [...activeBlocks, ...upcomingBlocks];
   
-  // Get the names of currently active blocks
-  const activeBlockNames = activeBlocks.map(block => block.name);
+  // Get the names of blocks that are blocking right now, so paused ones don't count
+  const activeBlockNames = getEnforcedBlocks(blocks, currentTime).map(block => block.name);
   
   // Get active/scheduled blocks for each required block
   const getBlocksForRequiredBlock = (requiredBlock: StandardBlock) => {
     return activeAndUpcomingBlocks.filter(block => block.name === requiredBlock.name);
   };
 
-  // Find earliest end time for active/scheduled blocks for this required block
-  const getEarliestEndTime = (requiredBlock: StandardBlock) => {
-    const matchingBlocks = getBlocksForRequiredBlock(requiredBlock);
-    if (matchingBlocks.length === 0) return null;
-
-    // Sort by end time and take the earliest
-    return matchingBlocks.sort((a, b) => a.endTime.getTime() - b.endTime.getTime())[0].endTime;
+  // When this required block stops being covered: overlapping or back-to-back blocks count as one
+  const getCoveredUntil = (requiredBlock: StandardBlock) => {
+    return getContinuousEndTime(getBlocksForRequiredBlock(requiredBlock)
+      .map(block => ({ ...block, endTime: getEffectiveEndTime(block, currentTime) })));
   };
 
   // Sort required blocks by their end time (soonest first)
   const sortedRequiredBlocks = [...requiredBlocks].sort((a, b) => {
-    const aEndTime = getEarliestEndTime(a);
-    const bEndTime = getEarliestEndTime(b);
+    const aEndTime = getCoveredUntil(a);
+    const bEndTime = getCoveredUntil(b);
     
     // If no matching blocks or end time, put at the end
     if (!aEndTime) return 1;
     if (!bEndTime) return -1;
     
-    // Sort by earliest end time
+    // Sort by when coverage ends
     return aEndTime.getTime() - bEndTime.getTime();
   });
   
@@ -73,14 +73,14 @@ const RequiredBlocksPage: React.FC = () => {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {sortedRequiredBlocks.map(block => {
               const isActive = activeBlockNames.includes(block.name);
-              const earliestEndTime = getEarliestEndTime(block);
+              const coveredUntil = getCoveredUntil(block);
               
               return (
                 <RequiredBlockCard 
                   key={block.id} 
                   block={block} 
                   isActive={isActive}
-                  endTime={earliestEndTime}
+                  endTime={coveredUntil}
                   onRemoveRequired={() => toggleRequiredStatus(block.id)}
                 />
               );
@@ -1,27 +1,41 @@
 import React, { useState, useCallback } from 'react';
-import { Trash2, Edit, Check, X, PlusCircle, Star, StarOff, Clock } from 'lucide-react';
+import { Trash2, Edit, Check, X, PlusCircle, Star, StarOff, Clock, Repeat, CalendarOff, Zap, SlidersHorizontal } from 'lucide-react';
 import { useStandardBlocks } from '../context/StandardBlocksContext';
 import { useBlocker } from '../context/BlockerContext';
+import { useRecurrence } from '../context/RecurrenceContext';
 import { formatSimplifiedRemainingTime } from '../utils/timeUtils';
+import { describeSchedule } from '../utils/recurrence';
+import { DEFAULT_DURATION_MINUTES, createBlockFromTemplate, describeTemplate } from '../utils/templates';
+import { formatTags, toTagFields } from '../utils/tags';
+import TagFields from './TagFields';
+import TagBadges from './TagBadges';
+import TargetFields from './TargetFields';
+import { toBlockTargets, toTargetText } from '../utils/blocklist';
 import { StandardBlock } from '../types';
 
 interface StandardBlockFormProps {
-  onSubmit: (name: string, required?: boolean) => void;
+  onSubmit: (template: Omit<StandardBlock, 'id'>) => void;
   onCancel: () => void;
-  initialName?: string;
-  initialRequired?: boolean;
+  initialBlock?: StandardBlock;
   isEditing?: boolean;
 }
 
 const StandardBlockForm: React.FC<StandardBlockFormProps> = ({ 
   onSubmit, 
   onCancel, 
-  initialName = '', 
-  initialRequired = false,
+  initialBlock,
   isEditing = false 
 }) => {
-  const [name, setName] = useState(initialName);
-  const [required, setRequired] = useState(initialRequired);
+  const [name, setName] = useState(initialBlock?.name ?? '');
+  const [required, setRequired] = useState(initialBlock?.required ?? false);
+  const [duration, setDuration] = useState(String(initialBlock?.durationMinutes ?? DEFAULT_DURATION_MINUTES));
+  const [notes, setNotes] = useState(initialBlock?.notes ?? '');
+  const [startTime, setStartTime] = useState(initialBlock?.startTime ?? '');
+  const [startImmediately, setStartImmediately] = useState(initialBlock?.startImmediately ?? false);
+  const [locked, setLocked] = useState(initialBlock?.locked ?? false);
+  const [targets, setTargets] = useState(() => toTargetText(initialBlock?.targets));
+  const [category, setCategory] = useState(initialBlock?.category ?? '');
+  const [tags, setTags] = useState(formatTags(initialBlock?.tags));
   const [error, setError] = useState('');
 
   const handleNameChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -40,7 +54,24 @@ const StandardBlockForm: React.FC<StandardBlockFormProps> = ({
       return;
     }
 
-    onSubmit(name.trim(), required);
+    const durationMinutes = parseInt(duration);
+    if (!(durationMinutes > 0)) {
+      setError('Duration must be at least 1 minute');
+      return;
+    }
+
+    onSubmit({
+      ...initialBlock,
+      name: name.trim(),
+      required,
+      durationMinutes,
+      notes: notes.trim() || undefined,
+      startTime: startTime || undefined,
+      startImmediately: startImmediately || undefined,
+      locked: locked || undefined,
+      ...toTagFields(category, tags),
+      targets: toBlockTargets(targets)
+    });
   };
 
   return (
@@ -64,6 +95,86 @@ const StandardBlockForm: React.FC<StandardBlockFormProps> = ({
           placeholder="e.g., Quick Meeting"
         />
       </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="standardBlockDuration" className="block text-sm font-medium text-gray-700 mb-1">
+            Duration (minutes):
+          </label>
+          <input
+            id="standardBlockDuration"
+            type="number"
+            min="1"
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+            className="w-full p-2 border rounded text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="standardBlockStartTime" className="block text-sm font-medium text-gray-700 mb-1">
+            Starts at (optional):
+          </label>
+          <input
+            id="standardBlockStartTime"
+            type="time"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            disabled={startImmediately}
+            className="w-full p-2 border rounded text-sm focus:outline-none focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-400"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="standardBlockNotes" className="block text-sm font-medium text-gray-700 mb-1">
+          Notes:
+        </label>
+        <textarea
+          id="standardBlockNotes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className="w-full p-2 border rounded text-sm focus:outline-none focus:border-blue-500"
+          placeholder="Default notes for new blocks"
+        />
+      </div>
+      
+      <TagFields
+        idPrefix="standardBlock"
+        category={category}
+        tags={tags}
+        onCategoryChange={setCategory}
+        onTagsChange={setTags}
+        className="w-full p-2 border rounded text-sm focus:outline-none focus:border-blue-500"
+      />
+      
+      <TargetFields idPrefix="standardBlock" value={targets} onChange={setTargets} />
+      
+      <div className="flex items-center">
+        <input
+          id="startImmediately"
+          type="checkbox"
+          checked={startImmediately}
+          onChange={(e) => setStartImmediately(e.target.checked)}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <label htmlFor="startImmediately" className="ml-2 block text-sm text-gray-700">
+          Start immediately when used
+        </label>
+      </div>
+      
+      <div className="flex items-center">
+        <input
+          id="lockedBlock"
+          type="checkbox"
+          checked={locked}
+          onChange={(e) => setLocked(e.target.checked)}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <label htmlFor="lockedBlock" className="ml-2 block text-sm text-gray-700">
+          Lock blocks created from this while they're active
+        </label>
+      </div>
       
       <div className="flex items-center">
         <input
@@ -101,15 +212,18 @@ const StandardBlockItem: React.FC<{
   block: StandardBlock;
   isActive: boolean;
   endTime: Date | null;
-  onSelect: (block: StandardBlock) => void;
+  onUse: (block: StandardBlock) => void;
+  onCustomize: (block: StandardBlock) => void;
   onEdit: (block: StandardBlock) => void;
   onDelete: (id: number) => void;
   onToggleRequired: (id: number) => void;
-}> = ({ block, isActive, endTime, onSelect, onEdit, onDelete, onToggleRequired }) => {
+  onStopRepeating: (block: StandardBlock) => void;
+}> = ({ block, isActive, endTime, onUse, onCustomize, onEdit, onDelete, onToggleRequired, onStopRepeating }) => {
   const now = new Date();
   const timeRemaining = block.required && isActive && endTime
     ? formatSimplifiedRemainingTime(endTime, now)
     : null;
+  const defaults = describeTemplate(block);
 
   return (
     <li className={`group flex items-center justify-between gap-3 px-3 py-2 ${block.required ? 'bg-yellow-50' : 'bg-white'}`}>
@@ -131,6 +245,16 @@ const StandardBlockItem: React.FC<{
             {timeRemaining}
           </span>
         )}
+        <TagBadges block={block} className="ml-2" />
+        {defaults && !block.schedule && (
+          <span className="ml-2 text-xs text-gray-500 truncate">{defaults}</span>
+        )}
+        {block.schedule && (
+          <span className="ml-2 text-xs text-gray-500 flex items-center gap-1 truncate" title="Upcoming occurrences are created automatically">
+            <Repeat size={12} />
+            {describeSchedule(block.schedule)}
+          </span>
+        )}
       </div>
 
       <div className="flex items-center gap-1 flex-shrink-0">
@@ -141,6 +265,15 @@ const StandardBlockItem: React.FC<{
         >
           <Edit size={16} />
         </button>
+        {block.schedule && (
+          <button
+            onClick={() => onStopRepeating(block)}
+            className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-400 hover:text-red-500 p-1"
+            title="Stop repeating"
+          >
+            <CalendarOff size={16} />
+          </button>
+        )}
         <button
           onClick={() => onDelete(block.id)}
           className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-400 hover:text-red-500 p-1"
@@ -149,10 +282,18 @@ const StandardBlockItem: React.FC<{
           <Trash2 size={16} />
         </button>
         <button
-          onClick={() => onSelect(block)}
+          onClick={() => onCustomize(block)}
+          className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-400 hover:text-blue-500 p-1"
+          title="Adjust before creating"
+        >
+          <SlidersHorizontal size={16} />
+        </button>
+        <button
+          onClick={() => onUse(block)}
           className={`flex items-center gap-1 text-sm px-2 py-1 rounded ${block.required ? 'bg-amber-100 hover:bg-amber-200 text-amber-700' : 'bg-green-100 hover:bg-green-200 text-green-700'} transition-colors`}
+          title="Create this block now with its defaults"
         >
-          <PlusCircle size={14} /> Use
+          {block.startImmediately ? <Zap size={14} /> : <PlusCircle size={14} />} Use
         </button>
       </div>
     </li>
@@ -163,21 +304,32 @@ const StandardBlocksList: React.FC<{
   onSelectBlock: (block: StandardBlock) => void;
 }> = ({ onSelectBlock }) => {
   const { standardBlocks, addStandardBlock, updateStandardBlock, removeStandardBlock, toggleRequiredStatus } = useStandardBlocks();
-  const { blocks, currentTime } = useBlocker();
+  const { blocks, currentTime, addBlock } = useBlocker();
+  const { stopSeries } = useRecurrence();
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingBlock, setEditingBlock] = useState<StandardBlock | null>(null);
   
-  const handleAddBlock = (name: string, required?: boolean) => {
-    addStandardBlock({ name, required });
+  const handleAddBlock = (template: Omit<StandardBlock, 'id'>) => {
+    addStandardBlock(template);
     setShowAddForm(false);
   };
   
-  const handleUpdateBlock = (name: string, required?: boolean) => {
+  const handleUpdateBlock = (template: Omit<StandardBlock, 'id'>) => {
     if (editingBlock) {
-      updateStandardBlock(editingBlock.id, { name, required });
+      updateStandardBlock(editingBlock.id, template);
       setEditingBlock(null);
     }
   };
+
+  const handleUseBlock = (block: StandardBlock) => {
+    addBlock(createBlockFromTemplate(block));
+  };
+
+  const handleStopRepeating = (block: StandardBlock) => {
+    if (window.confirm(`Stop repeating "${block.name}"? Occurrences that haven't started yet move to the trash.`)) {
+      stopSeries(block.id);
+    }
+  };
   
   const startEditing = (block: StandardBlock) => {
     setEditingBlock(block);
@@ -263,8 +415,8 @@ const StandardBlocksList: React.FC<{
       {editingBlock && (
         <div className="mb-4">
           <StandardBlockForm
-            initialName={editingBlock.name}
-            initialRequired={editingBlock.required}
+            key={editingBlock.id}
+            initialBlock={editingBlock}
             onSubmit={handleUpdateBlock}
             onCancel={cancelEditing}
             isEditing
@@ -288,10 +440,12 @@ const StandardBlocksList: React.FC<{
                     block={block}
                     isActive={isActive}
                     endTime={endTime}
-                    onSelect={onSelectBlock}
+                    onUse={handleUseBlock}
+                    onCustomize={onSelectBlock}
                     onEdit={startEditing}
                     onDelete={removeStandardBlock}
                     onToggleRequired={toggleRequiredStatus}
+                    onStopRepeating={handleStopRepeating}
                   />
                 ))}
               </ul>
@@ -309,10 +463,12 @@ const StandardBlocksList: React.FC<{
                     block={block}
                     isActive={isActive}
                     endTime={endTime}
-                    onSelect={onSelectBlock}
+                    onUse={handleUseBlock}
+                    onCustomize={onSelectBlock}
                     onEdit={startEditing}
                     onDelete={removeStandardBlock}
                     onToggleRequired={toggleRequiredStatus}
+                    onStopRepeating={handleStopRepeating}
                   />
                 ))}
               </ul>
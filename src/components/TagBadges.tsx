@@ -0,0 +1,20 @@
+import React from 'react';
+import { Block } from '../types';
+
+// A block's category and tags as small badges, or nothing when it has neither
+const TagBadges: React.FC<{ block: Pick<Block, 'category' | 'tags'>; className?: string }> = ({ block, className = 'mt-1' }) => {
+  if (!block.category && !block.tags?.length) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {block.category && (
+        <span className="text-xs bg-purple-100 text-purple-800 rounded px-1.5 py-0.5">{block.category}</span>
+      )}
+      {block.tags?.map(tag => (
+        <span key={tag} className="text-xs bg-gray-200 text-gray-700 rounded-full px-2 py-0.5">#{tag}</span>
+      ))}
+    </div>
+  );
+};
+
+export default TagBadges;
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { Tag, Folder } from 'lucide-react';
+import { useBlocker } from '../context/BlockerContext';
+import { useStandardBlocks } from '../context/StandardBlocksContext';
+import { getAllCategories, getAllTags } from '../utils/tags';
+
+interface TagFieldsProps {
+  // Keeps input ids unique when several forms are on the page
+  idPrefix: string;
+  category: string;
+  // Comma-separated
+  tags: string;
+  onCategoryChange: (category: string) => void;
+  onTagsChange: (tags: string) => void;
+  className?: string;
+}
+
+// Category and tag inputs, suggesting the ones already in use
+const TagFields: React.FC<TagFieldsProps> = ({
+  idPrefix,
+  category,
+  tags,
+  onCategoryChange,
+  onTagsChange,
+  className = 'w-full p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none'
+}) => {
+  const { blocks } = useBlocker();
+  const { standardBlocks } = useStandardBlocks();
+
+  const knownCategories = useMemo(() => getAllCategories([...standardBlocks, ...blocks]), [blocks, standardBlocks]);
+  const knownTags = useMemo(() => getAllTags([...standardBlocks, ...blocks]), [blocks, standardBlocks]);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div>
+        <label htmlFor={`${idPrefix}Category`} className="block text-sm font-medium mb-1 text-gray-700 flex items-center gap-1.5">
+          <Folder size={14} /> Category:
+        </label>
+        <input
+          id={`${idPrefix}Category`}
+          type="text"
+          list={`${idPrefix}CategoryOptions`}
+          value={category}
+          onChange={(e) => onCategoryChange(e.target.value)}
+          className={className}
+          placeholder="e.g., Distractions"
+        />
+        <datalist id={`${idPrefix}CategoryOptions`}>
+          {knownCategories.map(option => <option key={option} value={option} />)}
+        </datalist>
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}Tags`} className="block text-sm font-medium mb-1 text-gray-700 flex items-center gap-1.5">
+          <Tag size={14} /> Tags:
+        </label>
+        <input
+          id={`${idPrefix}Tags`}
+          type="text"
+          value={tags}
+          onChange={(e) => onTagsChange(e.target.value)}
+          className={className}
+          placeholder={knownTags.length > 0 ? `e.g., ${knownTags.slice(0, 3).join(', ')}` : 'e.g., social, video'}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TagFields;
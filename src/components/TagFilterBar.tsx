@@ -0,0 +1,53 @@
+import React from 'react';
+import { Filter, X } from 'lucide-react';
+import { TagFilter, NO_TAG_FILTER, isTagFilterActive } from '../utils/tags';
+
+interface TagFilterBarProps {
+  filter: TagFilter;
+  onChange: (filter: TagFilter) => void;
+  categories: string[];
+  tags: string[];
+}
+
+// Narrow lists down to one category and/or tag; hidden while nothing is tagged
+const TagFilterBar: React.FC<TagFilterBarProps> = ({ filter, onChange, categories, tags }) => {
+  if (categories.length === 0 && tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6 p-3 bg-white rounded-lg shadow-sm text-sm">
+      <Filter className="h-4 w-4 text-gray-500" />
+      {categories.length > 0 && (
+        <select
+          aria-label="Filter by category"
+          value={filter.category ?? ''}
+          onChange={(e) => onChange({ ...filter, category: e.target.value || null })}
+          className="border border-gray-300 rounded-md px-2 py-1"
+        >
+          <option value="">All categories</option>
+          {categories.map(category => <option key={category} value={category}>{category}</option>)}
+        </select>
+      )}
+      {tags.map(tag => (
+        <button
+          key={tag}
+          onClick={() => onChange({ ...filter, tag: filter.tag === tag ? null : tag })}
+          className={`rounded-full px-2.5 py-0.5 transition-colors ${
+            filter.tag === tag ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          #{tag}
+        </button>
+      ))}
+      {isTagFilterActive(filter) && (
+        <button
+          onClick={() => onChange(NO_TAG_FILTER)}
+          className="ml-auto flex items-center gap-1 text-gray-500 hover:text-gray-800"
+        >
+          <X size={14} /> Clear filter
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TagFilterBar;
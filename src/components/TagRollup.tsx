@@ -0,0 +1,44 @@
+import React from 'react';
+import { Block } from '../types';
+import { formatDuration } from '../utils/timeUtils';
+import { DurationRollup, getCategoryDurations, getTagDurations } from '../utils/tags';
+
+const RollupRow: React.FC<{ rollup: DurationRollup; label: string }> = ({ rollup, label }) => (
+  <li className="flex justify-between gap-2">
+    <span className="truncate">{label}</span>
+    <span className="text-gray-500 flex-shrink-0">
+      {formatDuration(new Date(0), new Date(rollup.minutes * 60 * 1000))}
+      <span className="text-xs"> · {rollup.count} block{rollup.count === 1 ? '' : 's'}</span>
+    </span>
+  </li>
+);
+
+// Total time per category and tag across the given blocks
+const TagRollup: React.FC<{ blocks: Block[]; className?: string }> = ({ blocks, className = '' }) => {
+  const categories = getCategoryDurations(blocks);
+  const tags = getTagDurations(blocks);
+  if (categories.length === 0 && tags.length === 0) return null;
+
+  return (
+    <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-gray-700 ${className}`}>
+      {categories.length > 0 && (
+        <div>
+          <h3 className="font-medium text-gray-600 mb-1">By category</h3>
+          <ul className="space-y-0.5">
+            {categories.map(rollup => <RollupRow key={rollup.label} rollup={rollup} label={rollup.label} />)}
+          </ul>
+        </div>
+      )}
+      {tags.length > 0 && (
+        <div>
+          <h3 className="font-medium text-gray-600 mb-1">By tag</h3>
+          <ul className="space-y-0.5">
+            {tags.map(rollup => <RollupRow key={rollup.label} rollup={rollup} label={`#${rollup.label}`} />)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagRollup;
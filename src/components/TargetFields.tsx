@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Target } from 'lucide-react';
+import { TargetText, describeTargets, toBlockTargets } from '../utils/blocklist';
+
+interface TargetFieldsProps {
+  // Keeps input ids unique when several forms are on the page
+  idPrefix: string;
+  value: TargetText;
+  onChange: (value: TargetText) => void;
+  className?: string;
+}
+
+const FIELDS: { key: keyof TargetText; label: string; placeholder: string }[] = [
+  { key: 'domains', label: 'Domains', placeholder: 'reddit.com\nnews.ycombinator.com' },
+  { key: 'urlPatterns', label: 'URL patterns', placeholder: 'youtube.com/shorts/*' },
+  { key: 'apps', label: 'Applications', placeholder: 'Steam' }
+];
+
+// Sites and apps the block should block, folded away until needed
+const TargetFields: React.FC<TargetFieldsProps> = ({
+  idPrefix,
+  value,
+  onChange,
+  className = 'w-full p-2 border rounded focus:ring-2 focus:ring-blue-300 focus:border-blue-500 outline-none text-sm font-mono'
+}) => {
+  const summary = describeTargets(toBlockTargets(value));
+  // Start unfolded when there are targets, then leave it to the user
+  const [initiallyOpen] = useState(summary !== null);
+
+  return (
+    <details open={initiallyOpen} className="rounded border border-gray-200 p-3">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700 flex items-center gap-1.5">
+        <Target size={14} /> Blocked sites and apps
+        <span className="font-normal text-gray-500">{summary ? `(${summary})` : '(none)'}</span>
+      </summary>
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <label htmlFor={`${idPrefix}${field.key}`} className="block text-xs font-medium mb-1 text-gray-600">
+              {field.label}, one per line
+            </label>
+            <textarea
+              id={`${idPrefix}${field.key}`}
+              value={value[field.key]}
+              onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+              rows={3}
+              className={className}
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default TargetFields;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { useBlocker } from '../context/BlockerContext';
+import { useSettings } from '../context/SettingsContext';
+import { formatDuration } from '../utils/timeUtils';
+import { Trash2, RotateCcw, FileText, ChevronLeft } from 'lucide-react';
+import { Link } from 'react-router-dom';
+
+const RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 14, label: '14 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' }
+];
+
+const TrashPage: React.FC = () => {
+  const { trash, restoreBlock, purgeTrashedBlock, emptyTrash } = useBlocker();
+  const { settings, updateSettings } = useSettings();
+
+  // Most recently deleted first
+  const sortedTrash = [...trash].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+  const handlePurge = (id: number) => {
+    if (window.confirm('Permanently delete this block? This cannot be restored from the trash.')) {
+      purgeTrashedBlock(id);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (window.confirm(`Permanently delete all ${trash.length} block${trash.length === 1 ? '' : 's'} in the trash?`)) {
+      emptyTrash();
+    }
+  };
+
+  const formatDateTime = (date: Date) => {
+    return date.toLocaleString([], {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-3xl font-bold text-gray-900">Trash</h2>
+        <Link 
+          to="/" 
+          className="bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium py-2 px-4 rounded-lg flex items-center"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to Dashboard
+        </Link>
+      </div>
+
+      <div className="flex justify-between items-center mb-6 p-4 bg-white rounded-lg shadow-sm">
+        <label htmlFor="trash-retention" className="flex items-center gap-2 text-sm text-gray-700">
+          Delete blocks from the trash after
+          <select
+            id="trash-retention"
+            value={settings.trashRetentionDays}
+            onChange={(e) => updateSettings({ trashRetentionDays: Number(e.target.value) })}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            {RETENTION_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleEmptyTrash}
+          disabled={trash.length === 0}
+          className="px-3 py-2 rounded-md text-sm font-medium flex items-center text-red-600 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Trash2 className="h-4 w-4 mr-1.5" />
+          Empty Trash
+        </button>
+      </div>
+
+      <div className="bg-white border rounded-lg p-6 shadow-sm">
+        <h2 className="text-lg font-semibold mb-4 text-gray-600 flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Deleted Blocks <span className="ml-2 bg-gray-100 text-gray-800 text-sm rounded-full px-2 py-0.5">{trash.length}</span>
+        </h2>
+
+        {sortedTrash.length === 0 ? (
+          <p className="text-gray-500 text-sm py-4">The trash is empty</p>
+        ) : (
+          <div className="space-y-3">
+            {sortedTrash.map(block => (
+              <div 
+                key={block.id} 
+                className="bg-gray-50 p-3 rounded transition-all duration-200 hover:bg-gray-100"
+              >
+                <div className="flex justify-between items-start gap-4">
+                  <div className="flex-grow">
+                    <div className="font-medium">{block.name}</div>
+                    <div className="text-sm text-gray-600 flex justify-between items-center mt-1">
+                      <span>
+                        {formatDateTime(block.startTime)} - {formatDateTime(block.endTime)}
+                      </span>
+                      <span className="text-xs bg-gray-200 text-gray-700 rounded-full px-2 py-0.5">
+                        {formatDuration(block.startTime, block.endTime)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      Deleted {formatDateTime(block.deletedAt)}
+                    </div>
+                    {block.notes && (
+                      <div className="mt-2 flex items-start gap-1.5">
+                        <FileText size={14} className="text-gray-500 mt-0.5 flex-shrink-0" />
+                        <p className="text-sm text-gray-600 italic">{block.notes}</p>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => restoreBlock(block.id)}
+                      className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                      title="Restore block"
+                    >
+                      <RotateCcw size={16} />
+                    </button>
+                    <button
+                      onClick={() => handlePurge(block.id)}
+                      className="p-1.5 text-red-600 hover:bg-red-50 rounded transition-colors"
+                      title="Delete forever"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -0,0 +1,76 @@
+import React, { useEffect } from 'react';
+import { Lock, RotateCcw, X } from 'lucide-react';
+import { useCommandHistory } from '../context/CommandHistoryContext';
+
+const TOAST_DURATION_MS = 8000;
+
+const UndoToast: React.FC = () => {
+  const { toastEntry, undo, dismissToast, refusal, dismissRefusal } = useCommandHistory();
+
+  // Hide automatically after a few seconds
+  useEffect(() => {
+    if (!toastEntry) return;
+
+    const timeout = window.setTimeout(dismissToast, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timeout);
+  }, [toastEntry, dismissToast]);
+
+  useEffect(() => {
+    if (!refusal) return;
+
+    const timeout = window.setTimeout(dismissRefusal, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timeout);
+  }, [refusal, dismissRefusal]);
+
+  // An undo, redo or restore that a lock refused
+  if (refusal) {
+    return (
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 max-w-lg w-full px-4">
+        <div className="flex items-start gap-3 bg-red-700 text-white rounded-lg shadow-lg px-4 py-3 text-sm" role="alert">
+          <Lock size={14} className="mt-0.5 flex-shrink-0" />
+          <span className="flex-grow">{refusal}</span>
+          <button
+            onClick={dismissRefusal}
+            className="text-red-200 hover:text-white transition-colors"
+            aria-label="Dismiss"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!toastEntry) {
+    return null;
+  }
+
+  const handleUndo = () => {
+    undo(toastEntry.id);
+    dismissToast();
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40">
+      <div className="flex items-center gap-4 bg-gray-900 text-white rounded-lg shadow-lg px-4 py-3 text-sm">
+        <span>{toastEntry.label}</span>
+        <button
+          onClick={handleUndo}
+          className="flex items-center gap-1 font-medium text-blue-300 hover:text-blue-200 transition-colors"
+          title="Undo (Ctrl+Z)"
+        >
+          <RotateCcw size={14} /> Undo
+        </button>
+        <button
+          onClick={dismissToast}
+          className="text-gray-400 hover:text-gray-200 transition-colors"
+          aria-label="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
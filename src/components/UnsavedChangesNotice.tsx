@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Download, AlertTriangle } from 'lucide-react';
+import { useDataStore } from '../context/DataStore';
+
+// Reminds the user to download a manually opened file, since changes only reach it that way
+const UnsavedChangesNotice: React.FC = () => {
+  const { backend } = useDataStore();
+  const manualFile = backend.manualFile;
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(() => manualFile?.hasUnsavedChanges() ?? false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    setHasUnsavedChanges(manualFile?.hasUnsavedChanges() ?? false);
+    return manualFile?.subscribe(setHasUnsavedChanges);
+  }, [manualFile]);
+
+  // The browser asks before closing the tab while the download is out of date
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  if (!manualFile || !hasUnsavedChanges) {
+    return null;
+  }
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await manualFile.download();
+    } catch (err) {
+      console.error('Error downloading data file:', err);
+      alert(`Could not download ${backend.label}.`);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm">
+      <div className="flex justify-between items-start gap-4">
+        <div className="flex items-start gap-2 text-amber-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">{backend.label} has unsaved changes</p>
+            <p className="text-amber-700">
+              This browser can't write to the file directly. Download it and replace your copy to keep the changes
+              outside this browser.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleDownload}
+          disabled={isDownloading}
+          className="flex items-center gap-1 px-3 py-1.5 bg-amber-500 text-white hover:bg-amber-600 rounded transition-colors disabled:opacity-50 flex-shrink-0"
+        >
+          <Download size={14} />
+          Download
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UnsavedChangesNotice;
@@ -3,21 +3,24 @@ import { Block } from '../types';
 import { formatDuration } from '../utils/timeUtils';
 import { CalendarClock, FileText, Trash2 } from 'lucide-react';
 import { BlockActions } from './BlockActions';
-import { useBlocker } from '../context/BlockerContext';
+import TagBadges from './TagBadges';
+import { useRecurrence } from '../context/RecurrenceContext';
 
 interface UpcomingBlocksListProps {
   blocks: Block[];
+  // Off while the list is filtered, since clearing removes every upcoming block
+  canClearAll?: boolean;
 }
 
-const UpcomingBlocksList: React.FC<UpcomingBlocksListProps> = ({ blocks }) => {
+const UpcomingBlocksList: React.FC<UpcomingBlocksListProps> = ({ blocks, canClearAll = true }) => {
   const [editingId, setEditingId] = useState<number | null>(null);
-  const { removeUpcomingBlocks } = useBlocker();
+  const { removeUpcomingBlocks } = useRecurrence();
 
   const handleBulkDelete = () => {
     if (blocks.length === 0) return;
     
     const confirmed = window.confirm(
-      `Are you sure you want to delete all ${blocks.length} upcoming block${blocks.length > 1 ? 's' : ''}? This action cannot be undone.`
+      `Move all ${blocks.length} upcoming block${blocks.length > 1 ? 's' : ''} to the trash? You can undo this with Ctrl+Z or restore them from the Trash page.`
     );
     
     if (confirmed) {
@@ -33,7 +36,7 @@ const UpcomingBlocksList: React.FC<UpcomingBlocksListProps> = ({ blocks }) => {
           Upcoming Blocks <span className="ml-2 bg-blue-100 text-blue-800 text-sm rounded-full px-2 py-0.5">{blocks.length}</span>
         </h2>
         
-        {blocks.length > 0 && (
+        {blocks.length > 0 && canClearAll && (
           <button
             onClick={handleBulkDelete}
             className="flex items-center gap-1 px-3 py-1 text-sm text-red-600 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
@@ -74,6 +77,7 @@ const UpcomingBlocksList: React.FC<UpcomingBlocksListProps> = ({ blocks }) => {
                   <div className="flex justify-between items-start">
                     <div className="flex-grow">
                       <div className="font-medium">{block.name}</div>
+                      <TagBadges block={block} />
                       <div className="text-sm text-gray-600 flex justify-between items-center mt-1">
                         <span>Starts: {startTimeDisplay}</span>
                         <span className="text-xs bg-gray-200 rounded-full px-2 py-0.5">
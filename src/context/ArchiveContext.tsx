@@ -0,0 +1,206 @@
+import React, { createContext, useState, useEffect, useContext, useMemo, useRef, useCallback } from 'react';
+import { Block } from '../types';
+import { useDataStore } from './DataStore';
+import { useBlocker } from './BlockerContext';
+import { useSettings } from './SettingsContext';
+import { getArchiveCutoff } from '../utils/archives';
+import {
+  ArchiveCodec,
+  ArchiveStore,
+  archiveBlocks,
+  createDirectoryArchiveStore,
+  createIndexedDBArchiveStore,
+  readArchive,
+  selectArchiveDirectory
+} from '../utils/archiveStorage';
+import { createEncryptionSession } from '../utils/fileStorage';
+import { openStoredText } from '../utils/encryption';
+import {
+  clearStoredArchiveDirectoryHandle,
+  getStoredArchiveDirectoryHandle,
+  saveArchiveDirectoryHandle,
+  verifyAndRequestPermission
+} from '../utils/fileHandleStorage';
+
+const ARCHIVE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+interface ArchiveContextType {
+  // Months with an archive, newest first
+  archivedMonths: string[];
+  // Null while archives go to IndexedDB
+  archiveDirectory: FileSystemDirectoryHandle | null;
+  // A directory was stored but access has to be granted again before it can be used
+  needsDirectoryPermission: boolean;
+  // False while the data syncs with a server, see below
+  canArchive: boolean;
+  chooseArchiveDirectory: () => Promise<void>;
+  reconnectArchiveDirectory: () => Promise<void>;
+  switchArchivesToBrowserStorage: () => Promise<void>;
+  archiveNow: () => Promise<void>;
+  // Archived blocks of one month, read once and then kept for the session
+  loadArchive: (month: string) => Promise<Block[]>;
+  loadedArchives: Record<string, Block[]>;
+  isArchiving: boolean;
+  error: string | null;
+}
+
+const ArchiveContext = createContext<ArchiveContextType | undefined>(undefined);
+
+export const useArchives = () => {
+  const context = useContext(ArchiveContext);
+  if (!context) {
+    throw new Error('useArchives must be used within an ArchiveProvider');
+  }
+  return context;
+};
+
+export const ArchiveProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isLoading, backend, updateData } = useDataStore();
+  const { blocks } = useBlocker();
+  const { settings } = useSettings();
+  const [archiveDirectory, setArchiveDirectory] = useState<FileSystemDirectoryHandle | null>(null);
+  const [storedDirectory, setStoredDirectory] = useState<FileSystemDirectoryHandle | null>(null);
+  const [archivedMonths, setArchivedMonths] = useState<string[]>([]);
+  const [loadedArchives, setLoadedArchives] = useState<Record<string, Block[]>>({});
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const store: ArchiveStore = useMemo(
+    () => archiveDirectory
+      ? createDirectoryArchiveStore(archiveDirectory, backend.sourceId)
+      : createIndexedDBArchiveStore(backend.sourceId),
+    [archiveDirectory, backend.sourceId]
+  );
+
+  // Archives of an encrypted data file are encrypted with the same key
+  // Removing archived blocks from synced data deletes them on the server and every other device,
+  // while the archive only exists here. Nothing is archived while the data syncs.
+  const canArchive = backend.kind !== 'syncServer';
+
+  const codec: ArchiveCodec = useMemo(() => backend.encryption ?? {
+    seal: async (text) => text,
+    open: (text) => openStoredText(text, createEncryptionSession(), 'this archive')
+  }, [backend]);
+
+  // Reuse a previously granted directory; asking again needs a click, so it is left to the user
+  useEffect(() => {
+    const loadDirectory = async () => {
+      const handle = await getStoredArchiveDirectoryHandle();
+      if (!handle) return;
+
+      try {
+        if (await handle.queryPermission({ mode: 'readwrite' }) === 'granted') {
+          setArchiveDirectory(handle);
+        } else {
+          setStoredDirectory(handle);
+        }
+      } catch (err) {
+        console.error('Error checking archive directory permission:', err);
+      }
+    };
+
+    loadDirectory();
+  }, []);
+
+  // Refresh the month list and forget loaded months whenever archives move or the data changes hands
+  useEffect(() => {
+    setLoadedArchives({});
+    store.list()
+      .then(setArchivedMonths)
+      .catch(err => {
+        console.error('Error listing archives:', err);
+        setError('Failed to read archives.');
+      });
+  }, [store, codec]);
+
+  // Blocks may change while archives are written, so removal works from the latest ones
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+
+  const archiveRef = useRef<(cutoff: Date | null) => Promise<void>>(async () => {});
+  archiveRef.current = async (cutoff) => {
+    if (!canArchive || isLoading || !cutoff || !blocks.some(block => block.endTime < cutoff)) return;
+
+    setIsArchiving(true);
+    try {
+      // Blocks leave the data only after their archive has been written
+      const archivedIds = new Set(await archiveBlocks(store, blocks, cutoff, codec));
+      updateData({ blocks: blocksRef.current.filter(block => !archivedIds.has(block.id)) });
+      setArchivedMonths(await store.list());
+      setLoadedArchives({});
+      setError(null);
+    } catch (err) {
+      console.error('Error archiving blocks:', err);
+      setError(archiveDirectory
+        ? `Failed to write archives to ${archiveDirectory.name}. Please check its permissions.`
+        : 'Failed to write archives to browser storage.');
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  // Check once the data has loaded and then hourly
+  useEffect(() => {
+    if (isLoading) return;
+
+    const run = () => archiveRef.current(getArchiveCutoff(settings.archiveAfterDays));
+    run();
+    const timer = setInterval(run, ARCHIVE_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoading, store, settings.archiveAfterDays]);
+
+  const chooseArchiveDirectory = async () => {
+    const handle = await selectArchiveDirectory();
+    if (!handle) return;
+
+    await saveArchiveDirectoryHandle(handle);
+    setStoredDirectory(null);
+    setArchiveDirectory(handle);
+  };
+
+  const reconnectArchiveDirectory = async () => {
+    if (!storedDirectory) return;
+
+    if (await verifyAndRequestPermission(storedDirectory)) {
+      setArchiveDirectory(storedDirectory);
+      setStoredDirectory(null);
+    } else {
+      setError(`Access to ${storedDirectory.name} was not granted.`);
+    }
+  };
+
+  const switchArchivesToBrowserStorage = async () => {
+    await clearStoredArchiveDirectoryHandle();
+    setStoredDirectory(null);
+    setArchiveDirectory(null);
+  };
+
+  const archiveNow = () => archiveRef.current(getArchiveCutoff(settings.archiveAfterDays));
+
+  const loadArchive = useCallback(async (month: string) => {
+    const archived = await readArchive(store, month, codec);
+    setLoadedArchives(loaded => ({ ...loaded, [month]: archived }));
+    return archived;
+  }, [store, codec]);
+
+  return (
+    <ArchiveContext.Provider
+      value={{
+        archivedMonths,
+        archiveDirectory,
+        needsDirectoryPermission: storedDirectory !== null,
+        canArchive,
+        chooseArchiveDirectory,
+        reconnectArchiveDirectory,
+        switchArchivesToBrowserStorage,
+        archiveNow,
+        loadArchive,
+        loadedArchives,
+        isArchiving,
+        error
+      }}
+    >
+      {children}
+    </ArchiveContext.Provider>
+  );
+};
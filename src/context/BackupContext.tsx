@@ -0,0 +1,193 @@
+import React, { createContext, useState, useEffect, useContext, useMemo, useRef } from 'react';
+import { useDataStore } from './DataStore';
+import { useCommandHistory } from './CommandHistoryContext';
+import { useBlocker } from './BlockerContext';
+import { useStandardBlocks } from './StandardBlocksContext';
+import { useSettings } from './SettingsContext';
+import { BackupSnapshotInfo, BACKUP_TIERS } from '../utils/backups';
+import { BackupStore, createDirectoryBackupStore, createIndexedDBBackupStore, runBackups, selectBackupDirectory } from '../utils/backupStorage';
+import { LoadedFileData, createEncryptionSession, parseFileData, serializeFileData } from '../utils/fileStorage';
+import { openStoredText } from '../utils/encryption';
+import { diffRecords } from '../utils/commandHistory';
+import {
+  clearStoredBackupDirectoryHandle,
+  getStoredBackupDirectoryHandle,
+  saveBackupDirectoryHandle,
+  verifyAndRequestPermission
+} from '../utils/fileHandleStorage';
+
+const BACKUP_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+interface BackupContextType {
+  snapshots: BackupSnapshotInfo[];
+  // Null while backups go to IndexedDB
+  backupDirectory: FileSystemDirectoryHandle | null;
+  // A directory was stored but access has to be granted again before it can be used
+  needsDirectoryPermission: boolean;
+  chooseBackupDirectory: () => Promise<void>;
+  reconnectBackupDirectory: () => Promise<void>;
+  switchBackupsToBrowserStorage: () => Promise<void>;
+  backupNow: () => Promise<void>;
+  readSnapshot: (id: string) => Promise<LoadedFileData>;
+  restoreSnapshot: (snapshot: BackupSnapshotInfo, data: LoadedFileData) => void;
+  isBackingUp: boolean;
+  error: string | null;
+}
+
+const BackupContext = createContext<BackupContextType | undefined>(undefined);
+
+export const useBackups = () => {
+  const context = useContext(BackupContext);
+  if (!context) {
+    throw new Error('useBackups must be used within a BackupProvider');
+  }
+  return context;
+};
+
+export const BackupProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isLoading, backend } = useDataStore();
+  const { execute } = useCommandHistory();
+  const { blocks, trash } = useBlocker();
+  const { standardBlocks } = useStandardBlocks();
+  const { settings } = useSettings();
+  const [backupDirectory, setBackupDirectory] = useState<FileSystemDirectoryHandle | null>(null);
+  const [storedDirectory, setStoredDirectory] = useState<FileSystemDirectoryHandle | null>(null);
+  const [snapshots, setSnapshots] = useState<BackupSnapshotInfo[]>([]);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  const store: BackupStore = useMemo(
+    () => backupDirectory
+      ? createDirectoryBackupStore(backupDirectory, backend.sourceId)
+      : createIndexedDBBackupStore(backend.sourceId),
+    [backupDirectory, backend.sourceId]
+  );
+  
+  // Reuse a previously granted directory; asking again needs a click, so it is left to the user
+  useEffect(() => {
+    const loadDirectory = async () => {
+      const handle = await getStoredBackupDirectoryHandle();
+      if (!handle) return;
+      
+      try {
+        if (await handle.queryPermission({ mode: 'readwrite' }) === 'granted') {
+          setBackupDirectory(handle);
+        } else {
+          setStoredDirectory(handle);
+        }
+      } catch (err) {
+        console.error('Error checking backup directory permission:', err);
+      }
+    };
+    
+    loadDirectory();
+  }, []);
+  
+  // Refresh the snapshot list whenever backups move to another location
+  useEffect(() => {
+    store.list()
+      .then(setSnapshots)
+      .catch(err => {
+        console.error('Error listing backups:', err);
+        setError('Failed to read backups.');
+      });
+  }, [store]);
+  
+  // Snapshot the data as it is now; nothing is written while there is no data to protect
+  const backupRef = useRef<(force: boolean) => Promise<void>>(async () => {});
+  backupRef.current = async (force) => {
+    if (isLoading || (blocks.length === 0 && standardBlocks.length === 0 && trash.length === 0)) return;
+    
+    const retention = settings.backupRetention;
+    const forcedTier = force ? BACKUP_TIERS.find(tier => retention[tier] > 0) : undefined;
+    
+    setIsBackingUp(true);
+    try {
+      // Backups of an encrypted data file are encrypted with the same key
+      const serialized = serializeFileData({ blocks, standardBlocks, trash });
+      const content = backend.encryption ? await backend.encryption.seal(serialized) : serialized;
+      setSnapshots(await runBackups(store, content, retention, new Date(), forcedTier ? [forcedTier] : []));
+      setError(null);
+    } catch (err) {
+      console.error('Error writing backup:', err);
+      setError(backupDirectory
+        ? `Failed to write a backup to ${backupDirectory.name}. Please check its permissions.`
+        : 'Failed to write a backup to browser storage.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+  
+  // Check once the data has loaded and then every few minutes
+  useEffect(() => {
+    if (isLoading) return;
+    
+    backupRef.current(false);
+    const timer = setInterval(() => backupRef.current(false), BACKUP_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoading, store]);
+  
+  const chooseBackupDirectory = async () => {
+    const handle = await selectBackupDirectory();
+    if (!handle) return;
+    
+    await saveBackupDirectoryHandle(handle);
+    setStoredDirectory(null);
+    setBackupDirectory(handle);
+  };
+  
+  const reconnectBackupDirectory = async () => {
+    if (!storedDirectory) return;
+    
+    if (await verifyAndRequestPermission(storedDirectory)) {
+      setBackupDirectory(storedDirectory);
+      setStoredDirectory(null);
+    } else {
+      setError(`Access to ${storedDirectory.name} was not granted.`);
+    }
+  };
+  
+  const switchBackupsToBrowserStorage = async () => {
+    await clearStoredBackupDirectoryHandle();
+    setStoredDirectory(null);
+    setBackupDirectory(null);
+  };
+  
+  const backupNow = () => backupRef.current(true);
+  
+  const readSnapshot = async (id: string) => {
+    const content = await store.read(id);
+    return parseFileData(backend.encryption
+      ? await backend.encryption.open(content)
+      : await openStoredText(content, createEncryptionSession(), 'this backup'));
+  };
+  
+  // Swap the snapshot's records in as one undoable change
+  const restoreSnapshot = (snapshot: BackupSnapshotInfo, data: LoadedFileData) => {
+    execute(`Restore backup from ${snapshot.createdAt.toLocaleString()}`, {
+      blocks: diffRecords(blocks, data.blocks),
+      standardBlocks: diffRecords(standardBlocks, data.standardBlocks),
+      trash: diffRecords(trash, data.trash)
+    }, true);
+  };
+  
+  return (
+    <BackupContext.Provider
+      value={{
+        snapshots,
+        backupDirectory,
+        needsDirectoryPermission: storedDirectory !== null,
+        chooseBackupDirectory,
+        reconnectBackupDirectory,
+        switchBackupsToBrowserStorage,
+        backupNow,
+        readSnapshot,
+        restoreSnapshot,
+        isBackingUp,
+        error
+      }}
+    >
+      {children}
+    </BackupContext.Provider>
+  );
+};
@@ -1,13 +1,38 @@
-import React, { createContext, useState, useEffect, useContext } from 'react';
-import { Block } from '../types';
-import { useFileDataStore } from './FileDataStore';
+import React, { createContext, useState, useEffect, useContext, useRef } from 'react';
+import { Block, TrashedBlock } from '../types';
+import { EditableData, useDataStore } from './DataStore';
+import { useCommandHistory } from './CommandHistoryContext';
+import { useSettings } from './SettingsContext';
+import { HistoryChanges, HistoryDirection, RecordChange, applyRecordChanges, diffRecords } from '../utils/commandHistory';
+import { isTrashExpired, moveToTrash, restoreFromTrash } from '../utils/trash';
+import { getLockViolation, getReplacementLockViolation, getUnlockProblem, isLockEnforced, unlockBlock } from '../utils/locks';
+import { endBlockEarly } from '../utils/breaks';
+import { extendBlock, getEffectiveEndTime, pauseBlock, resumeBlock } from '../utils/adjustments';
+
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
 
 interface BlockerContextType {
   blocks: Block[];
   addBlock: (block: Omit<Block, 'id'>) => void;
-  updateBlock: (id: number, block: Omit<Block, 'id'>) => void;
-  removeBlock: (id: number) => void;
-  removeUpcomingBlocks: () => void;
+  importBlocks: (blocks: Omit<Block, 'id'>[], label: string) => void;
+  // Both refuse to shorten or remove a locked active block and return false
+  updateBlock: (id: number, block: Omit<Block, 'id'>) => boolean;
+  removeBlock: (id: number) => boolean;
+  // End an active block early, keeping its planned end; refused for locked blocks
+  endBlockNow: (id: number, reason: string) => boolean;
+  // Quick changes to a running block, each logged in its activity
+  extendBlock: (id: number, endTime: Date) => void;
+  pauseBlock: (id: number) => void;
+  resumeBlock: (id: number) => void;
+  // Emergency unlock: start the cooldown, then finish it with the confirmation phrase
+  requestUnlock: (id: number) => void;
+  cancelUnlock: (id: number) => void;
+  // Returns why the unlock can't be finished yet, or null once it's done
+  emergencyUnlock: (id: number, phrase: string, reason: string) => string | null;
+  trash: TrashedBlock[];
+  restoreBlock: (id: number) => void;
+  purgeTrashedBlock: (id: number) => void;
+  emptyTrash: () => void;
   currentTime: Date;
 }
 
@@ -21,57 +46,82 @@ export const useBlocker = () => {
   return context;
 };
 
-const STORAGE_KEY = 'tech-blocker-blocks';
-
 export const BlockerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const fileDataStore = useFileDataStore();
-  const [localBlocks, setLocalBlocks] = useState<Block[]>([]);
+  const { blocks: localBlocks, trash: localTrash, updateData } = useDataStore();
+  const history = useCommandHistory();
+  const { settings } = useSettings();
   const [currentTime, setCurrentTime] = useState<Date>(() => new Date());
   
-  // Sync with file data store or localStorage
+  // Update currentTime every second
   useEffect(() => {
-    if (fileDataStore.fileHandle) {
-      // Use file data
-      setLocalBlocks(fileDataStore.blocks);
-    } else {
-      // Use localStorage
-      try {
-        const savedBlocks = localStorage.getItem(STORAGE_KEY);
-        if (savedBlocks) {
-          const parsedBlocks = JSON.parse(savedBlocks, (key, value) => {
-            if (key === 'startTime' || key === 'endTime') {
-              return new Date(value);
-            }
-            return value;
-          });
-          
-          if (Array.isArray(parsedBlocks)) {
-            setLocalBlocks(parsedBlocks);
-          }
-        }
-      } catch (error) {
-        console.error('Error loading blocks from localStorage:', error);
-      }
+    const timer = setInterval(() => {
+      setCurrentTime(new Date());
+    }, 1000);
+    
+    return () => clearInterval(timer);
+  }, []);
+  
+  // Persist a mutation and record it so it can be undone. Blocks and trash are saved in one go
+  // because deleting and restoring move a block from one to the other.
+  const commitData = (changes: Pick<Partial<EditableData>, 'blocks' | 'trash'>, label: string, destructive = false) => {
+    const recorded: HistoryChanges = {};
+    if (changes.blocks) recorded.blocks = diffRecords(localBlocks, changes.blocks);
+    if (changes.trash) recorded.trash = diffRecords(localTrash, changes.trash);
+    history.record(label, recorded, destructive);
+    updateData(changes);
+  };
+  
+  const commitBlocks = (updatedBlocks: Block[], label: string, destructive = false) => {
+    commitData({ blocks: updatedBlocks }, label, destructive);
+  };
+  
+  // Undo and redo replay recorded changes onto the latest blocks and trash
+  const applyHistoryRef = useRef<(changes: HistoryChanges, direction: HistoryDirection) => void>(() => {});
+  applyHistoryRef.current = (changes, direction) => {
+    const updated: Partial<EditableData> = {};
+    if (changes.blocks) {
+      updated.blocks = applyRecordChanges(localBlocks, changes.blocks as RecordChange<Block>[], direction);
+    }
+    if (changes.trash) {
+      updated.trash = applyRecordChanges(localTrash, changes.trash as RecordChange<TrashedBlock>[], direction);
     }
-  }, [fileDataStore.fileHandle, fileDataStore.blocks]);
+    if (updated.blocks || updated.trash) {
+      updateData(updated);
+    }
+  };
+  
+  // Undo, redo and restoring a backup can't remove, shorten or unlock a locked active block either
+  const guardHistoryRef = useRef<(changes: HistoryChanges, direction: HistoryDirection) => string | null>(() => null);
+  guardHistoryRef.current = (changes, direction) => {
+    if (!changes.blocks) return null;
+    const updated = applyRecordChanges(localBlocks, changes.blocks as RecordChange<Block>[], direction);
+    return getReplacementLockViolation(localBlocks, updated);
+  };
+  
+  const { registerApplier, registerGuard } = history;
+  useEffect(() => {
+    return registerApplier('blocks', (changes, direction) => applyHistoryRef.current(changes, direction));
+  }, [registerApplier]);
   
-  // Save to localStorage when not using file
   useEffect(() => {
-    if (!fileDataStore.fileHandle && localBlocks.length > 0) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(localBlocks));
-      } catch (error) {
-        console.error('Error saving blocks to localStorage:', error);
-      }
+    return registerGuard('blocks', (changes, direction) => guardHistoryRef.current(changes, direction));
+  }, [registerGuard]);
+  
+  // Purge trashed blocks past the retention period when the trash loads and then hourly
+  const purgeExpiredRef = useRef<() => void>(() => {});
+  purgeExpiredRef.current = () => {
+    const kept = localTrash.filter(trashed => !isTrashExpired(trashed, settings.trashRetentionDays));
+    if (kept.length < localTrash.length) {
+      updateData({ trash: kept });
     }
-  }, [localBlocks, fileDataStore.fileHandle]);
+  };
   
-  // Update currentTime every second
   useEffect(() => {
-    const timer = setInterval(() => {
-      setCurrentTime(new Date());
-    }, 1000);
-    
+    purgeExpiredRef.current();
+  }, [localTrash, settings.trashRetentionDays]);
+  
+  useEffect(() => {
+    const timer = setInterval(() => purgeExpiredRef.current(), TRASH_PURGE_INTERVAL_MS);
     return () => clearInterval(timer);
   }, []);
   
@@ -81,41 +131,125 @@ export const BlockerProvider: React.FC<{ children: React.ReactNode }> = ({ child
       id: Date.now()
     };
     
-    const updatedBlocks = [...localBlocks, newBlock];
-    setLocalBlocks(updatedBlocks);
+    commitBlocks([...localBlocks, newBlock], `Add "${newBlock.name}"`);
+  };
+
+  // Add several blocks as one undoable change
+  const importBlocks = (blocks: Omit<Block, 'id'>[], label: string) => {
+    const baseId = Date.now();
+    const newBlocks = blocks.map((block, index) => ({ ...block, id: baseId + index }));
     
-    if (fileDataStore.fileHandle) {
-      fileDataStore.updateBlocks(updatedBlocks);
-    }
+    commitBlocks([...localBlocks, ...newBlocks], label);
   };
 
   const updateBlock = (id: number, block: Omit<Block, 'id'>) => {
+    const existing = localBlocks.find(b => b.id === id);
+    if (existing && getLockViolation(existing, block)) return false;
+    
     const updatedBlocks = localBlocks.map(b => 
       b.id === id ? { ...block, id } : b
     );
-    setLocalBlocks(updatedBlocks);
-    
-    if (fileDataStore.fileHandle) {
-      fileDataStore.updateBlocks(updatedBlocks);
-    }
+    commitBlocks(updatedBlocks, `Edit "${block.name}"`);
+    return true;
   };
   
   const removeBlock = (id: number) => {
-    const updatedBlocks = localBlocks.filter(block => block.id !== id);
-    setLocalBlocks(updatedBlocks);
+    const removed = localBlocks.find(block => block.id === id);
+    if (!removed || getLockViolation(removed, null)) return false;
     
-    if (fileDataStore.fileHandle) {
-      fileDataStore.updateBlocks(updatedBlocks);
-    }
+    commitData({
+      blocks: localBlocks.filter(block => block.id !== id),
+      trash: [...localTrash, moveToTrash(removed)]
+    }, `Delete "${removed.name}"`, true);
+    return true;
+  };
+
+  const endBlockNow = (id: number, reason: string) => {
+    const block = localBlocks.find(b => b.id === id);
+    const now = new Date();
+    if (!block || now < block.startTime || now >= getEffectiveEndTime(block, now)) return false;
+
+    const ended = endBlockEarly(block, reason, now);
+    if (getLockViolation(block, ended, now)) return false;
+
+    commitBlocks(localBlocks.map(b => b.id === id ? ended : b), `End "${block.name}" early`);
+    return true;
+  };
+
+  // Replace one block with its adjusted version, unless the adjustment didn't apply
+  const adjustBlock = (id: number, adjust: (block: Block) => Block | null, label: (block: Block) => string) => {
+    const block = localBlocks.find(b => b.id === id);
+    const adjusted = block ? adjust(block) : null;
+    if (!block || !adjusted) return;
+    commitBlocks(localBlocks.map(b => b.id === id ? adjusted : b), label(block));
+  };
+
+  const extend = (id: number, endTime: Date) => {
+    adjustBlock(id, block => extendBlock(block, endTime), block => `Extend "${block.name}"`);
+  };
+
+  // A locked block can't be paused, since that would let it stop blocking
+  const pause = (id: number) => {
+    adjustBlock(id, block => isLockEnforced(block) ? null : pauseBlock(block), block => `Pause "${block.name}"`);
+  };
+
+  const resume = (id: number) => {
+    adjustBlock(id, block => resumeBlock(block), block => `Resume "${block.name}"`);
   };
 
-  const removeUpcomingBlocks = () => {
-    const updatedBlocks = localBlocks.filter(block => currentTime >= block.startTime);
-    setLocalBlocks(updatedBlocks);
+  const setUnlockRequest = (id: number, unlockRequestedAt: string | undefined, label: string) => {
+    commitBlocks(localBlocks.map(block => block.id === id ? { ...block, unlockRequestedAt } : block), label);
+  };
+
+  const requestUnlock = (id: number) => {
+    const block = localBlocks.find(b => b.id === id);
+    if (!block || block.unlockRequestedAt) return;
+    setUnlockRequest(id, new Date().toISOString(), `Start unlocking "${block.name}"`);
+  };
+
+  const cancelUnlock = (id: number) => {
+    const block = localBlocks.find(b => b.id === id);
+    if (!block?.unlockRequestedAt) return;
+    setUnlockRequest(id, undefined, `Cancel unlocking "${block.name}"`);
+  };
+
+  const emergencyUnlock = (id: number, phrase: string, reason: string) => {
+    const block = localBlocks.find(b => b.id === id);
+    if (!block) return 'This block no longer exists.';
+
+    const problem = getUnlockProblem(block, phrase);
+    if (problem) return problem;
+
+    commitBlocks(localBlocks.map(b => b.id === id ? unlockBlock(block, reason) : b), `Emergency unlock "${block.name}"`);
+    return null;
+  };
+
+  const restoreBlock = (id: number) => {
+    const trashed = localTrash.find(block => block.id === id);
+    if (!trashed) return;
     
-    if (fileDataStore.fileHandle) {
-      fileDataStore.updateBlocks(updatedBlocks);
-    }
+    // A block with the same id may already be back, e.g. after undoing the delete elsewhere
+    const blocks = localBlocks.some(block => block.id === id)
+      ? localBlocks
+      : [...localBlocks, restoreFromTrash(trashed)];
+    commitData({
+      blocks,
+      trash: localTrash.filter(block => block.id !== id)
+    }, `Restore "${trashed.name}"`);
+  };
+  
+  const purgeTrashedBlock = (id: number) => {
+    const trashed = localTrash.find(block => block.id === id);
+    if (!trashed) return;
+    
+    commitData({
+      trash: localTrash.filter(block => block.id !== id)
+    }, `Permanently delete "${trashed.name}"`, true);
+  };
+  
+  const emptyTrash = () => {
+    const count = localTrash.length;
+    commitData({ trash: [] }, `Empty trash (${count} block${count === 1 ? '' : 's'})`, true);
   };
   
   return (
@@ -123,9 +257,20 @@ export const BlockerProvider: React.FC<{ children: React.ReactNode }> = ({ child
       value={{
         blocks: localBlocks,
         addBlock,
+        importBlocks,
         updateBlock,
         removeBlock,
-        removeUpcomingBlocks,
+        endBlockNow,
+        extendBlock: extend,
+        pauseBlock: pause,
+        resumeBlock: resume,
+        requestUnlock,
+        cancelUnlock,
+        emergencyUnlock,
+        trash: localTrash,
+        restoreBlock,
+        purgeTrashedBlock,
+        emptyTrash,
         currentTime,
       }}
     >
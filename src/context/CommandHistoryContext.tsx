@@ -0,0 +1,208 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, useRef } from 'react';
+import { useDataStore } from './DataStore';
+import {
+  HistoryChanges,
+  HistoryDirection,
+  HistoryEntry,
+  HistoryStacks,
+  MAX_HISTORY_ENTRIES,
+  hasChanges,
+  loadHistory,
+  saveHistory
+} from '../utils/commandHistory';
+
+// Each provider applies the parts of an entry's changes that belong to the collections it owns
+type ChangeApplier = (changes: HistoryChanges, direction: HistoryDirection) => void;
+// Says why changes can't be applied right now, e.g. because they would break a lock, or null if they can
+type ChangeGuard = (changes: HistoryChanges, direction: HistoryDirection) => string | null;
+
+interface CommandHistoryContextType {
+  record: (label: string, changes: HistoryChanges, destructive?: boolean) => void;
+  // Record changes that no provider has made yet and apply them through the registered appliers.
+  // Returns false if a guard refused them.
+  execute: (label: string, changes: HistoryChanges, destructive?: boolean) => boolean;
+  // Passing an entry id only undoes if that entry is still the most recent one
+  undo: (entryId?: number) => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  registerApplier: (owner: string, apply: ChangeApplier) => () => void;
+  registerGuard: (owner: string, guard: ChangeGuard) => () => void;
+  toastEntry: HistoryEntry | null;
+  dismissToast: () => void;
+  // Why the last undo, redo or executed change was refused
+  refusal: string | null;
+  dismissRefusal: () => void;
+}
+
+const CommandHistoryContext = createContext<CommandHistoryContextType | undefined>(undefined);
+
+export const useCommandHistory = () => {
+  const context = useContext(CommandHistoryContext);
+  if (!context) {
+    throw new Error('useCommandHistory must be used within a CommandHistoryProvider');
+  }
+  return context;
+};
+
+// Text fields keep their native undo behaviour
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const CommandHistoryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { backend } = useDataStore();
+  const [stacks, setStacks] = useState<HistoryStacks>(() => loadHistory());
+  const [toastEntry, setToastEntry] = useState<HistoryEntry | null>(null);
+  const [refusal, setRefusal] = useState<string | null>(null);
+  const appliers = useRef<Record<string, ChangeApplier>>({});
+  const guards = useRef<Record<string, ChangeGuard>>({});
+
+  // Persist for the rest of the browser session
+  useEffect(() => {
+    saveHistory(stacks);
+  }, [stacks]);
+
+  // History recorded against one data source must not be replayed onto another
+  const previousBackend = useRef(backend);
+  useEffect(() => {
+    if (previousBackend.current !== backend) {
+      previousBackend.current = backend;
+      setStacks({ undo: [], redo: [] });
+      setToastEntry(null);
+    }
+  }, [backend]);
+
+  const registerApplier = useCallback((owner: string, apply: ChangeApplier) => {
+    appliers.current[owner] = apply;
+    return () => {
+      if (appliers.current[owner] === apply) {
+        delete appliers.current[owner];
+      }
+    };
+  }, []);
+
+  const registerGuard = useCallback((owner: string, guard: ChangeGuard) => {
+    guards.current[owner] = guard;
+    return () => {
+      if (guards.current[owner] === guard) {
+        delete guards.current[owner];
+      }
+    };
+  }, []);
+
+  // Apply changes through every applier, unless a guard refuses them; then nothing is applied
+  // and `attempt` describes what was refused
+  const applyChanges = useCallback((changes: HistoryChanges, direction: HistoryDirection, attempt: string) => {
+    const problem = Object.values(guards.current)
+      .map(guard => guard(changes, direction))
+      .find(result => result !== null);
+    setRefusal(problem ? `${attempt} was refused. ${problem}` : null);
+    if (problem) return false;
+
+    Object.values(appliers.current).forEach(apply => apply(changes, direction));
+    return true;
+  }, []);
+
+  const record = useCallback((label: string, changes: HistoryChanges, destructive = false) => {
+    if (!hasChanges(changes)) return;
+
+    const entry: HistoryEntry = {
+      id: Date.now(),
+      label,
+      changes,
+      destructive,
+      createdAt: new Date().toISOString()
+    };
+
+    setStacks(previous => ({
+      undo: [...previous.undo, entry].slice(-MAX_HISTORY_ENTRIES),
+      redo: []
+    }));
+    setToastEntry(destructive ? entry : null);
+  }, []);
+
+  const execute = useCallback((label: string, changes: HistoryChanges, destructive = false) => {
+    if (!hasChanges(changes)) return true;
+    if (!applyChanges(changes, 'redo', label)) return false;
+
+    record(label, changes, destructive);
+    return true;
+  }, [record, applyChanges]);
+
+  const undo = useCallback((entryId?: number) => {
+    const entry = stacks.undo[stacks.undo.length - 1];
+    if (!entry || (entryId !== undefined && entry.id !== entryId)) return;
+    if (!applyChanges(entry.changes, 'undo', `Undo of ${entry.label}`)) return;
+
+    setStacks({
+      undo: stacks.undo.slice(0, -1),
+      redo: [...stacks.redo, entry]
+    });
+    setToastEntry(null);
+  }, [stacks, applyChanges]);
+
+  const redo = useCallback(() => {
+    const entry = stacks.redo[stacks.redo.length - 1];
+    if (!entry) return;
+    if (!applyChanges(entry.changes, 'redo', `Redo of ${entry.label}`)) return;
+
+    setStacks({
+      undo: [...stacks.undo, entry],
+      redo: stacks.redo.slice(0, -1)
+    });
+  }, [stacks, applyChanges]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const dismissToast = useCallback(() => {
+    setToastEntry(null);
+  }, []);
+
+  const dismissRefusal = useCallback(() => {
+    setRefusal(null);
+  }, []);
+
+  return (
+    <CommandHistoryContext.Provider
+      value={{
+        record,
+        execute,
+        undo,
+        redo,
+        canUndo: stacks.undo.length > 0,
+        canRedo: stacks.redo.length > 0,
+        undoLabel: stacks.undo[stacks.undo.length - 1]?.label ?? null,
+        redoLabel: stacks.redo[stacks.redo.length - 1]?.label ?? null,
+        registerApplier,
+        registerGuard,
+        toastEntry,
+        dismissToast,
+        refusal,
+        dismissRefusal
+      }}
+    >
+      {children}
+    </CommandHistoryContext.Provider>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, useRef } from 'react';
+import { Block, QuarantinedEntry, StandardBlock, TrashedBlock } from '../types';
+import { FileData, LoadedFileData } from '../utils/fileStorage';
+import { NewerSchemaVersionError, isNewerSchemaVersion } from '../utils/migrations';
+import { DataConflict, applyConflictChoice, mergeFileData, stableStringify } from '../utils/merge';
+import { StorageBackend } from '../storage/storageBackend';
+import { SyncConflictError } from '../storage/syncBackend';
+import { PassphraseRequiredError } from '../utils/encryption';
+import { getReplacementLockViolation } from '../utils/locks';
+
+export type ConflictChoice = 'local' | 'remote';
+
+// Collections that the providers edit; updated together so one save never undoes another
+export type EditableData = Pick<FileData, 'blocks' | 'standardBlocks'> & { trash: TrashedBlock[] };
+
+interface DataStoreType {
+  blocks: Block[];
+  standardBlocks: StandardBlock[];
+  trash: TrashedBlock[];
+  updateData: (changes: Partial<EditableData>) => void;
+  quarantine: QuarantinedEntry[];
+  clearQuarantine: () => void;
+  conflicts: DataConflict[];
+  // Returns why choices were refused because they would break a lock; those conflicts keep the local version
+  resolveConflicts: (choices: ConflictChoice[]) => string[];
+  backend: StorageBackend;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const DataStoreContext = createContext<DataStoreType | undefined>(undefined);
+
+export const useDataStore = () => {
+  const context = useContext(DataStoreContext);
+  if (!context) {
+    throw new Error('useDataStore must be used within a DataStoreProvider');
+  }
+  return context;
+};
+
+// Errors whose message tells the user what to do, shown instead of a generic failure
+const hasUserFacingMessage = (err: unknown): err is Error => {
+  return err instanceof NewerSchemaVersionError || err instanceof SyncConflictError || err instanceof PassphraseRequiredError;
+};
+
+// Compare the stored collections, ignoring schema version and load bookkeeping
+const hasSameContent = (a: FileData, b: FileData): boolean => {
+  const content = (data: FileData) => stableStringify({
+    blocks: data.blocks,
+    standardBlocks: data.standardBlocks,
+    trash: data.trash ?? [],
+    quarantine: data.quarantine ?? []
+  });
+  return content(a) === content(b);
+};
+
+export const DataStoreProvider: React.FC<{
+  children: React.ReactNode;
+  backend: StorageBackend;
+}> = ({ children, backend }) => {
+  const [blocks, setBlocks] = useState<Block[]>([]);
+  const [standardBlocks, setStandardBlocks] = useState<StandardBlock[]>([]);
+  const [trash, setTrash] = useState<TrashedBlock[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedEntry[]>([]);
+  const [conflicts, setConflicts] = useState<DataConflict[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Queue for write operations to prevent race conditions
+  const writeQueue = useRef(Promise.resolve());
+  const pendingWrites = useRef(0);
+  
+  // Last content known to be stored; local edits are based on it
+  const storedData = useRef<FileData>({ blocks: [], standardBlocks: [], trash: [], quarantine: [] });
+  
+  // Latest data handed to React; updates build on it so that several providers saving in the
+  // same tick (e.g. undoing a change that spans collections) don't overwrite each other
+  const latestData = useRef<FileData>(storedData.current);
+  
+  const applyData = useCallback((data: FileData) => {
+    latestData.current = data;
+    setBlocks(data.blocks);
+    setStandardBlocks(data.standardBlocks);
+    setTrash(data.trash ?? []);
+    setQuarantine(data.quarantine ?? []);
+  }, []);
+  
+  // Queued write function. If the stored data changed since the data this write is based on,
+  // the local edits are merged with the stored content instead of replacing it.
+  const queueWrite = useCallback(async (data: FileData) => {
+    const base = storedData.current;
+    pendingWrites.current += 1;
+    
+    // Queue this write after any pending writes
+    writeQueue.current = writeQueue.current
+      .then(async () => {
+        try {
+          const remote = backend.capabilities.externalChanges ? await backend.load() : storedData.current;
+          
+          let toWrite = data;
+          if (!hasSameContent(remote, base)) {
+            const result = mergeFileData(base, data, remote);
+            toWrite = result.data;
+            applyData(toWrite);
+            if (result.conflicts.length > 0) {
+              setConflicts(previous => [...previous, ...result.conflicts]);
+            }
+          }
+          
+          await backend.save(toWrite);
+          storedData.current = toWrite;
+        } catch (err) {
+          console.error('Error saving data:', err);
+          setError(hasUserFacingMessage(err)
+            ? err.message
+            : backend.capabilities.userVisibleFile
+              ? 'Failed to save changes. Please check file permissions.'
+              : `Failed to save changes to ${backend.label.toLowerCase()}.`);
+        } finally {
+          pendingWrites.current -= 1;
+        }
+      })
+      .catch(console.error);
+    
+    return writeQueue.current;
+  }, [backend, applyData]);
+  
+  // Apply freshly loaded data, moving any newly found malformed entries out of the main collections
+  const applyLoadedData = useCallback((loaded: LoadedFileData) => {
+    const data: FileData = {
+      schemaVersion: loaded.schemaVersion,
+      blocks: loaded.blocks,
+      standardBlocks: loaded.standardBlocks,
+      trash: loaded.trash,
+      quarantine: loaded.quarantine
+    };
+    storedData.current = data;
+    applyData(data);
+    
+    if (loaded.newlyQuarantined.length > 0) {
+      queueWrite(data);
+    }
+  }, [applyData, queueWrite]);
+  
+  // Load data when the backend changes
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setConflicts([]);
+    
+    const loadData = async () => {
+      try {
+        const data = await backend.load();
+        if (cancelled) return;
+        
+        if (data.schemaVersion && isNewerSchemaVersion(data.schemaVersion)) {
+          setError(new NewerSchemaVersionError(data.schemaVersion).message);
+        }
+        applyLoadedData(data);
+      } catch (err) {
+        console.error('Error loading data:', err);
+        if (cancelled) return;
+        setError(err instanceof PassphraseRequiredError
+          ? `${err.message} Reload the page to enter it again.`
+          : backend.capabilities.userVisibleFile
+            ? 'Failed to load file. Please check permissions and try again.'
+            : `Failed to load data from ${backend.label.toLowerCase()}.`);
+        // Don't reset data on error - keep what we have
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    
+    loadData();
+    return () => {
+      cancelled = true;
+    };
+  }, [backend, applyLoadedData]);
+  
+  // Changes made elsewhere. While writes are pending they merge the change themselves.
+  useEffect(() => {
+    return backend.subscribe(data => {
+      if (pendingWrites.current === 0) {
+        applyLoadedData(data);
+      }
+    });
+  }, [backend, applyLoadedData]);
+  
+  // Update function that triggers saves
+  const updateData = useCallback((changes: Partial<EditableData>) => {
+    const next: FileData = { ...latestData.current, ...changes };
+    applyData(next);
+    queueWrite(next);
+  }, [applyData, queueWrite]);
+  
+  // Drop quarantined entries once they have been repaired or are no longer wanted
+  const clearQuarantine = useCallback(() => {
+    const next: FileData = { ...latestData.current, quarantine: [] };
+    applyData(next);
+    queueWrite(next);
+  }, [applyData, queueWrite]);
+  
+  // Apply the chosen version of each conflicting record, in the order of `conflicts`
+  const resolveConflicts = useCallback((choices: ConflictChoice[]) => {
+    let resolvedBlocks = blocks;
+    let resolvedStandardBlocks = standardBlocks;
+    const refused: string[] = [];
+    
+    conflicts.forEach((conflict, index) => {
+      const choice = choices[index] ?? 'local';
+      if (conflict.collection === 'blocks') {
+        const resolved = applyConflictChoice(resolvedBlocks, conflict, choice);
+        const violation = getReplacementLockViolation(resolvedBlocks, resolved);
+        if (violation) {
+          refused.push(violation);
+        } else {
+          resolvedBlocks = resolved;
+        }
+      } else {
+        resolvedStandardBlocks = applyConflictChoice(resolvedStandardBlocks, conflict, choice);
+      }
+    });
+    
+    setConflicts([]);
+    updateData({ blocks: resolvedBlocks, standardBlocks: resolvedStandardBlocks });
+    return refused;
+  }, [blocks, standardBlocks, conflicts, updateData]);
+  
+  return (
+    <DataStoreContext.Provider
+      value={{
+        blocks,
+        standardBlocks,
+        trash,
+        updateData,
+        quarantine,
+        clearQuarantine,
+        conflicts,
+        resolveConflicts,
+        backend,
+        isLoading,
+        error
+      }}
+    >
+      {children}
+    </DataStoreContext.Provider>
+  );
+};
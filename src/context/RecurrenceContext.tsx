@@ -0,0 +1,250 @@
+import React, { createContext, useEffect, useContext, useRef } from 'react';
+import { Block, RecurrenceRule, StandardBlock, TrashedBlock } from '../types';
+import { useDataStore } from './DataStore';
+import { useCommandHistory } from './CommandHistoryContext';
+import { useBlocker } from './BlockerContext';
+import { useStandardBlocks } from './StandardBlocksContext';
+import { diffRecords } from '../utils/commandHistory';
+import { moveToTrash } from '../utils/trash';
+import { getLockViolation } from '../utils/locks';
+import { BlockMerge, applyMerges, findOverlapGroups, getMergedBlock } from '../utils/overlaps';
+import {
+  applyScheduleToOccurrence,
+  createSchedule,
+  getDuplicateOccurrenceIds,
+  getMissingOccurrences,
+  skipOccurrences
+} from '../utils/recurrence';
+
+const GENERATION_INTERVAL_MS = 60 * 60 * 1000;
+
+interface RecurrenceContextType {
+  // The standard block whose schedule an occurrence belongs to, while it still repeats
+  getSeries: (block: Block) => StandardBlock | undefined;
+  // Repeat a new block by the rule; its standard block holds the schedule
+  repeatBlock: (block: Omit<Block, 'id'>, rule: RecurrenceRule) => void;
+  // Apply an edited occurrence's time of day, duration, name and notes to every upcoming occurrence
+  updateSeries: (block: Block, changes: Omit<Block, 'id'>) => void;
+  skipOccurrence: (block: Block) => void;
+  // Move every upcoming block to the trash, skipping the occurrences among them
+  removeUpcomingBlocks: () => void;
+  // Stop repeating and delete the occurrences that haven't started
+  stopSeries: (seriesId: number) => void;
+  // Merge same-name blocks into one continuous block and move the rest to the trash, skipping the
+  // occurrences among them. `incoming` is a new block, or the edited version of one of the ids,
+  // merged in too. Returns false if a lock refuses it.
+  mergeBlocks: (ids: number[], incoming?: Omit<Block, 'id'> & { id?: number }) => boolean;
+  // Merge every group of overlapping same-name blocks as one change; returns how many groups were merged
+  mergeOverlaps: () => number;
+}
+
+const RecurrenceContext = createContext<RecurrenceContextType | undefined>(undefined);
+
+export const useRecurrence = () => {
+  const context = useContext(RecurrenceContext);
+  if (!context) {
+    throw new Error('useRecurrence must be used within a RecurrenceProvider');
+  }
+  return context;
+};
+
+export const RecurrenceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isLoading, updateData } = useDataStore();
+  const { execute } = useCommandHistory();
+  const { blocks, trash } = useBlocker();
+  const { standardBlocks } = useStandardBlocks();
+
+  // Create upcoming occurrences when the data loads, whenever it changes and then hourly.
+  // Like purging the trash, this isn't an undoable change.
+  const generateRef = useRef<() => void>(() => {});
+  generateRef.current = () => {
+    if (isLoading) return;
+
+    const duplicates = new Set(getDuplicateOccurrenceIds(blocks));
+    const missing = getMissingOccurrences(standardBlocks, [...blocks, ...trash]);
+    if (duplicates.size === 0 && missing.length === 0) return;
+
+    const baseId = Date.now();
+    updateData({
+      blocks: [
+        ...blocks.filter(block => !duplicates.has(block.id)),
+        ...missing.map((occurrence, index) => ({ ...occurrence, id: baseId + index }))
+      ]
+    });
+  };
+
+  useEffect(() => {
+    generateRef.current();
+  }, [isLoading, blocks, trash, standardBlocks]);
+
+  useEffect(() => {
+    const timer = setInterval(() => generateRef.current(), GENERATION_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const getSeries = (block: Block) => {
+    if (block.seriesId === undefined) return undefined;
+    return standardBlocks.find(standard => standard.id === block.seriesId && standard.schedule);
+  };
+
+  // Save standard blocks, blocks and trash as one undoable change
+  const commitSeries = (
+    label: string,
+    next: { standardBlocks: StandardBlock[]; blocks: Block[]; trash?: TrashedBlock[] },
+    destructive = false
+  ) => {
+    execute(label, {
+      standardBlocks: diffRecords(standardBlocks, next.standardBlocks),
+      blocks: diffRecords(blocks, next.blocks),
+      ...(next.trash ? { trash: diffRecords(trash, next.trash) } : {})
+    }, destructive);
+  };
+
+  const repeatBlock = (block: Omit<Block, 'id'>, rule: RecurrenceRule) => {
+    const schedule = createSchedule(block, rule);
+    const existing = standardBlocks.find(standard => standard.name === block.name);
+    const series: StandardBlock = existing
+      ? { ...existing, schedule }
+      : {
+        id: Date.now(),
+        name: block.name,
+        locked: block.locked,
+        category: block.category,
+        tags: block.tags,
+        targets: block.targets,
+        schedule
+      };
+
+    const nextStandardBlocks = existing
+      ? standardBlocks.map(standard => standard.id === series.id ? series : standard)
+      : [...standardBlocks, series];
+
+    // Occurrences left from an earlier schedule of the same standard block stay as they are.
+    // Trashed ones don't count, so repeating a stopped series brings its days back.
+    const baseId = Date.now() + 1;
+    const occurrences = getMissingOccurrences([series], blocks)
+      .map((occurrence, index) => ({ ...occurrence, id: baseId + index }));
+
+    commitSeries(`Repeat "${block.name}"`, {
+      standardBlocks: nextStandardBlocks,
+      blocks: [...blocks, ...occurrences]
+    });
+  };
+
+  const updateSeries = (block: Block, changes: Omit<Block, 'id'>) => {
+    const series = getSeries(block);
+    if (!series?.schedule || getLockViolation(block, changes)) return;
+
+    const edited = createSchedule(changes, series.schedule.rule);
+    const schedule = { ...series.schedule, startTime: edited.startTime, durationMinutes: edited.durationMinutes, notes: edited.notes };
+    const updatedSeries = {
+      ...series,
+      name: changes.name,
+      locked: changes.locked,
+      category: changes.category,
+      tags: changes.tags,
+      targets: changes.targets,
+      schedule
+    };
+    const now = new Date();
+
+    commitSeries(`Edit series "${changes.name}"`, {
+      standardBlocks: standardBlocks.map(standard => standard.id === series.id ? updatedSeries : standard),
+      blocks: blocks.map(other => {
+        if (other.id === block.id) {
+          return applyScheduleToOccurrence({ ...other, detached: undefined }, updatedSeries, schedule);
+        }
+        return other.seriesId === series.id && other.startTime > now
+          ? applyScheduleToOccurrence(other, updatedSeries, schedule)
+          : other;
+      })
+    });
+  };
+
+  const skipOccurrence = (block: Block) => {
+    if (getLockViolation(block, null)) return;
+    commitSeries(`Skip "${block.name}" on ${block.startTime.toLocaleDateString()}`, {
+      standardBlocks: skipOccurrences(standardBlocks, [block]),
+      blocks: blocks.filter(other => other.id !== block.id),
+      trash: [...trash, moveToTrash(block)]
+    }, true);
+  };
+
+  const removeUpcomingBlocks = () => {
+    const now = new Date();
+    const upcoming = blocks.filter(block => now < block.startTime);
+    commitSeries(`Clear ${upcoming.length} upcoming block${upcoming.length === 1 ? '' : 's'}`, {
+      standardBlocks: skipOccurrences(standardBlocks, upcoming),
+      blocks: blocks.filter(block => now >= block.startTime),
+      trash: [...trash, ...upcoming.map(block => moveToTrash(block, now))]
+    }, true);
+  };
+
+  const stopSeries = (seriesId: number) => {
+    const series = standardBlocks.find(standard => standard.id === seriesId);
+    if (!series) return;
+
+    const stopped = { ...series, schedule: undefined };
+    const now = new Date();
+    const upcoming = blocks.filter(block => block.seriesId === seriesId && block.startTime > now);
+    const upcomingIds = new Set(upcoming.map(block => block.id));
+
+    commitSeries(`Stop repeating "${series.name}"`, {
+      standardBlocks: standardBlocks.map(standard => standard.id === seriesId ? stopped : standard),
+      blocks: blocks.filter(block => !upcomingIds.has(block.id)),
+      trash: [...trash, ...upcoming.map(block => moveToTrash(block, now))]
+    }, true);
+  };
+
+  // Occurrences merged away are skipped in the same change, so emptying the trash doesn't bring them back
+  const commitMerges = (merges: BlockMerge[], label: string) => {
+    const { blocks: merged, mergedAway } = applyMerges(blocks, merges);
+    const deletedAt = new Date();
+    commitSeries(label, {
+      standardBlocks: skipOccurrences(standardBlocks, mergedAway),
+      blocks: merged,
+      trash: [...trash, ...mergedAway.map(block => moveToTrash(block, deletedAt))]
+    }, true);
+  };
+
+  const mergeBlocks = (ids: number[], incoming?: Omit<Block, 'id'> & { id?: number }) => {
+    const group = blocks.filter(block => ids.includes(block.id));
+    const newBlock = incoming && { ...incoming, id: incoming.id ?? Date.now() };
+    const merging = newBlock ? [...group.filter(block => block.id !== newBlock.id), newBlock] : group;
+    if (merging.length < 2) return false;
+
+    const merged = getMergedBlock(merging);
+    if (group.some(block => getLockViolation(block, merged))) return false;
+
+    commitMerges([{ group, merged }], `Merge ${merging.length} "${merged.name}" blocks`);
+    return true;
+  };
+
+  const mergeOverlaps = () => {
+    // Merging never shortens, so this only skips a group that would drop a lock
+    const merges = findOverlapGroups(blocks)
+      .map(group => ({ group, merged: getMergedBlock(group) }))
+      .filter(({ group, merged }) => !group.some(block => getLockViolation(block, merged)));
+    if (merges.length === 0) return 0;
+
+    commitMerges(merges, `Merge ${merges.length} group${merges.length === 1 ? '' : 's'} of overlapping blocks`);
+    return merges.length;
+  };
+
+  return (
+    <RecurrenceContext.Provider
+      value={{
+        getSeries,
+        repeatBlock,
+        updateSeries,
+        skipOccurrence,
+        removeUpcomingBlocks,
+        stopSeries,
+        mergeBlocks,
+        mergeOverlaps
+      }}
+    >
+      {children}
+    </RecurrenceContext.Provider>
+  );
+};
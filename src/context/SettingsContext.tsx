@@ -0,0 +1,33 @@
+import React, { createContext, useState, useContext } from 'react';
+import { AppSettings, loadSettings, saveSettings } from '../utils/settings';
+
+interface SettingsContextType {
+  settings: AppSettings;
+  updateSettings: (changes: Partial<AppSettings>) => void;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<AppSettings>(() => loadSettings());
+  
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    saveSettings(updated);
+  };
+  
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
@@ -1,6 +1,8 @@
-import React, { createContext, useState, useEffect, useContext } from 'react';
+import React, { createContext, useEffect, useContext, useRef } from 'react';
 import { StandardBlock } from '../types';
-import { useFileDataStore } from './FileDataStore';
+import { useDataStore } from './DataStore';
+import { useCommandHistory } from './CommandHistoryContext';
+import { HistoryChanges, HistoryDirection, RecordChange, applyRecordChanges, diffRecords } from '../utils/commandHistory';
 
 interface StandardBlocksContextType {
   standardBlocks: StandardBlock[];
@@ -22,44 +24,36 @@ export const useStandardBlocks = () => {
   return context;
 };
 
-const STORAGE_KEY = 'tech-blocker-standard-blocks';
-
 export const StandardBlocksProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const fileDataStore = useFileDataStore();
-  const [localStandardBlocks, setLocalStandardBlocks] = useState<StandardBlock[]>([]);
+  const { standardBlocks: localStandardBlocks, updateData } = useDataStore();
+  const history = useCommandHistory();
   
-  // Sync with file data store or localStorage
-  useEffect(() => {
-    if (fileDataStore.fileHandle) {
-      // Use file data
-      setLocalStandardBlocks(fileDataStore.standardBlocks);
-    } else {
-      // Use localStorage
-      try {
-        const savedBlocks = localStorage.getItem(STORAGE_KEY);
-        if (savedBlocks) {
-          const parsedBlocks = JSON.parse(savedBlocks);
-          
-          if (Array.isArray(parsedBlocks)) {
-            setLocalStandardBlocks(parsedBlocks);
-          }
-        }
-      } catch (error) {
-        console.error('Error loading standard blocks from localStorage:', error);
-      }
-    }
-  }, [fileDataStore.fileHandle, fileDataStore.standardBlocks]);
+  // Persist a new version of the standard blocks without touching the history
+  const saveStandardBlocks = (updatedBlocks: StandardBlock[]) => {
+    updateData({ standardBlocks: updatedBlocks });
+  };
+  
+  // Persist a mutation and record it so it can be undone
+  const commitStandardBlocks = (updatedBlocks: StandardBlock[], label: string, destructive = false) => {
+    history.record(label, { standardBlocks: diffRecords(localStandardBlocks, updatedBlocks) }, destructive);
+    saveStandardBlocks(updatedBlocks);
+  };
+  
+  // Undo and redo replay recorded changes onto the latest standard blocks
+  const applyHistoryRef = useRef<(changes: HistoryChanges, direction: HistoryDirection) => void>(() => {});
+  applyHistoryRef.current = (changes, direction) => {
+    if (!changes.standardBlocks) return;
+    saveStandardBlocks(applyRecordChanges(
+      localStandardBlocks,
+      changes.standardBlocks as RecordChange<StandardBlock>[],
+      direction
+    ));
+  };
   
-  // Save to localStorage when not using file
+  const { registerApplier } = history;
   useEffect(() => {
-    if (!fileDataStore.fileHandle && localStandardBlocks.length > 0) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(localStandardBlocks));
-      } catch (error) {
-        console.error('Error saving standard blocks to localStorage:', error);
-      }
-    }
-  }, [localStandardBlocks, fileDataStore.fileHandle]);
+    return registerApplier('standardBlocks', (changes, direction) => applyHistoryRef.current(changes, direction));
+  }, [registerApplier]);
   
   const addStandardBlock = (block: Omit<StandardBlock, 'id'>) => {
     const newBlock = {
@@ -67,45 +61,33 @@ export const StandardBlocksProvider: React.FC<{ children: React.ReactNode }> = (
       id: Date.now()
     };
     
-    const updatedBlocks = [...localStandardBlocks, newBlock];
-    setLocalStandardBlocks(updatedBlocks);
-    
-    if (fileDataStore.fileHandle) {
-      fileDataStore.updateStandardBlocks(updatedBlocks);
-    }
+    commitStandardBlocks([...localStandardBlocks, newBlock], `Add standard block "${newBlock.name}"`);
   };
 
   const updateStandardBlock = (id: number, block: Omit<StandardBlock, 'id'>) => {
     const updatedBlocks = localStandardBlocks.map(b => 
       b.id === id ? { ...block, id } : b
     );
-    setLocalStandardBlocks(updatedBlocks);
-    
-    if (fileDataStore.fileHandle) {
-      fileDataStore.updateStandardBlocks(updatedBlocks);
-    }
+    commitStandardBlocks(updatedBlocks, `Edit standard block "${block.name}"`);
   };
   
   const removeStandardBlock = (id: number) => {
+    const removed = localStandardBlocks.find(block => block.id === id);
     const updatedBlocks = localStandardBlocks.filter(block => block.id !== id);
-    setLocalStandardBlocks(updatedBlocks);
-    
-    if (fileDataStore.fileHandle) {
-      fileDataStore.updateStandardBlocks(updatedBlocks);
-    }
+    commitStandardBlocks(updatedBlocks, `Delete standard block "${removed?.name ?? ''}"`, true);
   };
   
   const toggleRequiredStatus = (id: number) => {
+    const toggled = localStandardBlocks.find(block => block.id === id);
     const updatedBlocks = localStandardBlocks.map(block => 
       block.id === id 
         ? { ...block, required: block.required ? false : true }
         : block
     );
-    setLocalStandardBlocks(updatedBlocks);
-    
-    if (fileDataStore.fileHandle) {
-      fileDataStore.updateStandardBlocks(updatedBlocks);
-    }
+    commitStandardBlocks(
+      updatedBlocks,
+      `${toggled?.required ? 'Unmark' : 'Mark'} "${toggled?.name ?? ''}" as required`
+    );
   };
   
   const getRequiredBlocks = () => {
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { createChangeLogBackend, ChangeLogStore } from './changeLogBackend';
+import { parseChangeLog } from '../utils/changeLog';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-03-01T09:00:00.000Z'),
+  endTime: new Date('2024-03-01T17:00:00.000Z')
+};
+
+const createMemoryStore = (): ChangeLogStore & { content: string } => {
+  const store = {
+    content: '',
+    read: async () => store.content,
+    write: async (content: string) => {
+      store.content = content;
+    }
+  };
+  return store;
+};
+
+describe('createChangeLogBackend', () => {
+  it('should append one event per changed record and replay them on load', async () => {
+    const store = createMemoryStore();
+    const backend = createChangeLogBackend(store);
+
+    await backend.save({ blocks: [block], standardBlocks: [], trash: [], quarantine: [] });
+    await backend.save({ blocks: [{ ...block, notes: 'Evening' }], standardBlocks: [], trash: [], quarantine: [] });
+
+    expect(parseChangeLog(store.content).events.map(event => event.type)).toEqual(['add', 'update']);
+    expect((await backend.load()).blocks).toEqual([{ ...block, notes: 'Evening' }]);
+  });
+
+  it('should not append anything when nothing changed', async () => {
+    const store = createMemoryStore();
+    const backend = createChangeLogBackend(store);
+    await backend.save({ blocks: [block], standardBlocks: [], trash: [], quarantine: [] });
+    const content = store.content;
+
+    await backend.save({ blocks: [block], standardBlocks: [], trash: [], quarantine: [] });
+
+    expect(store.content).toBe(content);
+  });
+
+  it('should list the history of one block', async () => {
+    const backend = createChangeLogBackend(createMemoryStore());
+    await backend.save({ blocks: [block, { ...block, id: 2 }], standardBlocks: [], trash: [], quarantine: [] });
+    await backend.save({ blocks: [{ ...block, id: 2 }], standardBlocks: [], trash: [], quarantine: [] });
+
+    const history = await backend.getRecordHistory!(1);
+    expect(history.map(event => event.type)).toEqual(['add', 'remove']);
+  });
+});
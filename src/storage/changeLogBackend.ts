@@ -0,0 +1,99 @@
+import { parseFileData } from '../utils/fileStorage';
+import { CURRENT_SCHEMA_VERSION, NewerSchemaVersionError, isNewerSchemaVersion } from '../utils/migrations';
+import { stableStringify } from '../utils/merge';
+import { BROWSER_SOURCE_ID } from '../utils/dataSources';
+import {
+  ChangeLog,
+  appendEvents,
+  compactChangeLog,
+  diffToEvents,
+  getLastSeq,
+  getRecordHistory,
+  parseChangeLog,
+  replayChangeLog,
+  toPlainData
+} from '../utils/changeLog';
+import { readStoredContent, writeStoredContent } from './dataDatabase';
+import { StorageBackend } from './storageBackend';
+
+const LOG_KEY = 'changeLog';
+const CHANNEL_NAME = 'sc-blocker-change-log';
+
+// Where the serialized log is kept
+export interface ChangeLogStore {
+  read: () => Promise<string>;
+  write: (content: string) => Promise<void>;
+}
+
+const indexedDBLogStore: ChangeLogStore = {
+  read: () => readStoredContent(LOG_KEY),
+  write: (content) => writeStoredContent(LOG_KEY, content)
+};
+
+const toLoadedData = (log: ChangeLog) => {
+  return parseFileData(JSON.stringify({
+    schemaVersion: log.schemaVersion,
+    ...replayChangeLog(log),
+    quarantine: log.quarantine
+  }));
+};
+
+// An append-only log of every change, kept in IndexedDB. Saves append one event per changed record;
+// the current state is rebuilt by replaying the events after the latest snapshot.
+export const createChangeLogBackend = (store: ChangeLogStore = indexedDBLogStore): StorageBackend => {
+  // Lets this backend's subscription skip its own saves
+  const instanceId = Math.random().toString(36).slice(2);
+
+  const readLog = async () => parseChangeLog(await store.read());
+
+  return {
+    kind: 'changeLog',
+    label: 'Browser change log',
+    // The same browser data as localStorage, kept in another form
+    sourceId: BROWSER_SOURCE_ID,
+    capabilities: { userVisibleFile: false, externalChanges: true, persistent: true },
+    load: async () => toLoadedData(await readLog()),
+    save: async (data) => {
+      const log = await readLog();
+      if (isNewerSchemaVersion(log.schemaVersion)) {
+        throw new NewerSchemaVersionError(log.schemaVersion);
+      }
+
+      const now = new Date();
+      const quarantine = data.quarantine ?? [];
+      const isCurrentSchema = log.schemaVersion === CURRENT_SCHEMA_VERSION;
+      const events = diffToEvents(replayChangeLog(log), toPlainData(data), getLastSeq(log), now);
+      if (events.length === 0 && isCurrentSchema && stableStringify(quarantine) === stableStringify(log.quarantine)) return;
+
+      let next: ChangeLog = { ...appendEvents(log, events, now), quarantine };
+      if (!isCurrentSchema) {
+        // Records from an older schema were migrated on load; snapshot them in the current one
+        next = compactChangeLog({ ...next, schemaVersion: CURRENT_SCHEMA_VERSION }, now);
+      }
+
+      await store.write(JSON.stringify(next));
+
+      if (typeof BroadcastChannel !== 'undefined') {
+        const channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.postMessage(instanceId);
+        channel.close();
+      }
+    },
+    subscribe: (listener) => {
+      if (typeof BroadcastChannel === 'undefined') return () => {};
+
+      // Other tabs announce their saves
+      const channel = new BroadcastChannel(CHANNEL_NAME);
+      channel.onmessage = async (event: MessageEvent<string>) => {
+        if (event.data === instanceId) return;
+        try {
+          listener(toLoadedData(await readLog()));
+        } catch (err) {
+          console.error('Error reading the change log after another tab saved:', err);
+        }
+      };
+      return () => channel.close();
+    },
+    getRecordHistory: async (id) => getRecordHistory(await readLog(), id)
+  };
+};
@@ -0,0 +1,39 @@
+const DB_NAME = 'SCBlockerData';
+const DB_VERSION = 1;
+const STORE_NAME = 'data';
+
+const openDB = async (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+  });
+};
+
+// Serialized content stored as a single string under `key`, empty if nothing was stored yet
+export const readStoredContent = async (key: string): Promise<string> => {
+  const db = await openDB();
+  const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).get(key);
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(typeof request.result === 'string' ? request.result : '');
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const writeStoredContent = async (key: string, content: string): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction([STORE_NAME], 'readwrite');
+  transaction.objectStore(STORE_NAME).put(content, key);
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
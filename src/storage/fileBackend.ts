@@ -0,0 +1,92 @@
+import { createEncryptionSession, readFile, readFileText, writeFile, writeFileText } from '../utils/fileStorage';
+import { deriveEncryptionKey, encryptText, decryptText, openStoredText, parseEncryptedFile, sealText } from '../utils/encryption';
+import { StorageBackend } from './storageBackend';
+
+const POLL_INTERVAL_MS = 1500;
+
+// A JSON data file granted through the File System Access API, polled for outside edits.
+// The file may be encrypted with a passphrase, which is asked for once per session.
+export const createFileBackend = (handle: FileSystemFileHandle): StorageBackend => {
+  // Modification time of the content last read or written by this tab
+  let lastModified = 0;
+  const session = createEncryptionSession();
+  
+  // Replace the content without changing the data, e.g. to encrypt it
+  const rewrite = async (content: string) => {
+    await writeFileText(handle, content);
+    const file = await handle.getFile();
+    lastModified = file.lastModified;
+  };
+  
+  // Check the passphrase against the file itself, returning the decrypted content
+  const unlockWith = async (passphrase: string) => {
+    const file = parseEncryptedFile(await (await handle.getFile()).text());
+    if (!file) {
+      throw new Error(`${handle.name} is not encrypted.`);
+    }
+    return decryptText(file, await deriveEncryptionKey(passphrase, file.kdf));
+  };
+  
+  return {
+    kind: 'file',
+    label: handle.name,
+    sourceId: `file:${handle.name}`,
+    capabilities: { userVisibleFile: true, externalChanges: true, persistent: true },
+    load: async () => {
+      const file = await handle.getFile();
+      const data = await readFile(handle, session);
+      lastModified = file.lastModified;
+      return data;
+    },
+    save: async (data) => {
+      await writeFile(handle, data, session);
+      const file = await handle.getFile();
+      lastModified = file.lastModified;
+    },
+    subscribe: (listener) => {
+      const checkForChanges = async () => {
+        try {
+          const file = await handle.getFile();
+          if (file.lastModified > lastModified) {
+            // Never interrupt with a passphrase prompt here; the next load asks if the key changed
+            const data = await readFile(handle, session, false);
+            lastModified = file.lastModified;
+            listener(data);
+          }
+        } catch (err) {
+          // Silently ignore polling errors - file might be temporarily locked
+          console.debug('Polling error (normal during saves):', err);
+        }
+      };
+      
+      const interval = setInterval(checkForChanges, POLL_INTERVAL_MS);
+      return () => clearInterval(interval);
+    },
+    encryption: {
+      isEncrypted: () => session.key !== null,
+      encrypt: async (passphrase) => {
+        const plaintext = await readFileText(handle, session);
+        if (session.key) {
+          throw new Error(`${handle.name} is already encrypted.`);
+        }
+        const key = await deriveEncryptionKey(passphrase);
+        await rewrite(await encryptText(plaintext, key));
+        session.key = key;
+      },
+      decrypt: async (currentPassphrase) => {
+        const plaintext = await unlockWith(currentPassphrase);
+        await rewrite(plaintext);
+        session.key = null;
+      },
+      changePassphrase: async (currentPassphrase, newPassphrase) => {
+        const plaintext = await unlockWith(currentPassphrase);
+        const key = await deriveEncryptionKey(newPassphrase);
+        await rewrite(await encryptText(plaintext, key));
+        session.key = key;
+      },
+      seal: (text) => sealText(text, session),
+      // Older content may use an earlier passphrase; that is asked for without touching the session
+      open: (text) => openStoredText(text, { ...session }, 'this backup')
+    }
+  };
+};
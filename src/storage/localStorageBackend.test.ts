@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createLocalStorageBackend } from './localStorageBackend';
+import { BLOCKS_STORAGE_KEY } from '../utils/localStorageData';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-03-01T09:00:00.000Z'),
+  endTime: new Date('2024-03-01T17:00:00.000Z')
+};
+
+// What another tab's save looks like to this one
+const fireStorageEvent = (key: string | null) => {
+  window.dispatchEvent(Object.assign(new Event('storage'), { key }));
+};
+
+describe('createLocalStorageBackend', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key)
+    });
+    vi.stubGlobal('window', new EventTarget());
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should load what was saved', async () => {
+    const backend = createLocalStorageBackend();
+    await backend.save({ blocks: [block], standardBlocks: [], trash: [], quarantine: [] });
+
+    expect((await backend.load()).blocks).toEqual([block]);
+  });
+
+  it('should report another tab\'s save once all of its keys have been written', async () => {
+    const backend = createLocalStorageBackend();
+    const listener = vi.fn();
+    backend.subscribe(listener);
+
+    await createLocalStorageBackend().save({ blocks: [block], standardBlocks: [], trash: [], quarantine: [] });
+    fireStorageEvent(BLOCKS_STORAGE_KEY);
+    fireStorageEvent('tech-blocker-trash');
+    vi.runAllTimers();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].blocks).toEqual([block]);
+  });
+
+  it('should ignore keys that are not part of the data', () => {
+    const listener = vi.fn();
+    createLocalStorageBackend().subscribe(listener);
+
+    fireStorageEvent('tech-blocker-settings');
+    vi.runAllTimers();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop listening once unsubscribed', () => {
+    const listener = vi.fn();
+    const unsubscribe = createLocalStorageBackend().subscribe(listener);
+
+    unsubscribe();
+    fireStorageEvent(BLOCKS_STORAGE_KEY);
+    vi.runAllTimers();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+import { DATA_STORAGE_KEYS, readLocalStorageData, writeLocalStorageData } from '../utils/localStorageData';
+import { BROWSER_SOURCE_ID } from '../utils/dataSources';
+import { StorageBackend } from './storageBackend';
+
+// A save writes several keys, each firing its own storage event; read once they have all arrived
+const SETTLE_DELAY_MS = 50;
+
+// The browser's localStorage, under the keys used before data files existed. Other tabs of the
+// app write the same keys; their saves arrive as storage events.
+export const createLocalStorageBackend = (): StorageBackend => ({
+  kind: 'localStorage',
+  label: 'Browser storage',
+  sourceId: BROWSER_SOURCE_ID,
+  capabilities: { userVisibleFile: false, externalChanges: true, persistent: true },
+  load: async () => readLocalStorageData(),
+  save: async (data) => writeLocalStorageData(data),
+  subscribe: (listener) => {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    
+    // Storage events only fire in the tabs that did not make the change
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means the storage was cleared
+      if (event.key !== null && !DATA_STORAGE_KEYS.includes(event.key)) return;
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        try {
+          listener(readLocalStorageData());
+        } catch (err) {
+          console.error('Error reading changes from another tab:', err);
+        }
+      }, SETTLE_DELAY_MS);
+    };
+    
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createManualFileBackend, ManualFileRecord, ManualFileStore } from './manualFileBackend';
+import { serializeFileData } from '../utils/fileStorage';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-03-01T09:00:00.000Z'),
+  endTime: new Date('2024-03-01T17:00:00.000Z')
+};
+
+const data = { blocks: [block], standardBlocks: [], trash: [], quarantine: [] };
+
+const createMemoryStore = (): ManualFileStore & { record: ManualFileRecord | null } => {
+  const store = {
+    record: null as ManualFileRecord | null,
+    read: async () => store.record,
+    write: async (record: ManualFileRecord | null) => {
+      store.record = record;
+    }
+  };
+  return store;
+};
+
+describe('createManualFileBackend', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep saves in the working copy and mark them unsaved', async () => {
+    const store = createMemoryStore();
+    const backend = createManualFileBackend({ name: 'data.json', content: '', hasUnsavedChanges: false }, store);
+    const listener = vi.fn();
+    backend.manualFile?.subscribe(listener);
+
+    await backend.save(data);
+
+    expect(store.record).toEqual({ name: 'data.json', content: serializeFileData(data), hasUnsavedChanges: true });
+    expect(backend.manualFile?.hasUnsavedChanges()).toBe(true);
+    expect(listener).toHaveBeenCalledWith(true);
+    expect((await backend.load()).blocks).toEqual([block]);
+  });
+
+  it('should not mark the file unsaved when the data did not change', async () => {
+    const store = createMemoryStore();
+    const backend = createManualFileBackend({ name: 'data.json', content: serializeFileData(data), hasUnsavedChanges: false }, store);
+
+    await backend.save(data);
+
+    expect(backend.manualFile?.hasUnsavedChanges()).toBe(false);
+    expect(store.record).toBeNull();
+  });
+
+  it('should download the working copy and clear the unsaved mark', async () => {
+    const createObjectURL = vi.fn(() => 'blob:data');
+    const link = { click: vi.fn(), remove: vi.fn(), href: '', download: '' };
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+    vi.stubGlobal('document', { createElement: () => link, body: { appendChild: vi.fn() } });
+
+    const store = createMemoryStore();
+    const backend = createManualFileBackend({ name: 'data.json', content: '', hasUnsavedChanges: false }, store);
+    await backend.save(data);
+    await backend.manualFile?.download();
+
+    expect(link.download).toBe('data.json');
+    expect(link.click).toHaveBeenCalled();
+    expect(backend.manualFile?.hasUnsavedChanges()).toBe(false);
+    expect(store.record?.hasUnsavedChanges).toBe(false);
+  });
+
+  it('should refuse to overwrite data saved by a newer version', async () => {
+    const content = JSON.stringify({ schemaVersion: 99, blocks: [], standardBlocks: [] });
+    const backend = createManualFileBackend({ name: 'data.json', content, hasUnsavedChanges: false }, createMemoryStore());
+
+    await expect(backend.save(data)).rejects.toThrow('newer');
+  });
+});
@@ -0,0 +1,120 @@
+import { createEncryptionSession, parseFileData, serializeFileData } from '../utils/fileStorage';
+import { openStoredText, sealText } from '../utils/encryption';
+import { NewerSchemaVersionError, getSchemaVersion, isNewerSchemaVersion } from '../utils/migrations';
+import { downloadTextFile } from '../utils/download';
+import { readStoredContent, writeStoredContent } from './dataDatabase';
+import { StorageBackend } from './storageBackend';
+
+const MANUAL_FILE_KEY = 'manualFile';
+export const DEFAULT_MANUAL_FILE_NAME = 'sc-blocker-data.json';
+
+// The working copy of a data file opened without the File System Access API
+export interface ManualFileRecord {
+  name: string;
+  // Exactly what a download would contain, so an encrypted file stays encrypted in the browser too
+  content: string;
+  // Changed since the file was opened or last downloaded
+  hasUnsavedChanges: boolean;
+}
+
+// Where the working copy is kept between visits
+export interface ManualFileStore {
+  read: () => Promise<ManualFileRecord | null>;
+  write: (record: ManualFileRecord | null) => Promise<void>;
+}
+
+const indexedDBManualFileStore: ManualFileStore = {
+  read: async () => {
+    const content = await readStoredContent(MANUAL_FILE_KEY);
+    return content ? JSON.parse(content) : null;
+  },
+  write: (record) => writeStoredContent(MANUAL_FILE_KEY, record ? JSON.stringify(record) : '')
+};
+
+export const getStoredManualFile = (store: ManualFileStore = indexedDBManualFileStore) => store.read();
+
+export const clearStoredManualFile = (store: ManualFileStore = indexedDBManualFileStore) => store.write(null);
+
+// Start working on a file picked through a file input; nothing is unsaved until the first change
+export const openManualFile = async (
+  file: File,
+  store: ManualFileStore = indexedDBManualFileStore
+): Promise<ManualFileRecord> => {
+  const record = { name: file.name, content: await file.text(), hasUnsavedChanges: false };
+  await store.write(record);
+  return record;
+};
+
+// Start a file that only exists once it is downloaded
+export const createManualFile = async (
+  name: string = DEFAULT_MANUAL_FILE_NAME,
+  store: ManualFileStore = indexedDBManualFileStore
+): Promise<ManualFileRecord> => {
+  const record = {
+    name,
+    content: serializeFileData({ blocks: [], standardBlocks: [], trash: [], quarantine: [] }),
+    hasUnsavedChanges: true
+  };
+  await store.write(record);
+  return record;
+};
+
+// A data file in browsers without the File System Access API: it is read through a file input
+// and written back by downloading it. Until then the working copy lives in browser storage.
+export const createManualFileBackend = (
+  initial: ManualFileRecord,
+  store: ManualFileStore = indexedDBManualFileStore
+): StorageBackend => {
+  let record = initial;
+  const session = createEncryptionSession();
+  const listeners = new Set<(hasUnsavedChanges: boolean) => void>();
+
+  const update = async (changes: Partial<ManualFileRecord>) => {
+    record = { ...record, ...changes };
+    await store.write(record);
+    listeners.forEach(listener => listener(record.hasUnsavedChanges));
+  };
+
+  const readPlaintext = (allowPrompt = true) => openStoredText(record.content, session, record.name, allowPrompt);
+
+  return {
+    kind: 'manualFile',
+    label: record.name,
+    // The same file as when it is opened with a file handle
+    sourceId: `file:${record.name}`,
+    capabilities: { userVisibleFile: true, externalChanges: false, persistent: true },
+    load: async () => parseFileData(await readPlaintext()),
+    save: async (data) => {
+      const plaintext = await readPlaintext(false);
+      let version: number | null = null;
+      try {
+        version = plaintext.trim() ? getSchemaVersion(JSON.parse(plaintext)) : null;
+      } catch {
+        // Unparseable content is replaced rather than preserved
+      }
+      if (version !== null && isNewerSchemaVersion(version)) {
+        throw new NewerSchemaVersionError(version);
+      }
+
+      const content = serializeFileData(data);
+      // Saving what is already there doesn't make the download out of date
+      if (content === plaintext) return;
+      await update({ content: await sealText(content, session), hasUnsavedChanges: true });
+    },
+    // Nothing else can change the working copy
+    subscribe: () => () => {},
+    manualFile: {
+      hasUnsavedChanges: () => record.hasUnsavedChanges,
+      download: async () => {
+        downloadTextFile(record.name, record.content, 'application/json');
+        await update({ hasUnsavedChanges: false });
+      },
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      }
+    }
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMemoryBackend } from './memoryBackend';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-03-01T09:00:00.000Z'),
+  endTime: new Date('2024-03-01T17:00:00.000Z')
+};
+
+const data = { blocks: [block], standardBlocks: [], trash: [], quarantine: [] };
+
+describe('createMemoryBackend', () => {
+  it('should start empty when no data is given', async () => {
+    const loaded = await createMemoryBackend().load();
+
+    expect(loaded.blocks).toEqual([]);
+    expect(loaded.standardBlocks).toEqual([]);
+    expect(loaded.trash).toEqual([]);
+  });
+
+  it('should load what was saved with dates revived', async () => {
+    const backend = createMemoryBackend();
+    await backend.save(data);
+
+    const loaded = await backend.load();
+    expect(loaded.blocks).toEqual([block]);
+    expect(loaded.blocks[0].startTime).toBeInstanceOf(Date);
+  });
+
+  it('should notify subscribers of external changes until they unsubscribe', async () => {
+    const backend = createMemoryBackend();
+    const listener = vi.fn();
+    const unsubscribe = backend.subscribe(listener);
+
+    backend.replaceExternally(data);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].blocks).toEqual([block]);
+
+    unsubscribe();
+    backend.replaceExternally({ ...data, blocks: [] });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect((await backend.load()).blocks).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import { FileData, LoadedFileData, parseFileData, serializeFileData } from '../utils/fileStorage';
+import { StorageBackend } from './storageBackend';
+
+export interface MemoryBackend extends StorageBackend {
+  // Replace the content as if another app had changed it, notifying subscribers
+  replaceExternally: (data: FileData) => void;
+}
+
+// Keeps the serialized data in memory only, e.g. for tests or a throwaway session
+export const createMemoryBackend = (initial?: FileData): MemoryBackend => {
+  let content = initial ? serializeFileData(initial) : '';
+  const listeners = new Set<(data: LoadedFileData) => void>();
+  
+  return {
+    kind: 'memory',
+    label: 'Memory',
+    sourceId: 'memory',
+    capabilities: { userVisibleFile: false, externalChanges: true, persistent: false },
+    load: async () => parseFileData(content),
+    save: async (data) => {
+      content = serializeFileData(data);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    replaceExternally: (data) => {
+      content = serializeFileData(data);
+      const loaded = parseFileData(content);
+      listeners.forEach(listener => listener(loaded));
+    }
+  };
+};
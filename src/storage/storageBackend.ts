@@ -0,0 +1,55 @@
+import { FileData, LoadedFileData } from '../utils/fileStorage';
+import { ChangeEvent } from '../utils/changeLog';
+
+export type StorageBackendKind = 'file' | 'localStorage' | 'memory' | 'syncServer' | 'changeLog' | 'manualFile';
+
+export interface StorageCapabilities {
+  // The data is a file the user can see, copy and edit by hand
+  userVisibleFile: boolean;
+  // subscribe() reports changes made outside this tab, e.g. another app editing the file
+  externalChanges: boolean;
+  // The data outlives the page
+  persistent: boolean;
+}
+
+// Passphrase protection of the stored data, for backends that support it
+export interface BackendEncryption {
+  isEncrypted: () => boolean;
+  encrypt: (passphrase: string) => Promise<void>;
+  // The current passphrase is asked for again even though the data is already open
+  decrypt: (currentPassphrase: string) => Promise<void>;
+  changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<void>;
+  // Content kept next to the data, e.g. backups, is encrypted whenever the data is
+  seal: (text: string) => Promise<string>;
+  open: (text: string) => Promise<string>;
+}
+
+// A file that is opened through a file input and saved by downloading it again
+export interface ManualFileControls {
+  // Changed since the file was opened or last downloaded
+  hasUnsavedChanges: () => boolean;
+  download: () => Promise<void>;
+  // Called whenever the unsaved state changes; returns an unsubscribe function
+  subscribe: (listener: (hasUnsavedChanges: boolean) => void) => () => void;
+}
+
+// Where the app's data lives. Providers only talk to this interface, so a new backend plugs in
+// by implementing it and being handed to the DataStoreProvider.
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  // Shown to the user, e.g. the file name
+  readonly label: string;
+  // Tells data sources apart, e.g. "file:blocks.json"; backups and archives are kept per source
+  readonly sourceId: string;
+  readonly capabilities: StorageCapabilities;
+  // Read, migrate and validate the stored data
+  load: () => Promise<LoadedFileData>;
+  // Replace the stored data; rejects with NewerSchemaVersionError if a newer build owns the data
+  save: (data: FileData) => Promise<void>;
+  // Called with freshly loaded data whenever it changes outside this tab; returns an unsubscribe function
+  subscribe: (listener: (data: LoadedFileData) => void) => () => void;
+  encryption?: BackendEncryption;
+  // Every recorded change to one block, oldest first, for backends that keep a change log
+  getRecordHistory?: (id: number) => Promise<ChangeEvent[]>;
+  manualFile?: ManualFileControls;
+}
@@ -0,0 +1,163 @@
+import { QuarantinedEntry } from '../types';
+import { FileData, parseFileData } from '../utils/fileStorage';
+import { CURRENT_SCHEMA_VERSION } from '../utils/migrations';
+import { stableStringify } from '../utils/merge';
+import { SyncServerConfig } from '../utils/syncServerStorage';
+import {
+  HealthResponse,
+  PullResponse,
+  PushRequest,
+  PushResponse,
+  SYNC_COLLECTIONS,
+  SyncChange,
+  SyncRecord,
+  getRecordKey
+} from '../sync/protocol';
+import { StorageBackend } from './storageBackend';
+
+const POLL_INTERVAL_MS = 5000;
+
+export class SyncConflictError extends Error {
+  constructor(public readonly count: number) {
+    super(`${count} record${count === 1 ? ' was' : 's were'} changed on another device while saving. That version will be shown; make your change again if it is still needed.`);
+    this.name = 'SyncConflictError';
+  }
+}
+
+export class SyncServerError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'SyncServerError';
+  }
+}
+
+const getServerLabel = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const request = async <T>(config: SyncServerConfig, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${config.url.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+    }
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new SyncServerError(response.status, body?.error ?? `Sync server responded with ${response.status}`);
+  }
+  return body as T;
+};
+
+// Check that a sync server is reachable and accepts the token
+export const checkSyncServer = (config: SyncServerConfig): Promise<HealthResponse> => {
+  return request<HealthResponse>(config, '/api/health');
+};
+
+// Records as the server stores them: plain JSON, so dates compare as ISO strings
+const toPlainRecords = (records: object[]): Record<string, unknown>[] => JSON.parse(JSON.stringify(records));
+
+// A sync server shared by several devices. Changes are pushed per record with the revision they
+// are based on and pulled incrementally, so only records that changed travel over the network.
+export const createSyncBackend = (config: SyncServerConfig, pollIntervalMs = POLL_INTERVAL_MS): StorageBackend => {
+  // The server's records as last seen by this backend, and the revision they are current to
+  const known = new Map<string, SyncRecord>();
+  let cursor = 0;
+  // Quarantined entries stay on this device; the server only holds valid records
+  let quarantine: QuarantinedEntry[] = [];
+
+  // Fetch records changed since the last pull; resolves to whether anything new arrived
+  const pullChanges = async (): Promise<boolean> => {
+    const { rev, records } = await request<PullResponse>(config, `/api/changes?since=${cursor}`);
+    let changed = false;
+    records.forEach(record => {
+      const key = getRecordKey(record.collection, record.id);
+      if ((known.get(key)?.rev ?? 0) < record.rev) {
+        known.set(key, record);
+        changed = true;
+      }
+    });
+    cursor = rev;
+    return changed;
+  };
+
+  const toLoadedData = () => {
+    const raw: Record<string, unknown> = { schemaVersion: CURRENT_SCHEMA_VERSION, quarantine };
+    SYNC_COLLECTIONS.forEach(collection => {
+      raw[collection] = [...known.values()]
+        .filter(record => record.collection === collection && record.data)
+        .map(record => record.data);
+    });
+    return parseFileData(JSON.stringify(raw));
+  };
+
+  // List the records that differ from the server's copy, including deletions
+  const getChanges = (data: FileData): SyncChange[] => {
+    const changes: SyncChange[] = [];
+    SYNC_COLLECTIONS.forEach(collection => {
+      const records = toPlainRecords(data[collection] ?? []);
+      const ids = new Set(records.map(record => record.id));
+
+      records.forEach(record => {
+        const id = record.id as number;
+        const current = known.get(getRecordKey(collection, id));
+        if (!current?.data || stableStringify(current.data) !== stableStringify(record)) {
+          changes.push({ collection, id, baseRev: current?.rev ?? 0, data: record });
+        }
+      });
+      known.forEach(current => {
+        if (current.collection === collection && current.data && !ids.has(current.id)) {
+          changes.push({ collection, id: current.id, baseRev: current.rev, data: null });
+        }
+      });
+    });
+    return changes;
+  };
+
+  return {
+    kind: 'syncServer',
+    label: getServerLabel(config.url),
+    sourceId: `sync:${config.url}`,
+    capabilities: { userVisibleFile: false, externalChanges: true, persistent: true },
+    load: async () => {
+      await pullChanges();
+      return toLoadedData();
+    },
+    save: async (data) => {
+      quarantine = data.quarantine ?? [];
+      const changes = getChanges(data);
+      if (changes.length === 0) return;
+
+      const body: PushRequest = { changes };
+      const { applied, conflicts } = await request<PushResponse>(config, '/api/changes', {
+        method: 'POST',
+        body: JSON.stringify(body)
+      });
+      applied.forEach(record => known.set(getRecordKey(record.collection, record.id), record));
+      // Conflicting records are left for the next pull, which brings in the other device's version
+      if (conflicts.length > 0) {
+        throw new SyncConflictError(conflicts.length);
+      }
+    },
+    subscribe: (listener) => {
+      const checkForChanges = async () => {
+        try {
+          if (await pullChanges()) {
+            listener(toLoadedData());
+          }
+        } catch (err) {
+          // The server may be briefly unreachable, e.g. while the laptop wakes up
+          console.debug('Sync polling error:', err);
+        }
+      };
+
+      const interval = setInterval(checkForChanges, pollIntervalMs);
+      return () => clearInterval(interval);
+    }
+  };
+};
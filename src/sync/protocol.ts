@@ -0,0 +1,54 @@
+// Shared shapes of the sync server's REST API, used by both the server and the client backend.
+// See server/README.md for the endpoints.
+
+export const SYNC_COLLECTIONS = ['blocks', 'standardBlocks', 'trash'] as const;
+export type SyncCollection = typeof SYNC_COLLECTIONS[number];
+
+// The server's copy of one record. Deleted records stay as tombstones so other devices learn
+// about the deletion.
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: number;
+  // Server-wide revision at which the record last changed
+  rev: number;
+  // The record as stored by the app (dates as ISO strings), or null once deleted
+  data: Record<string, unknown> | null;
+  updatedAt: string;
+}
+
+// A client's edit of one record, based on the revision it last saw (0 for a new record)
+export interface SyncChange {
+  collection: SyncCollection;
+  id: number;
+  baseRev: number;
+  data: Record<string, unknown> | null;
+}
+
+export interface PullResponse {
+  // Latest revision on the server; pass it as `since` to get only later changes
+  rev: number;
+  records: SyncRecord[];
+}
+
+export interface PushRequest {
+  changes: SyncChange[];
+}
+
+export interface PushResponse {
+  rev: number;
+  // The stored versions of the accepted changes
+  applied: SyncRecord[];
+  // The current versions of records whose baseRev was out of date; those changes were not applied
+  conflicts: SyncRecord[];
+}
+
+export interface HealthResponse {
+  ok: true;
+  rev: number;
+}
+
+export const isSyncCollection = (value: unknown): value is SyncCollection => {
+  return SYNC_COLLECTIONS.includes(value as SyncCollection);
+};
+
+export const getRecordKey = (collection: SyncCollection, id: number): string => `${collection}:${id}`;
@@ -2,14 +2,119 @@ export interface Block {
   id: number;
   name: string;
   startTime: Date;
+  // When the block ends, or ended if it was cut short
   endTime: Date;
+  // The end that was planned, kept when the block was ended early
+  plannedEndTime?: Date;
+  // Why it was ended early
+  breakReason?: string;
   notes?: string;
+  // One broad grouping, e.g. "Distractions"
+  category?: string;
+  // Lowercase labels, e.g. "social" or "video"
+  tags?: string[];
+  // What enforcement tools should block while the block is active
+  targets?: BlockTargets;
+  // UID of the calendar event this block was imported from
+  sourceUid?: string;
+  // Standard block whose schedule generated this occurrence
+  seriesId?: number;
+  // Day of the occurrence within its series, as YYYY-MM-DD
+  occurrence?: string;
+  // Edited on its own, so changes to the whole series leave it alone
+  detached?: boolean;
+  // While active, the block can't be shortened or removed without an emergency unlock
+  locked?: boolean;
+  // When an emergency unlock was started, as an ISO string; cleared once it completes or is cancelled
+  unlockRequestedAt?: string;
+  unlocks?: BlockUnlock[];
+  // Times the block was paused; the last one has no end while it's paused
+  pauses?: BlockPause[];
+  // Extensions, pauses and resumes, oldest first
+  activity?: BlockActivity[];
+}
+
+// ISO strings
+export interface BlockPause {
+  start: string;
+  end?: string;
+}
+
+export interface BlockActivity {
+  // ISO strings
+  at: string;
+  action: 'extend' | 'pause' | 'resume';
+  // End time before and after an extension or resume
+  previousEndTime?: string;
+  endTime?: string;
+}
+
+// A completed emergency unlock
+export interface BlockUnlock {
+  // ISO strings
+  requestedAt: string;
+  unlockedAt: string;
+  reason: string;
+}
+
+export interface BlockTargets {
+  // e.g. "reddit.com"; subdomains are blocked too where the format allows it
+  domains?: string[];
+  // uBlock Origin style patterns, e.g. "youtube.com/shorts/*"
+  urlPatterns?: string[];
+  // Application names, e.g. "Steam"
+  apps?: string[];
+}
+
+export interface TrashedBlock extends Block {
+  deletedAt: Date;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'everyNDays';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Days of the week for weekly rules, 0 = Sunday
+  weekdays?: number[];
+  // Days between occurrences for every-N-days rules
+  intervalDays?: number;
+  // Last day an occurrence may fall on, as YYYY-MM-DD
+  until?: string;
+  // Occurrences in the whole series, skipped ones included
+  count?: number;
+}
+
+// When a repeating block happens, in local time so it keeps its hours across daylight saving changes
+export interface BlockSchedule {
+  rule: RecurrenceRule;
+  // Day of the first occurrence, as YYYY-MM-DD
+  startDate: string;
+  // Time of day each occurrence starts, as HH:MM
+  startTime: string;
+  durationMinutes: number;
+  notes?: string;
+  // Days whose occurrence was skipped, as YYYY-MM-DD
+  skipped?: string[];
 }
 
 export interface StandardBlock {
   id: number;
   name: string;
   required?: boolean;
+  // Defaults for blocks created from this standard block
+  durationMinutes?: number;
+  notes?: string;
+  // Time of day (HH:MM) blocks start at; without one they start now
+  startTime?: string;
+  // Start now even when a time of day is set
+  startImmediately?: boolean;
+  // Blocks created from this standard block start out locked
+  locked?: boolean;
+  category?: string;
+  tags?: string[];
+  targets?: BlockTargets;
+  // Occurrences of this block are created automatically while it has a schedule
+  schedule?: BlockSchedule;
 }
 
 export interface RemainingTime {
@@ -27,4 +132,15 @@ export interface BlockFormData {
   startTime: string;
   endTime: string;
   notes: string;
-}
\ No newline at end of file
+  category: string;
+  // Comma-separated
+  tags: string;
+  locked: boolean;
+}
+
+export interface QuarantinedEntry {
+  collection: 'blocks' | 'standardBlocks' | 'trash';
+  entry: unknown;
+  reasons: string[];
+  quarantinedAt: string;
+}
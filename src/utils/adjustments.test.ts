@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { describeActivity, extendBlock, getEffectiveEndTime, getTomorrowMorning, isPaused, pauseBlock, resumeBlock } from './adjustments';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-01-01T09:00:00'),
+  endTime: new Date('2024-01-01T17:00:00')
+};
+
+describe('adjustments', () => {
+  it('should extend a block and log the extension', () => {
+    const extended = extendBlock(block, new Date('2024-01-01T18:00:00'), new Date('2024-01-01T12:00:00'));
+
+    expect(extended?.endTime).toEqual(new Date('2024-01-01T18:00:00'));
+    expect(extended?.activity).toEqual([{
+      at: new Date('2024-01-01T12:00:00').toISOString(),
+      action: 'extend',
+      previousEndTime: block.endTime.toISOString(),
+      endTime: new Date('2024-01-01T18:00:00').toISOString()
+    }]);
+    expect(extendBlock(block, new Date('2024-01-01T16:00:00'))).toBeNull();
+  });
+
+  it('should push the end back by the length of a pause on resume', () => {
+    const paused = pauseBlock(block, new Date('2024-01-01T12:00:00'))!;
+
+    expect(isPaused(paused)).toBe(true);
+    expect(pauseBlock(paused)).toBeNull();
+    expect(getEffectiveEndTime(paused, new Date('2024-01-01T12:30:00'))).toEqual(new Date('2024-01-01T17:30:00'));
+
+    const resumed = resumeBlock(paused, new Date('2024-01-01T12:45:00'))!;
+
+    expect(isPaused(resumed)).toBe(false);
+    expect(resumed.endTime).toEqual(new Date('2024-01-01T17:45:00'));
+    expect(resumed.pauses).toEqual([{
+      start: new Date('2024-01-01T12:00:00').toISOString(),
+      end: new Date('2024-01-01T12:45:00').toISOString()
+    }]);
+    expect(resumed.activity?.map(entry => entry.action)).toEqual(['pause', 'resume']);
+    expect(describeActivity(resumed)).toBe('Paused 1×');
+  });
+
+  it('should find tomorrow morning', () => {
+    expect(getTomorrowMorning(new Date('2024-01-01T23:30:00'))).toEqual(new Date('2024-01-02T08:00:00'));
+  });
+});
@@ -0,0 +1,83 @@
+import { Block, BlockActivity } from '../types';
+import { getOngoingPauseMs } from './timeUtils';
+
+export const QUICK_EXTENSIONS = [
+  { label: '+15m', minutes: 15 },
+  { label: '+1h', minutes: 60 }
+];
+
+// "Until tomorrow morning" ends at this hour
+export const MORNING_HOUR = 8;
+
+export const getTomorrowMorning = (now: Date = new Date()): Date => {
+  const morning = new Date(now);
+  morning.setDate(morning.getDate() + 1);
+  morning.setHours(MORNING_HOUR, 0, 0, 0);
+  return morning;
+};
+
+export const isPaused = (block: Block): boolean => {
+  return (block.pauses ?? []).some(pause => !pause.end);
+};
+
+// When the block will end, counting the pause that is still going on
+export const getEffectiveEndTime = (block: Block, now: Date = new Date()): Date => {
+  return new Date(block.endTime.getTime() + getOngoingPauseMs(block.pauses, now));
+};
+
+const logActivity = (block: Block, entry: BlockActivity): BlockActivity[] => [...(block.activity ?? []), entry];
+
+// The block ending later, or null if the new end isn't later
+export const extendBlock = (block: Block, endTime: Date, now: Date = new Date()): Block | null => {
+  if (endTime <= block.endTime) return null;
+  return {
+    ...block,
+    endTime,
+    activity: logActivity(block, {
+      at: now.toISOString(),
+      action: 'extend',
+      previousEndTime: block.endTime.toISOString(),
+      endTime: endTime.toISOString()
+    })
+  };
+};
+
+export const pauseBlock = (block: Block, now: Date = new Date()): Block | null => {
+  if (isPaused(block)) return null;
+  return {
+    ...block,
+    pauses: [...(block.pauses ?? []), { start: now.toISOString() }],
+    activity: logActivity(block, { at: now.toISOString(), action: 'pause' })
+  };
+};
+
+// Close the pause and push the end back by its length, so no blocked time is lost
+export const resumeBlock = (block: Block, now: Date = new Date()): Block | null => {
+  if (!isPaused(block)) return null;
+  const endTime = getEffectiveEndTime(block, now);
+  return {
+    ...block,
+    endTime,
+    pauses: (block.pauses ?? []).map(pause => pause.end ? pause : { ...pause, end: now.toISOString() }),
+    activity: logActivity(block, {
+      at: now.toISOString(),
+      action: 'resume',
+      previousEndTime: block.endTime.toISOString(),
+      endTime: endTime.toISOString()
+    })
+  };
+};
+
+// e.g. "Extended 2×, paused 1×", or null without any activity
+export const describeActivity = (block: Block): string | null => {
+  const activity = block.activity ?? [];
+  const extensions = activity.filter(entry => entry.action === 'extend').length;
+  const pauses = activity.filter(entry => entry.action === 'pause').length;
+  const parts = [
+    extensions > 0 ? `Extended ${extensions}×` : null,
+    pauses > 0 ? `paused ${pauses}×` : null
+  ].filter((part): part is string => part !== null);
+  if (parts.length === 0) return null;
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { ArchiveStore, archiveBlocks, createDirectoryArchiveStore, readArchive } from './archiveStorage';
+import { BROWSER_SOURCE_ID } from './dataSources';
+
+const createMemoryStore = () => {
+  const contents = new Map<string, string>();
+  const store: ArchiveStore = {
+    list: async () => Array.from(contents.keys()).sort().reverse(),
+    read: async (month) => contents.get(month) ?? '',
+    write: async (month, content) => {
+      contents.set(month, content);
+    }
+  };
+  return { store, contents };
+};
+
+// Just enough of a granted directory for the directory stores: files and subdirectories in maps
+const createDirectory = (): FileSystemDirectoryHandle => {
+  const files = new Map<string, string>();
+  const directories = new Map<string, FileSystemDirectoryHandle>();
+  const directory = {
+    values: async function* () {
+      for (const name of files.keys()) yield { kind: 'file', name };
+      for (const name of directories.keys()) yield { kind: 'directory', name };
+    },
+    getFileHandle: async (name: string, options?: { create?: boolean }) => {
+      if (!files.has(name) && !options?.create) throw new DOMException(name, 'NotFoundError');
+      return {
+        getFile: async () => ({ text: async () => files.get(name) ?? '' }),
+        createWritable: async () => ({
+          write: async (content: string) => {
+            files.set(name, content);
+          },
+          close: async () => {}
+        })
+      };
+    },
+    getDirectoryHandle: async (name: string) => {
+      if (!directories.has(name)) directories.set(name, createDirectory());
+      return directories.get(name);
+    },
+    removeEntry: async (name: string) => {
+      files.delete(name);
+    }
+  };
+  return directory as unknown as FileSystemDirectoryHandle;
+};
+
+const createBlock = (id: number, end: string) => ({
+  id,
+  name: `Block ${id}`,
+  startTime: new Date(new Date(end).getTime() - 60 * 60 * 1000),
+  endTime: new Date(end)
+});
+
+describe('archiveBlocks', () => {
+  it('should add old blocks to their monthly archives and report their ids', async () => {
+    const { store } = createMemoryStore();
+    await archiveBlocks(store, [createBlock(1, '2024-01-10T12:00:00')], new Date('2024-03-01T00:00:00'));
+
+    const archived = await archiveBlocks(store, [
+      createBlock(2, '2024-01-20T12:00:00'),
+      createBlock(3, '2024-02-10T12:00:00'),
+      createBlock(4, '2024-03-10T12:00:00')
+    ], new Date('2024-03-01T00:00:00'));
+
+    expect(archived).toEqual([2, 3]);
+    expect(await store.list()).toEqual(['2024-02', '2024-01']);
+    expect((await readArchive(store, '2024-01')).map(block => block.id)).toEqual([1, 2]);
+  });
+
+  it('should seal archive content with the codec', async () => {
+    const { store, contents } = createMemoryStore();
+    const codec = {
+      seal: async (text: string) => `sealed:${text}`,
+      open: async (text: string) => text.replace(/^sealed:/, '')
+    };
+
+    await archiveBlocks(store, [createBlock(1, '2024-01-10T12:00:00')], new Date('2024-03-01T00:00:00'), codec);
+
+    expect(contents.get('2024-01')?.startsWith('sealed:')).toBe(true);
+    expect(await readArchive(store, '2024-01', codec)).toHaveLength(1);
+  });
+
+  it('should keep malformed entries when adding to an archive', async () => {
+    const { store, contents } = createMemoryStore();
+    await archiveBlocks(store, [createBlock(1, '2024-01-10T12:00:00')], new Date('2024-03-01T00:00:00'));
+    const file = JSON.parse(contents.get('2024-01') ?? '');
+    const malformed = { id: 'broken', name: 'Hand edited' };
+    contents.set('2024-01', JSON.stringify({ ...file, blocks: [...file.blocks, malformed] }));
+
+    await archiveBlocks(store, [createBlock(2, '2024-01-20T12:00:00')], new Date('2024-03-01T00:00:00'));
+
+    expect(JSON.parse(contents.get('2024-01') ?? '').blocks).toContainEqual(malformed);
+    expect((await readArchive(store, '2024-01')).map(block => block.id)).toEqual([1, 2]);
+  });
+
+  it('should read a month without an archive as empty', async () => {
+    expect(await readArchive(createMemoryStore().store, '2024-01')).toEqual([]);
+  });
+});
+
+describe('createDirectoryArchiveStore', () => {
+  it('should keep the archives of each data source apart', async () => {
+    const directory = createDirectory();
+    const first = createDirectoryArchiveStore(directory, 'sync:https://example.com');
+    const second = createDirectoryArchiveStore(directory, 'file:blocks.json');
+    const browser = createDirectoryArchiveStore(directory, BROWSER_SOURCE_ID);
+
+    await archiveBlocks(first, [createBlock(1, '2024-01-10T10:00:00')], new Date('2024-03-01T00:00:00'));
+    expect(await first.list()).toEqual(['2024-01']);
+    expect(await second.list()).toEqual([]);
+    expect(await browser.list()).toEqual([]);
+    expect(await readArchive(second, '2024-01')).toEqual([]);
+    expect((await readArchive(first, '2024-01')).map(block => block.id)).toEqual([1]);
+  });
+});
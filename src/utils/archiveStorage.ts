@@ -0,0 +1,151 @@
+import { Block } from '../types';
+import { fromSourceKey, getSourceDirectory, toSourceKey } from './dataSources';
+import {
+  addToArchive,
+  getArchiveId,
+  getBlocksToArchive,
+  parseArchive,
+  parseArchiveContent,
+  parseArchiveId,
+  serializeArchive
+} from './archives';
+
+// Ask the user for a directory to keep archive files in
+export const selectArchiveDirectory = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    return await window.showDirectoryPicker({ id: 'sc-blocker-archives', mode: 'readwrite' });
+  } catch {
+    console.log('Archive directory selection cancelled');
+    return null;
+  }
+};
+
+// Where monthly archives are kept: a user-granted directory, or IndexedDB when none was granted
+export interface ArchiveStore {
+  // Archived months, newest first
+  list: () => Promise<string[]>;
+  // Empty if the month has no archive yet
+  read: (month: string) => Promise<string>;
+  write: (month: string, content: string) => Promise<void>;
+}
+
+const sortMonths = (months: string[]) => [...months].sort().reverse();
+
+// Each data source's archives go in their own directory inside the granted one
+export const createDirectoryArchiveStore = (directory: FileSystemDirectoryHandle, sourceId: string): ArchiveStore => ({
+  list: async () => {
+    const months: string[] = [];
+    for await (const entry of (await getSourceDirectory(directory, sourceId)).values()) {
+      const month = entry.kind === 'file' ? parseArchiveId(entry.name) : null;
+      if (month) months.push(month);
+    }
+    return sortMonths(months);
+  },
+  read: async (month) => {
+    try {
+      const handle = await (await getSourceDirectory(directory, sourceId)).getFileHandle(getArchiveId(month));
+      const file = await handle.getFile();
+      return file.text();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') return '';
+      throw error;
+    }
+  },
+  write: async (month, content) => {
+    const handle = await (await getSourceDirectory(directory, sourceId)).getFileHandle(getArchiveId(month), { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+  }
+});
+
+const ARCHIVE_DB_NAME = 'SCBlockerArchives';
+const ARCHIVE_DB_VERSION = 1;
+const ARCHIVE_STORE_NAME = 'archives';
+
+interface StoredArchive {
+  // The month, prefixed with its data source
+  month: string;
+  content: string;
+}
+
+const openArchiveDB = async (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(ARCHIVE_DB_NAME, ARCHIVE_DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(ARCHIVE_STORE_NAME)) {
+        db.createObjectStore(ARCHIVE_STORE_NAME, { keyPath: 'month' });
+      }
+    };
+  });
+};
+
+// Run a single request against the archive store and resolve with its result
+const withArchiveStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openArchiveDB();
+  const transaction = db.transaction([ARCHIVE_STORE_NAME], mode);
+  const request = run(transaction.objectStore(ARCHIVE_STORE_NAME));
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const createIndexedDBArchiveStore = (sourceId: string): ArchiveStore => ({
+  list: async () => {
+    const keys = await withArchiveStore<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return sortMonths(keys.flatMap(key => fromSourceKey(sourceId, String(key)) ?? []));
+  },
+  read: async (month) => {
+    const stored = await withArchiveStore<StoredArchive | undefined>('readonly', store => store.get(toSourceKey(sourceId, month)));
+    return stored?.content ?? '';
+  },
+  write: async (month, content) => {
+    const stored: StoredArchive = { month: toSourceKey(sourceId, month), content };
+    await withArchiveStore('readwrite', store => store.put(stored));
+  }
+});
+
+// Encrypts and decrypts archive content the same way as the data it came from
+export interface ArchiveCodec {
+  seal: (text: string) => Promise<string>;
+  open: (text: string) => Promise<string>;
+}
+
+export const plainArchiveCodec: ArchiveCodec = {
+  seal: async (text) => text,
+  open: async (text) => text
+};
+
+export const readArchive = async (store: ArchiveStore, month: string, codec: ArchiveCodec = plainArchiveCodec): Promise<Block[]> => {
+  const content = await store.read(month);
+  return content ? parseArchive(await codec.open(content)) : [];
+};
+
+// Copy blocks that ended before the cutoff into their monthly archives. Returns the ids that were
+// archived; they are only safe to remove from the data once this resolves.
+export const archiveBlocks = async (
+  store: ArchiveStore,
+  blocks: Block[],
+  cutoff: Date,
+  codec: ArchiveCodec = plainArchiveCodec
+): Promise<number[]> => {
+  const archived: number[] = [];
+  for (const [month, monthBlocks] of getBlocksToArchive(blocks, cutoff)) {
+    // Malformed entries are carried over, so rewriting the month never loses them
+    const content = await store.read(month);
+    const existing = content ? parseArchiveContent(await codec.open(content)) : { blocks: [], malformed: [] };
+    const blocks = addToArchive(existing.blocks, monthBlocks);
+    await store.write(month, await codec.seal(serializeArchive(month, blocks, existing.malformed)));
+    archived.push(...monthBlocks.map(block => block.id));
+  }
+  return archived;
+};
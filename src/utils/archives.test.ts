@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addToArchive,
+  getArchiveCutoff,
+  getArchiveId,
+  getArchiveMonth,
+  getBlocksToArchive,
+  parseArchive,
+  parseArchiveId,
+  serializeArchive
+} from './archives';
+
+const createBlock = (id: number, end: string) => ({
+  id,
+  name: `Block ${id}`,
+  startTime: new Date(new Date(end).getTime() - 60 * 60 * 1000),
+  endTime: new Date(end)
+});
+
+describe('archives', () => {
+  it('should group blocks that ended before the cutoff by month', () => {
+    const blocks = [
+      createBlock(1, '2024-01-10T12:00:00'),
+      createBlock(2, '2024-01-20T12:00:00'),
+      createBlock(3, '2024-02-05T12:00:00'),
+      createBlock(4, '2024-03-01T12:00:00')
+    ];
+
+    const byMonth = getBlocksToArchive(blocks, new Date('2024-02-15T00:00:00'));
+
+    expect(Array.from(byMonth.keys())).toEqual(['2024-01', '2024-02']);
+    expect(byMonth.get('2024-01')?.map(block => block.id)).toEqual([1, 2]);
+  });
+
+  it('should turn archiving off when no days are configured', () => {
+    expect(getArchiveCutoff(0)).toBeNull();
+    expect(getArchiveCutoff(30, new Date('2024-03-31T00:00:00Z'))).toEqual(new Date('2024-03-01T00:00:00Z'));
+  });
+
+  it('should replace blocks that were archived before', () => {
+    const archived = [createBlock(1, '2024-01-10T12:00:00'), createBlock(2, '2024-01-20T12:00:00')];
+    const edited = { ...createBlock(1, '2024-01-10T12:00:00'), notes: 'Edited' };
+
+    const merged = addToArchive(archived, [edited, createBlock(3, '2024-01-05T12:00:00')]);
+
+    expect(merged.map(block => block.id)).toEqual([3, 1, 2]);
+    expect(merged[1].notes).toBe('Edited');
+  });
+
+  it('should read back what it wrote and skip malformed blocks', () => {
+    const block = createBlock(1, '2024-01-10T12:00:00');
+    const content = JSON.parse(serializeArchive('2024-01', [block]));
+    content.blocks.push({ id: 2, name: '' });
+
+    expect(parseArchive(JSON.stringify(content))).toEqual([block]);
+  });
+
+  it('should refuse content that is not an archive', () => {
+    expect(() => parseArchive('{"blocks":[]}')).toThrow('not a Tech Blocker archive');
+  });
+
+  it('should name archive files by month', () => {
+    expect(getArchiveMonth(new Date(2024, 0, 31, 23, 59))).toBe('2024-01');
+    expect(getArchiveId('2024-01')).toBe('archive-2024-01.json');
+    expect(parseArchiveId('archive-2024-01.json')).toBe('2024-01');
+    expect(parseArchiveId('hourly-2024-01-01.json')).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { Block } from '../types';
+import { CURRENT_SCHEMA_VERSION, NewerSchemaVersionError, isNewerSchemaVersion } from './migrations';
+import { validateBlock } from './validation';
+
+export const ARCHIVE_FILE_FORMAT = 'sc-blocker-archive';
+export const ARCHIVE_FILE_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ARCHIVE_ID_PATTERN = /^archive-(\d{4}-\d{2})\.json$/;
+
+// Completed blocks moved out of the data file, one archive per month they ended in
+export interface ArchiveFile {
+  format: typeof ARCHIVE_FILE_FORMAT;
+  version: typeof ARCHIVE_FILE_VERSION;
+  schemaVersion: number;
+  // Local calendar month, e.g. "2024-03"
+  month: string;
+  blocks: Block[];
+}
+
+// The month a block is archived under: the local month it ended in
+export const getArchiveMonth = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// The local start and end of an archive month
+export const getArchiveMonthRange = (month: string): { start: Date; end: Date } => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return { start: new Date(year, monthIndex - 1, 1), end: new Date(year, monthIndex, 1) };
+};
+
+export const getArchiveId = (month: string): string => `archive-${month}.json`;
+
+export const parseArchiveId = (id: string): string | null => {
+  return ARCHIVE_ID_PATTERN.exec(id)?.[1] ?? null;
+};
+
+// Blocks that ended before this are archived; 0 days turns archiving off
+export const getArchiveCutoff = (archiveAfterDays: number, now: Date = new Date()): Date | null => {
+  return archiveAfterDays > 0 ? new Date(now.getTime() - archiveAfterDays * DAY_MS) : null;
+};
+
+// Group the blocks that ended before the cutoff by the month they are archived under
+export const getBlocksToArchive = (blocks: Block[], cutoff: Date): Map<string, Block[]> => {
+  const byMonth = new Map<string, Block[]>();
+  blocks
+    .filter(block => block.endTime < cutoff)
+    .forEach(block => {
+      const month = getArchiveMonth(block.endTime);
+      byMonth.set(month, [...(byMonth.get(month) ?? []), block]);
+    });
+  return byMonth;
+};
+
+// Add blocks to an archive, replacing earlier copies with the same id, oldest first
+export const addToArchive = (archived: Block[], added: Block[]): Block[] => {
+  const addedIds = new Set(added.map(block => block.id));
+  return [...archived.filter(block => !addedIds.has(block.id)), ...added]
+    .sort((a, b) => a.endTime.getTime() - b.endTime.getTime());
+};
+
+// Malformed entries read from the archive are written back as they were, so they can still be fixed by hand
+export const serializeArchive = (month: string, blocks: Block[], malformed: unknown[] = []): string => {
+  const file: ArchiveFile = {
+    format: ARCHIVE_FILE_FORMAT,
+    version: ARCHIVE_FILE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    month,
+    blocks: [...blocks, ...malformed] as Block[]
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export interface ArchiveContent {
+  blocks: Block[];
+  // Raw entries that don't validate
+  malformed: unknown[];
+}
+
+// Read an archive's blocks, setting aside entries that don't validate rather than failing the whole month
+export const parseArchiveContent = (text: string): ArchiveContent => {
+  if (!text.trim()) {
+    return { blocks: [], malformed: [] };
+  }
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== ARCHIVE_FILE_FORMAT) {
+    throw new Error('Content is not a Tech Blocker archive.');
+  }
+  if (typeof parsed.schemaVersion === 'number' && isNewerSchemaVersion(parsed.schemaVersion)) {
+    throw new NewerSchemaVersionError(parsed.schemaVersion);
+  }
+
+  const seenIds = new Set<number>();
+  const content: ArchiveContent = { blocks: [], malformed: [] };
+  (Array.isArray(parsed.blocks) ? parsed.blocks : []).forEach((raw: unknown) => {
+    const { block } = validateBlock(raw, seenIds);
+    if (block) {
+      seenIds.add(block.id);
+      content.blocks.push(block);
+    } else {
+      console.warn('Skipping malformed archived block:', raw);
+      content.malformed.push(raw);
+    }
+  });
+  return content;
+};
+
+export const parseArchive = (text: string): Block[] => parseArchiveContent(text).blocks;
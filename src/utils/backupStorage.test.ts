@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { BackupStore, createDirectoryBackupStore, runBackups } from './backupStorage';
+import { BackupSnapshotInfo, getBackupId } from './backups';
+import { BROWSER_SOURCE_ID } from './dataSources';
+
+const createMemoryStore = () => {
+  const contents = new Map<string, { snapshot: BackupSnapshotInfo; content: string }>();
+  const store: BackupStore = {
+    list: async () => Array.from(contents.values()).map(entry => entry.snapshot),
+    read: async (id) => contents.get(id)?.content ?? '',
+    write: async (snapshot, content) => {
+      contents.set(snapshot.id, { snapshot, content });
+    },
+    remove: async (id) => {
+      contents.delete(id);
+    }
+  };
+  return { store, contents };
+};
+
+// Just enough of a granted directory for the directory stores: files and subdirectories in maps
+const createDirectory = (): FileSystemDirectoryHandle => {
+  const files = new Map<string, string>();
+  const directories = new Map<string, FileSystemDirectoryHandle>();
+  const directory = {
+    values: async function* () {
+      for (const name of files.keys()) yield { kind: 'file', name };
+      for (const name of directories.keys()) yield { kind: 'directory', name };
+    },
+    getFileHandle: async (name: string, options?: { create?: boolean }) => {
+      if (!files.has(name) && !options?.create) throw new DOMException(name, 'NotFoundError');
+      return {
+        getFile: async () => ({ text: async () => files.get(name) ?? '' }),
+        createWritable: async () => ({
+          write: async (content: string) => {
+            files.set(name, content);
+          },
+          close: async () => {}
+        })
+      };
+    },
+    getDirectoryHandle: async (name: string) => {
+      if (!directories.has(name)) directories.set(name, createDirectory());
+      return directories.get(name);
+    },
+    removeEntry: async (name: string) => {
+      files.delete(name);
+    }
+  };
+  return directory as unknown as FileSystemDirectoryHandle;
+};
+
+const retention = { hourly: 2, daily: 1, weekly: 0 };
+
+describe('runBackups', () => {
+  it('should write a snapshot for each due tier', async () => {
+    const { store } = createMemoryStore();
+
+    const snapshots = await runBackups(store, '{"blocks":[]}', retention, new Date('2024-01-01T09:00:00Z'));
+
+    expect(snapshots.map(snapshot => snapshot.tier)).toEqual(['hourly', 'daily']);
+    expect(await store.read(snapshots[0].id)).toBe('{"blocks":[]}');
+  });
+
+  it('should rotate out snapshots beyond the retention count', async () => {
+    const { store, contents } = createMemoryStore();
+
+    await runBackups(store, 'first', retention, new Date('2024-01-01T09:00:00Z'));
+    await runBackups(store, 'second', retention, new Date('2024-01-01T10:00:00Z'));
+    const snapshots = await runBackups(store, 'third', retention, new Date('2024-01-01T11:00:00Z'));
+
+    const hourly = snapshots.filter(snapshot => snapshot.tier === 'hourly');
+    expect(hourly.map(snapshot => snapshot.createdAt.toISOString())).toEqual([
+      '2024-01-01T11:00:00.000Z',
+      '2024-01-01T10:00:00.000Z'
+    ]);
+    expect(contents.size).toBe(3);
+  });
+
+  it('should write forced tiers even when they are not due', async () => {
+    const { store } = createMemoryStore();
+
+    await runBackups(store, 'first', retention, new Date('2024-01-01T09:00:00Z'));
+    const snapshots = await runBackups(store, 'manual', retention, new Date('2024-01-01T09:10:00Z'), ['hourly']);
+
+    expect(snapshots.filter(snapshot => snapshot.tier === 'hourly')).toHaveLength(2);
+  });
+});
+
+describe('createDirectoryBackupStore', () => {
+  it('should keep the snapshots of each data source apart', async () => {
+    const directory = createDirectory();
+    const first = createDirectoryBackupStore(directory, 'file:first.json');
+    const second = createDirectoryBackupStore(directory, 'file:second.json');
+    const browser = createDirectoryBackupStore(directory, BROWSER_SOURCE_ID);
+    const createdAt = new Date('2024-01-01T10:00:00.000Z');
+    const snapshot: BackupSnapshotInfo = { id: getBackupId('hourly', createdAt), tier: 'hourly', createdAt };
+
+    await first.write(snapshot, 'first');
+    expect(await first.list()).toEqual([snapshot]);
+    expect(await second.list()).toEqual([]);
+    expect(await browser.list()).toEqual([]);
+
+    await second.write(snapshot, 'second');
+    expect(await first.read(snapshot.id)).toBe('first');
+    expect(await second.read(snapshot.id)).toBe('second');
+
+    await second.remove(snapshot.id);
+    expect(await first.list()).toEqual([snapshot]);
+  });
+});
@@ -0,0 +1,150 @@
+import { fromSourceKey, getSourceDirectory, toSourceKey } from './dataSources';
+import { BackupRetention, BackupSnapshotInfo, BackupTier, getBackupId, getDueTiers, getSnapshotsToPrune, parseBackupId, sortSnapshots } from './backups';
+
+export const isDirectoryPickerSupported = (): boolean => {
+  return 'showDirectoryPicker' in window;
+};
+
+// Ask the user for a directory to keep backups in
+export const selectBackupDirectory = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    return await window.showDirectoryPicker({ id: 'sc-blocker-backups', mode: 'readwrite' });
+  } catch {
+    console.log('Backup directory selection cancelled');
+    return null;
+  }
+};
+
+// Where snapshots are kept: a user-granted directory, or IndexedDB when none was granted
+export interface BackupStore {
+  list: () => Promise<BackupSnapshotInfo[]>;
+  read: (id: string) => Promise<string>;
+  write: (snapshot: BackupSnapshotInfo, content: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Each data source's snapshots go in their own directory inside the granted one
+export const createDirectoryBackupStore = (directory: FileSystemDirectoryHandle, sourceId: string): BackupStore => ({
+  list: async () => {
+    const snapshots: BackupSnapshotInfo[] = [];
+    for await (const entry of (await getSourceDirectory(directory, sourceId)).values()) {
+      const snapshot = entry.kind === 'file' ? parseBackupId(entry.name) : null;
+      if (snapshot) snapshots.push(snapshot);
+    }
+    return sortSnapshots(snapshots);
+  },
+  read: async (id) => {
+    const handle = await (await getSourceDirectory(directory, sourceId)).getFileHandle(id);
+    const file = await handle.getFile();
+    return file.text();
+  },
+  write: async (snapshot, content) => {
+    const handle = await (await getSourceDirectory(directory, sourceId)).getFileHandle(snapshot.id, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+  },
+  remove: async (id) => {
+    await (await getSourceDirectory(directory, sourceId)).removeEntry(id);
+  }
+});
+
+const BACKUP_DB_NAME = 'SCBlockerBackups';
+const BACKUP_DB_VERSION = 1;
+const SNAPSHOT_STORE_NAME = 'snapshots';
+
+interface StoredSnapshot {
+  // The snapshot id, prefixed with its data source
+  id: string;
+  tier: BackupTier;
+  createdAt: string;
+  content: string;
+}
+
+const openBackupDB = async (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(BACKUP_DB_NAME, BACKUP_DB_VERSION);
+    
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE_NAME)) {
+        db.createObjectStore(SNAPSHOT_STORE_NAME, { keyPath: 'id' });
+      }
+    };
+  });
+};
+
+// Run a single request against the snapshot store and resolve with its result
+const withSnapshotStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openBackupDB();
+  const transaction = db.transaction([SNAPSHOT_STORE_NAME], mode);
+  const request = run(transaction.objectStore(SNAPSHOT_STORE_NAME));
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const createIndexedDBBackupStore = (sourceId: string): BackupStore => ({
+  list: async () => {
+    const stored = await withSnapshotStore<StoredSnapshot[]>('readonly', store => store.getAll());
+    return sortSnapshots(stored.flatMap(snapshot => {
+      const id = fromSourceKey(sourceId, snapshot.id);
+      return id ? [{ id, tier: snapshot.tier, createdAt: new Date(snapshot.createdAt) }] : [];
+    }));
+  },
+  read: async (id) => {
+    const stored = await withSnapshotStore<StoredSnapshot | undefined>('readonly', store => store.get(toSourceKey(sourceId, id)));
+    if (!stored) {
+      throw new Error(`Backup ${id} no longer exists`);
+    }
+    return stored.content;
+  },
+  write: async (snapshot, content) => {
+    const stored: StoredSnapshot = {
+      id: toSourceKey(sourceId, snapshot.id),
+      tier: snapshot.tier,
+      createdAt: snapshot.createdAt.toISOString(),
+      content
+    };
+    await withSnapshotStore('readwrite', store => store.put(stored));
+  },
+  remove: async (id) => {
+    await withSnapshotStore('readwrite', store => store.delete(toSourceKey(sourceId, id)));
+  }
+});
+
+// Write a snapshot for every tier that is due, then drop snapshots beyond each tier's count.
+// `tiers` forces snapshots for those tiers whether or not they are due.
+export const runBackups = async (
+  store: BackupStore,
+  content: string,
+  retention: BackupRetention,
+  now: Date = new Date(),
+  tiers: BackupTier[] = []
+): Promise<BackupSnapshotInfo[]> => {
+  const existing = await store.list();
+  const due = new Set([...getDueTiers(existing, retention, now), ...tiers]);
+  
+  const written: BackupSnapshotInfo[] = [];
+  for (const tier of due) {
+    const snapshot = { id: getBackupId(tier, now), tier, createdAt: now };
+    await store.write(snapshot, content);
+    written.push(snapshot);
+  }
+  
+  const all = [...written, ...existing];
+  const pruned = getSnapshotsToPrune(all, retention);
+  for (const snapshot of pruned) {
+    await store.remove(snapshot.id);
+  }
+  
+  const prunedIds = new Set(pruned.map(snapshot => snapshot.id));
+  return sortSnapshots(all.filter(snapshot => !prunedIds.has(snapshot.id)));
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getBackupId, parseBackupId, getDueTiers, getSnapshotsToPrune, BackupSnapshotInfo } from './backups';
+
+const retention = { hourly: 2, daily: 2, weekly: 1 };
+
+const snapshot = (tier: BackupSnapshotInfo['tier'], iso: string): BackupSnapshotInfo => {
+  const createdAt = new Date(iso);
+  return { id: getBackupId(tier, createdAt), tier, createdAt };
+};
+
+describe('getBackupId and parseBackupId', () => {
+  it('should round-trip the tier and creation time', () => {
+    const createdAt = new Date('2024-01-02T03:04:05.678Z');
+    const id = getBackupId('daily', createdAt);
+
+    expect(id).toBe('backup-daily-2024-01-02T03-04-05-678Z.json');
+    expect(parseBackupId(id)).toEqual({ id, tier: 'daily', createdAt });
+  });
+
+  it('should ignore unrelated file names', () => {
+    expect(parseBackupId('sc-blocker-data.json')).toBeNull();
+    expect(parseBackupId('backup-monthly-2024-01-02T03-04-05-678Z.json')).toBeNull();
+  });
+});
+
+describe('getDueTiers', () => {
+  it('should make every enabled tier due when there are no snapshots', () => {
+    expect(getDueTiers([], { ...retention, weekly: 0 })).toEqual(['hourly', 'daily']);
+  });
+
+  it('should wait a full interval since the latest snapshot of a tier', () => {
+    const snapshots = [
+      snapshot('hourly', '2024-01-01T09:00:00Z'),
+      snapshot('daily', '2024-01-01T09:00:00Z'),
+      snapshot('weekly', '2024-01-01T09:00:00Z')
+    ];
+
+    expect(getDueTiers(snapshots, retention, new Date('2024-01-01T09:59:00Z'))).toEqual([]);
+    expect(getDueTiers(snapshots, retention, new Date('2024-01-01T10:00:00Z'))).toEqual(['hourly']);
+    expect(getDueTiers(snapshots, retention, new Date('2024-01-02T09:00:00Z'))).toEqual(['hourly', 'daily']);
+  });
+});
+
+describe('getSnapshotsToPrune', () => {
+  it('should keep the newest snapshots of each tier up to its count', () => {
+    const snapshots = [
+      snapshot('hourly', '2024-01-01T09:00:00Z'),
+      snapshot('hourly', '2024-01-01T11:00:00Z'),
+      snapshot('hourly', '2024-01-01T10:00:00Z'),
+      snapshot('weekly', '2024-01-01T09:00:00Z')
+    ];
+
+    expect(getSnapshotsToPrune(snapshots, retention)).toEqual([snapshots[0]]);
+    expect(getSnapshotsToPrune(snapshots, { ...retention, weekly: 0 })).toEqual([snapshots[0], snapshots[3]]);
+  });
+});
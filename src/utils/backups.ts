@@ -0,0 +1,68 @@
+export type BackupTier = 'hourly' | 'daily' | 'weekly';
+
+export const BACKUP_TIERS: BackupTier[] = ['hourly', 'daily', 'weekly'];
+
+// Number of snapshots kept per tier; 0 turns a tier off
+export type BackupRetention = Record<BackupTier, number>;
+
+export interface BackupSnapshotInfo {
+  id: string;
+  tier: BackupTier;
+  createdAt: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const TIER_INTERVALS: Record<BackupTier, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS
+};
+
+const BACKUP_ID_PATTERN = /^backup-(hourly|daily|weekly)-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/;
+
+// Snapshot ids double as file names in a backup directory, so they avoid ':' and '.'
+export const getBackupId = (tier: BackupTier, createdAt: Date): string => {
+  return `backup-${tier}-${createdAt.toISOString().replace(/[:.]/g, '-')}.json`;
+};
+
+export const parseBackupId = (id: string): BackupSnapshotInfo | null => {
+  const match = BACKUP_ID_PATTERN.exec(id);
+  if (!match) return null;
+
+  const [, tier, date, hours, minutes, seconds, milliseconds] = match;
+  const createdAt = new Date(`${date}T${hours}:${minutes}:${seconds}.${milliseconds}Z`);
+  if (isNaN(createdAt.getTime())) return null;
+
+  return { id, tier: tier as BackupTier, createdAt };
+};
+
+// Newest first
+export const sortSnapshots = (snapshots: BackupSnapshotInfo[]): BackupSnapshotInfo[] => {
+  return [...snapshots].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+// Tiers whose most recent snapshot is at least one interval old
+export const getDueTiers = (
+  snapshots: BackupSnapshotInfo[],
+  retention: BackupRetention,
+  now: Date = new Date()
+): BackupTier[] => {
+  return BACKUP_TIERS.filter(tier => {
+    if (retention[tier] <= 0) return false;
+    const latest = sortSnapshots(snapshots).find(snapshot => snapshot.tier === tier);
+    return !latest || now.getTime() - latest.createdAt.getTime() >= TIER_INTERVALS[tier];
+  });
+};
+
+// Snapshots beyond each tier's count, oldest ones first to go
+export const getSnapshotsToPrune = (
+  snapshots: BackupSnapshotInfo[],
+  retention: BackupRetention
+): BackupSnapshotInfo[] => {
+  return BACKUP_TIERS.flatMap(tier =>
+    sortSnapshots(snapshots)
+      .filter(snapshot => snapshot.tier === tier)
+      .slice(Math.max(retention[tier], 0))
+  );
+};
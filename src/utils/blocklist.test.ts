@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTargetManifest,
+  describeTargets,
+  exportHostsFragment,
+  exportUBlockFilters,
+  getEnforcedBlocks,
+  normalizeDomain,
+  toBlockTargets
+} from './blocklist';
+
+const now = new Date('2024-01-01T12:00:00.000Z');
+
+const createBlock = (id: number, start: string, end: string, targets = {}) => ({
+  id,
+  name: `Block ${id}`,
+  startTime: new Date(start),
+  endTime: new Date(end),
+  targets
+});
+
+describe('blocklist', () => {
+  it('should read target lists typed into a form', () => {
+    expect(normalizeDomain('https://www.Reddit.com:443/r/all')).toBe('www.reddit.com');
+    expect(toBlockTargets({ domains: 'reddit.com\nhttps://reddit.com/\n', urlPatterns: 'youtube.com/shorts/*', apps: '' }))
+      .toEqual({ domains: ['reddit.com'], urlPatterns: ['youtube.com/shorts/*'] });
+    expect(toBlockTargets({ domains: ' ', urlPatterns: '', apps: '' })).toBeUndefined();
+    expect(describeTargets({ domains: ['a.com'], urlPatterns: ['b.com/*'], apps: ['Steam'] })).toBe('2 sites, 1 app');
+  });
+
+  it('should only enforce running blocks that are not paused', () => {
+    const blocks = [
+      createBlock(1, '2024-01-01T09:00:00.000Z', '2024-01-01T17:00:00.000Z'),
+      createBlock(2, '2024-01-01T13:00:00.000Z', '2024-01-01T17:00:00.000Z'),
+      { ...createBlock(3, '2024-01-01T09:00:00.000Z', '2024-01-01T17:00:00.000Z'), pauses: [{ start: '2024-01-01T11:00:00.000Z' }] }
+    ];
+
+    expect(getEnforcedBlocks(blocks, now).map(block => block.id)).toEqual([1]);
+  });
+
+  it('should export hosts lines and uBlock filters for the merged targets', () => {
+    const blocks = [
+      createBlock(1, '2024-01-01T09:00:00.000Z', '2024-01-01T17:00:00.000Z', { domains: ['reddit.com'], apps: ['Steam'] }),
+      createBlock(2, '2024-01-01T09:00:00.000Z', '2024-01-01T17:00:00.000Z', {
+        domains: ['reddit.com', 'www.youtube.com'],
+        urlPatterns: ['youtube.com/shorts/*', '||example.com/feed^']
+      })
+    ];
+
+    expect(exportHostsFragment(blocks, now).split('\n').slice(1)).toEqual([
+      '0.0.0.0 reddit.com',
+      '0.0.0.0 www.reddit.com',
+      '0.0.0.0 www.youtube.com',
+      ''
+    ]);
+    expect(exportUBlockFilters(blocks, now).split('\n').slice(2)).toEqual([
+      '||reddit.com^',
+      '||www.youtube.com^',
+      '||youtube.com/shorts/*',
+      '||example.com/feed^',
+      ''
+    ]);
+
+    const manifest = createTargetManifest(blocks, now);
+    expect(manifest.targets).toEqual({
+      domains: ['reddit.com', 'www.youtube.com'],
+      urlPatterns: ['youtube.com/shorts/*', '||example.com/feed^'],
+      apps: ['Steam']
+    });
+    expect(manifest.blocks[0]).toEqual({
+      id: 1,
+      name: 'Block 1',
+      endTime: '2024-01-01T17:00:00.000Z',
+      targets: { domains: ['reddit.com'], urlPatterns: [], apps: ['Steam'] }
+    });
+  });
+});
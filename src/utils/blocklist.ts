@@ -0,0 +1,133 @@
+import { Block, BlockTargets } from '../types';
+import { getEffectiveEndTime, isPaused } from './adjustments';
+
+export const MANIFEST_FORMAT = 'sc-blocker-targets';
+export const MANIFEST_VERSION = 1;
+
+export interface TargetManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  generatedAt: string;
+  // Every target of the active blocks, merged
+  targets: Required<BlockTargets>;
+  blocks: {
+    id: number;
+    name: string;
+    endTime: string;
+    targets: Required<BlockTargets>;
+  }[];
+}
+
+// One entry per line or comma, without blanks or duplicates
+export const parseTargetList = (text: string): string[] => {
+  const items = text.split(/[\n,]/).map(item => item.trim()).filter(Boolean);
+  return Array.from(new Set(items));
+};
+
+export const formatTargetList = (items: string[] | undefined): string => (items ?? []).join('\n');
+
+// "https://www.Reddit.com/r/all" -> "www.reddit.com"
+export const normalizeDomain = (input: string): string => {
+  return input.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/^\*\./, '')
+    .replace(/\.$/, '');
+};
+
+// Target lists as edited in forms, one entry per line
+export interface TargetText {
+  domains: string;
+  urlPatterns: string;
+  apps: string;
+}
+
+export const toTargetText = (targets: BlockTargets | undefined): TargetText => ({
+  domains: formatTargetList(targets?.domains),
+  urlPatterns: formatTargetList(targets?.urlPatterns),
+  apps: formatTargetList(targets?.apps)
+});
+
+// Targets as stored, leaving out empty lists; undefined when nothing is targeted
+export const toBlockTargets = (text: TargetText): BlockTargets | undefined => {
+  const targets: BlockTargets = {};
+  const parsedDomains = Array.from(new Set(parseTargetList(text.domains).map(normalizeDomain).filter(Boolean)));
+  const parsedPatterns = parseTargetList(text.urlPatterns);
+  const parsedApps = parseTargetList(text.apps);
+  if (parsedDomains.length > 0) targets.domains = parsedDomains;
+  if (parsedPatterns.length > 0) targets.urlPatterns = parsedPatterns;
+  if (parsedApps.length > 0) targets.apps = parsedApps;
+  return Object.keys(targets).length > 0 ? targets : undefined;
+};
+
+const withAllLists = (targets: BlockTargets | undefined): Required<BlockTargets> => ({
+  domains: targets?.domains ?? [],
+  urlPatterns: targets?.urlPatterns ?? [],
+  apps: targets?.apps ?? []
+});
+
+// e.g. "2 sites, 1 app", or null without targets
+export const describeTargets = (targets: BlockTargets | undefined): string | null => {
+  const { domains, urlPatterns, apps } = withAllLists(targets);
+  const sites = domains.length + urlPatterns.length;
+  const parts = [
+    sites > 0 ? `${sites} site${sites === 1 ? '' : 's'}` : null,
+    apps.length > 0 ? `${apps.length} app${apps.length === 1 ? '' : 's'}` : null
+  ].filter((part): part is string => part !== null);
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+// Blocks that are enforcing right now; paused ones aren't
+export const getEnforcedBlocks = (blocks: Block[], now: Date = new Date()): Block[] => {
+  return blocks.filter(block =>
+    now >= block.startTime && now < getEffectiveEndTime(block, now) && !isPaused(block)
+  );
+};
+
+const sortedUnion = (lists: string[][]): string[] => Array.from(new Set(lists.flat())).sort();
+
+export const mergeTargets = (blocks: Block[]): Required<BlockTargets> => {
+  const all = blocks.map(block => withAllLists(block.targets));
+  return {
+    domains: sortedUnion(all.map(targets => targets.domains)),
+    urlPatterns: sortedUnion(all.map(targets => targets.urlPatterns)),
+    apps: sortedUnion(all.map(targets => targets.apps))
+  };
+};
+
+// Lines for /etc/hosts. Hosts files can't match URL patterns, apps or subdomains, so "www." is added explicitly.
+export const exportHostsFragment = (blocks: Block[], now: Date = new Date()): string => {
+  const { domains } = mergeTargets(blocks);
+  const hosts = sortedUnion([domains, domains.filter(domain => !domain.startsWith('www.')).map(domain => `www.${domain}`)]);
+  return [
+    `# SC Blocker: ${blocks.length} active block${blocks.length === 1 ? '' : 's'}, generated ${now.toISOString()}`,
+    ...hosts.map(host => `0.0.0.0 ${host}`),
+    ''
+  ].join('\n');
+};
+
+// A uBlock Origin static filter list; "||domain^" also covers subdomains
+export const exportUBlockFilters = (blocks: Block[], now: Date = new Date()): string => {
+  const { domains, urlPatterns } = mergeTargets(blocks);
+  return [
+    '! Title: SC Blocker active blocks',
+    `! Updated: ${now.toISOString()}`,
+    ...domains.map(domain => `||${domain}^`),
+    ...urlPatterns.map(pattern => /^(\|\||[a-z]+:\/\/)/.test(pattern) ? pattern : `||${pattern}`),
+    ''
+  ].join('\n');
+};
+
+export const createTargetManifest = (blocks: Block[], now: Date = new Date()): TargetManifest => ({
+  format: MANIFEST_FORMAT,
+  version: MANIFEST_VERSION,
+  generatedAt: now.toISOString(),
+  targets: mergeTargets(blocks),
+  blocks: blocks.map(block => ({
+    id: block.id,
+    name: block.name,
+    endTime: getEffectiveEndTime(block, now).toISOString(),
+    targets: withAllLists(block.targets)
+  }))
+});
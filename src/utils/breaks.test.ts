@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { endBlockEarly, getBreakRates, isBroken } from './breaks';
+
+const createBlock = (id: number, name: string, end: string, plannedEnd?: string) => ({
+  id,
+  name,
+  startTime: new Date('2024-01-01T09:00:00'),
+  endTime: new Date(end),
+  plannedEndTime: plannedEnd ? new Date(plannedEnd) : undefined
+});
+
+describe('breaks', () => {
+  it('should end a block now and keep its planned end', () => {
+    const block = createBlock(1, 'Social media', '2024-01-01T17:00:00');
+    const ended = endBlockEarly(block, ' Needed to post ', new Date('2024-01-01T12:00:00'));
+
+    expect(ended.endTime).toEqual(new Date('2024-01-01T12:00:00'));
+    expect(ended.plannedEndTime).toEqual(new Date('2024-01-01T17:00:00'));
+    expect(ended.breakReason).toBe('Needed to post');
+    expect(isBroken(ended)).toBe(true);
+    expect(isBroken(block)).toBe(false);
+  });
+
+  it('should keep the first planned end when ended early twice', () => {
+    const block = createBlock(1, 'Social media', '2024-01-01T14:00:00', '2024-01-01T17:00:00');
+
+    expect(endBlockEarly(block, '', new Date('2024-01-01T12:00:00')).plannedEndTime)
+      .toEqual(new Date('2024-01-01T17:00:00'));
+  });
+
+  it('should report break rates of finished blocks per name', () => {
+    const blocks = [
+      createBlock(1, 'Social media', '2024-01-01T12:00:00', '2024-01-01T17:00:00'),
+      createBlock(2, 'Social media', '2024-01-02T17:00:00'),
+      createBlock(3, 'News', '2024-01-01T10:00:00'),
+      createBlock(4, 'News', '2024-02-01T10:00:00')
+    ];
+
+    expect(getBreakRates(blocks, new Date('2024-01-03T00:00:00'))).toEqual([
+      { name: 'Social media', completed: 2, broken: 1, rate: 0.5 },
+      { name: 'News', completed: 1, broken: 0, rate: 0 }
+    ]);
+  });
+});
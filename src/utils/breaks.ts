@@ -0,0 +1,36 @@
+import { Block } from '../types';
+
+export interface BreakRate {
+  name: string;
+  completed: number;
+  broken: number;
+  // Share of completed blocks that were ended early, from 0 to 1
+  rate: number;
+}
+
+// Ended before its planned end
+export const isBroken = (block: Block): boolean => {
+  return block.plannedEndTime !== undefined && block.endTime < block.plannedEndTime;
+};
+
+// The block ending now, keeping the planned end and why it was cut short
+export const endBlockEarly = (block: Block, reason: string, now: Date = new Date()): Block => ({
+  ...block,
+  endTime: now,
+  plannedEndTime: block.plannedEndTime ?? block.endTime,
+  // A pause still going on ends with the block
+  pauses: block.pauses?.map(pause => pause.end ? pause : { ...pause, end: now.toISOString() }),
+  breakReason: reason.trim() || undefined
+});
+
+// How often blocks of each name that have finished were ended early, most often broken first
+export const getBreakRates = (blocks: Block[], now: Date = new Date()): BreakRate[] => {
+  const byName = new Map<string, BreakRate>();
+  blocks.filter(block => block.endTime <= now).forEach(block => {
+    const current = byName.get(block.name) ?? { name: block.name, completed: 0, broken: 0, rate: 0 };
+    const completed = current.completed + 1;
+    const broken = current.broken + (isBroken(block) ? 1 : 0);
+    byName.set(block.name, { name: block.name, completed, broken, rate: broken / completed });
+  });
+  return Array.from(byName.values()).sort((a, b) => b.rate - a.rate || a.name.localeCompare(b.name));
+};
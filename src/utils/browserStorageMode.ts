@@ -0,0 +1,12 @@
+// How data is kept in the browser while no file or sync server is connected
+export type BrowserStorageMode = 'snapshot' | 'changeLog';
+
+export const BROWSER_STORAGE_MODE_KEY = 'tech-blocker-browser-storage-mode';
+
+export const getBrowserStorageMode = (): BrowserStorageMode => {
+  return localStorage.getItem(BROWSER_STORAGE_MODE_KEY) === 'changeLog' ? 'changeLog' : 'snapshot';
+};
+
+export const saveBrowserStorageMode = (mode: BrowserStorageMode): void => {
+  localStorage.setItem(BROWSER_STORAGE_MODE_KEY, mode);
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COMPACT_AFTER_EVENTS,
+  appendEvents,
+  createChangeLog,
+  diffToEvents,
+  getLastSeq,
+  getRecordHistory,
+  replayChangeLog
+} from './changeLog';
+
+const now = new Date('2024-03-01T12:00:00.000Z');
+const block = { id: 1, name: 'Social media', startTime: '2024-03-01T09:00:00.000Z', endTime: '2024-03-01T17:00:00.000Z' };
+const standardBlock = { id: 7, name: 'News', required: false };
+const empty = { blocks: [], standardBlocks: [], trash: [] };
+
+describe('diffToEvents', () => {
+  it('should record adds, updates and removals with increasing sequence numbers', () => {
+    const before = { ...empty, blocks: [block, { ...block, id: 2 }] };
+    const after = { ...empty, blocks: [{ ...block, name: 'Games' }, { ...block, id: 3 }] };
+
+    expect(diffToEvents(before, after, 10, now).map(({ seq, type, id }) => ({ seq, type, id }))).toEqual([
+      { seq: 11, type: 'update', id: 1 },
+      { seq: 12, type: 'remove', id: 2 },
+      { seq: 13, type: 'add', id: 3 }
+    ]);
+  });
+
+  it('should record flipping required on a standard block as a toggle', () => {
+    const before = { ...empty, standardBlocks: [standardBlock] };
+
+    expect(diffToEvents(before, { ...empty, standardBlocks: [{ ...standardBlock, required: true }] }, 0, now)[0].type)
+      .toBe('toggleRequired');
+    expect(diffToEvents(before, { ...empty, standardBlocks: [{ ...standardBlock, name: 'Feeds', required: true }] }, 0, now)[0].type)
+      .toBe('update');
+  });
+});
+
+describe('replayChangeLog', () => {
+  it('should rebuild the state from the snapshot and later events', () => {
+    const states = [
+      { ...empty, blocks: [block] },
+      { ...empty, blocks: [{ ...block, notes: 'Evening' }], standardBlocks: [standardBlock] },
+      { ...empty, blocks: [], standardBlocks: [standardBlock], trash: [{ ...block, notes: 'Evening', deletedAt: now.toISOString() }] }
+    ];
+
+    let log = createChangeLog(now);
+    let previous = replayChangeLog(log);
+    states.forEach(state => {
+      log = appendEvents(log, diffToEvents(previous, state, getLastSeq(log), now), now);
+      previous = replayChangeLog(log);
+    });
+
+    expect(replayChangeLog(log)).toEqual(states[2]);
+  });
+});
+
+describe('appendEvents', () => {
+  it('should move the snapshot forward once enough events have piled up, keeping the events', () => {
+    let log = createChangeLog(now);
+    for (let i = 1; i <= COMPACT_AFTER_EVENTS; i++) {
+      log = appendEvents(log, diffToEvents(replayChangeLog(log), { ...empty, blocks: [{ ...block, notes: `Edit ${i}` }] }, getLastSeq(log), now), now);
+    }
+
+    expect(log.snapshot.seq).toBe(COMPACT_AFTER_EVENTS);
+    expect(log.events).toHaveLength(COMPACT_AFTER_EVENTS);
+    expect(replayChangeLog(log).blocks[0].notes).toBe(`Edit ${COMPACT_AFTER_EVENTS}`);
+  });
+});
+
+describe('getRecordHistory', () => {
+  it('should follow a block into the trash', () => {
+    let log = createChangeLog(now);
+    log = appendEvents(log, diffToEvents(empty, { ...empty, blocks: [block] }, 0, now), now);
+    log = appendEvents(log, diffToEvents(
+      replayChangeLog(log),
+      { ...empty, trash: [{ ...block, deletedAt: now.toISOString() }] },
+      getLastSeq(log),
+      now
+    ), now);
+
+    expect(getRecordHistory(log, 1).map(({ collection, type }) => `${collection}:${type}`)).toEqual([
+      'blocks:add',
+      'blocks:remove',
+      'trash:add'
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { QuarantinedEntry } from '../types';
+import { HistoryTarget, diffRecords } from './commandHistory';
+import { FileData } from './fileStorage';
+import { stableStringify } from './merge';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+
+export const CHANGE_LOG_FORMAT = 'sc-blocker-change-log';
+export const CHANGE_LOG_VERSION = 1;
+// Replaying stays fast when the snapshot is moved forward after this many events
+export const COMPACT_AFTER_EVENTS = 500;
+
+const COLLECTIONS: HistoryTarget[] = ['blocks', 'standardBlocks', 'trash'];
+
+type PlainRecord = Record<string, unknown> & { id: number };
+
+// Collections as stored: plain JSON with dates as ISO strings
+export type PlainData = Record<HistoryTarget, PlainRecord[]>;
+
+export type ChangeEventType = 'add' | 'update' | 'remove' | 'toggleRequired';
+
+export interface ChangeEvent {
+  // Position in the log, increasing by one per event
+  seq: number;
+  at: string;
+  type: ChangeEventType;
+  collection: HistoryTarget;
+  id: number;
+  // The whole record after the change, null for a removal
+  record: PlainRecord | null;
+}
+
+export interface ChangeLog {
+  format: typeof CHANGE_LOG_FORMAT;
+  version: typeof CHANGE_LOG_VERSION;
+  // Schema of the records in the snapshot and the events after it
+  schemaVersion: number;
+  // State after event `seq`; only later events are replayed on load
+  snapshot: { seq: number; at: string; data: PlainData };
+  // Every event ever recorded, including those already folded into the snapshot
+  events: ChangeEvent[];
+  // Not event-sourced; replaced on every save
+  quarantine: QuarantinedEntry[];
+}
+
+const emptyData = (): PlainData => ({ blocks: [], standardBlocks: [], trash: [] });
+
+export const createChangeLog = (now: Date = new Date()): ChangeLog => ({
+  format: CHANGE_LOG_FORMAT,
+  version: CHANGE_LOG_VERSION,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  snapshot: { seq: 0, at: now.toISOString(), data: emptyData() },
+  events: [],
+  quarantine: []
+});
+
+export const parseChangeLog = (text: string): ChangeLog => {
+  if (!text.trim()) {
+    return createChangeLog();
+  }
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== CHANGE_LOG_FORMAT) {
+    throw new Error('Stored content is not a change log.');
+  }
+  if (parsed.version !== CHANGE_LOG_VERSION) {
+    throw new Error(`Change log version ${String(parsed.version)} is not supported by this version of Tech Blocker.`);
+  }
+  return {
+    ...parsed,
+    events: Array.isArray(parsed.events) ? parsed.events : [],
+    quarantine: Array.isArray(parsed.quarantine) ? parsed.quarantine : []
+  };
+};
+
+export const toPlainData = (data: FileData): PlainData => {
+  return JSON.parse(JSON.stringify({
+    blocks: data.blocks,
+    standardBlocks: data.standardBlocks,
+    trash: data.trash ?? []
+  }));
+};
+
+export const getLastSeq = (log: ChangeLog): number => {
+  return log.events.length > 0 ? log.events[log.events.length - 1].seq : log.snapshot.seq;
+};
+
+// Name the change; flipping `required` on a standard block is recorded as its own kind of event
+const getEventType = (collection: HistoryTarget, before: PlainRecord | null, after: PlainRecord | null): ChangeEventType => {
+  if (!before) return 'add';
+  if (!after) return 'remove';
+  if (collection === 'standardBlocks' && before.required !== after.required &&
+    stableStringify({ ...before, required: null }) === stableStringify({ ...after, required: null })) {
+    return 'toggleRequired';
+  }
+  return 'update';
+};
+
+// One event per record that differs between two states
+export const diffToEvents = (before: PlainData, after: PlainData, lastSeq: number, now: Date = new Date()): ChangeEvent[] => {
+  const at = now.toISOString();
+  let seq = lastSeq;
+
+  return COLLECTIONS.flatMap(collection => diffRecords(before[collection], after[collection]).map(change => ({
+    seq: ++seq,
+    at,
+    type: getEventType(collection, change.before, change.after),
+    collection,
+    id: change.id,
+    record: change.after
+  })));
+};
+
+export const applyEvents = (data: PlainData, events: ChangeEvent[]): PlainData => {
+  const next = { ...data };
+  events.forEach(({ collection, id, record: changed }) => {
+    const records = next[collection];
+    if (!changed) {
+      next[collection] = records.filter(record => record.id !== id);
+    } else if (records.some(record => record.id === id)) {
+      next[collection] = records.map(record => record.id === id ? changed : record);
+    } else {
+      next[collection] = [...records, changed];
+    }
+  });
+  return next;
+};
+
+// Current state: the snapshot with every later event applied
+export const replayChangeLog = (log: ChangeLog): PlainData => {
+  return applyEvents(log.snapshot.data, log.events.filter(event => event.seq > log.snapshot.seq));
+};
+
+// Move the snapshot up to the latest event. Events are kept for the edit history.
+export const compactChangeLog = (log: ChangeLog, now: Date = new Date()): ChangeLog => ({
+  ...log,
+  snapshot: { seq: getLastSeq(log), at: now.toISOString(), data: replayChangeLog(log) }
+});
+
+export const appendEvents = (log: ChangeLog, events: ChangeEvent[], now: Date = new Date()): ChangeLog => {
+  const next = { ...log, events: [...log.events, ...events] };
+  const pending = next.events.filter(event => event.seq > next.snapshot.seq).length;
+  return pending >= COMPACT_AFTER_EVENTS ? compactChangeLog(next, now) : next;
+};
+
+// Everything that happened to one block, oldest first, including moves in and out of the trash
+export const getRecordHistory = (
+  log: ChangeLog,
+  id: number,
+  collections: HistoryTarget[] = ['blocks', 'trash']
+): ChangeEvent[] => {
+  return log.events.filter(event => event.id === id && collections.includes(event.collection));
+};
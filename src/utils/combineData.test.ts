@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { combineData } from './combineData';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-01-01T09:00:00Z'),
+  endTime: new Date('2024-01-01T17:00:00Z'),
+  notes: ''
+};
+
+const empty = { blocks: [], standardBlocks: [], trash: [] };
+
+describe('combineData', () => {
+  it('should add records the target does not have', () => {
+    const incoming = { ...empty, blocks: [block], standardBlocks: [{ id: 5, name: 'News' }] };
+
+    const { data, added } = combineData(empty, incoming);
+
+    expect(data).toEqual(incoming);
+    expect(added).toEqual(incoming);
+  });
+
+  it('should skip blocks with a known id or the same name and times', () => {
+    const target = { ...empty, blocks: [block] };
+    const sameId = { ...block, name: 'Renamed' };
+    const sameNameAndTimes = { ...block, id: 2, name: ' social media ' };
+    const trashedInTarget = { ...block, id: 3, name: 'Gaming', deletedAt: new Date() };
+    const different = { ...block, id: 4, endTime: new Date('2024-01-01T18:00:00Z') };
+
+    const { added } = combineData(
+      { ...target, trash: [trashedInTarget] },
+      { ...empty, blocks: [sameId, sameNameAndTimes, { ...trashedInTarget, id: 9 }, different] }
+    );
+
+    expect(added.blocks).toEqual([different]);
+  });
+
+  it('should skip standard blocks with a known id or name', () => {
+    const target = { ...empty, standardBlocks: [{ id: 1, name: 'News' }] };
+
+    const { added } = combineData(target, {
+      ...empty,
+      standardBlocks: [{ id: 1, name: 'Video' }, { id: 2, name: 'news' }, { id: 3, name: 'Shopping' }, { id: 4, name: 'Shopping' }]
+    });
+
+    expect(added.standardBlocks).toEqual([{ id: 3, name: 'Shopping' }]);
+  });
+});
@@ -0,0 +1,53 @@
+import { Block, StandardBlock, TrashedBlock } from '../types';
+
+export interface CombinableData {
+  blocks: Block[];
+  standardBlocks: StandardBlock[];
+  trash: TrashedBlock[];
+}
+
+export interface CombineResult {
+  data: CombinableData;
+  // Records from the incoming data that were not already present
+  added: CombinableData;
+}
+
+const blockKey = (block: Block) => `${block.name.trim().toLowerCase()}|${block.startTime.getTime()}|${block.endTime.getTime()}`;
+
+// Add incoming records that the target doesn't have yet. Blocks are the same if they share an
+// id (trashed ones included) or a name and times; standard blocks if they share an id or name.
+export const combineData = (target: CombinableData, incoming: CombinableData): CombineResult => {
+  const blockIds = new Set([...target.blocks, ...target.trash].map(block => block.id));
+  const blockKeys = new Set([...target.blocks, ...target.trash].map(blockKey));
+  const isNewBlock = (block: Block) => {
+    if (blockIds.has(block.id) || blockKeys.has(blockKey(block))) return false;
+    blockIds.add(block.id);
+    blockKeys.add(blockKey(block));
+    return true;
+  };
+
+  const standardIds = new Set(target.standardBlocks.map(block => block.id));
+  const standardNames = new Set(target.standardBlocks.map(block => block.name.trim().toLowerCase()));
+  const isNewStandardBlock = (block: StandardBlock) => {
+    const name = block.name.trim().toLowerCase();
+    if (standardIds.has(block.id) || standardNames.has(name)) return false;
+    standardIds.add(block.id);
+    standardNames.add(name);
+    return true;
+  };
+
+  const added: CombinableData = {
+    blocks: incoming.blocks.filter(isNewBlock),
+    trash: incoming.trash.filter(isNewBlock),
+    standardBlocks: incoming.standardBlocks.filter(isNewStandardBlock)
+  };
+
+  return {
+    data: {
+      blocks: [...target.blocks, ...added.blocks],
+      standardBlocks: [...target.standardBlocks, ...added.standardBlocks],
+      trash: [...target.trash, ...added.trash]
+    },
+    added
+  };
+};
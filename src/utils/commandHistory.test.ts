@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HistoryChanges, HistoryEntry, diffRecords, applyRecordChanges, loadHistory, saveHistory } from './commandHistory';
+
+const before = [
+  { id: 1, name: 'Social media' },
+  { id: 2, name: 'News' }
+];
+
+describe('diffRecords', () => {
+  it('should list added, changed and removed records', () => {
+    const after = [{ id: 1, name: 'Social apps' }, { id: 3, name: 'Video' }];
+
+    expect(diffRecords(before, after)).toEqual([
+      { id: 1, before: before[0], after: after[0] },
+      { id: 2, before: before[1], after: null },
+      { id: 3, before: null, after: after[1] }
+    ]);
+  });
+
+  it('should ignore records that did not change', () => {
+    expect(diffRecords(before, [...before])).toEqual([]);
+  });
+});
+
+describe('applyRecordChanges', () => {
+  const after = [{ id: 1, name: 'Social apps' }, { id: 3, name: 'Video' }];
+  const changes = diffRecords(before, after);
+
+  it('should restore the previous version when undoing', () => {
+    const undone = applyRecordChanges(after, changes, 'undo');
+
+    expect(undone).toHaveLength(2);
+    expect(undone).toEqual(expect.arrayContaining(before));
+  });
+
+  it('should reapply the change when redoing', () => {
+    const redone = applyRecordChanges(before, changes, 'redo');
+
+    expect(redone).toHaveLength(2);
+    expect(redone).toEqual(expect.arrayContaining(after));
+  });
+
+  it('should leave unrelated records alone', () => {
+    const current = [...after, { id: 9, name: 'Shopping' }];
+
+    expect(applyRecordChanges(current, changes, 'undo')).toContainEqual({ id: 9, name: 'Shopping' });
+  });
+});
+
+describe('saveHistory and loadHistory', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const entry = (changes: HistoryChanges): HistoryEntry => ({
+    id: 1,
+    label: 'Edit',
+    changes,
+    destructive: false,
+    createdAt: '2024-01-01T10:00:00.000Z'
+  });
+
+  it('should keep the time of day of standard blocks as text', () => {
+    const standardBlock = {
+      id: 1,
+      name: 'Social media',
+      startTime: '09:00',
+      schedule: { rule: { frequency: 'daily' as const }, startDate: '2024-01-01', startTime: '09:00', durationMinutes: 60 }
+    };
+    saveHistory({ undo: [entry({ standardBlocks: [{ id: 1, before: null, after: standardBlock }] })], redo: [] });
+
+    expect(loadHistory().undo[0].changes.standardBlocks).toEqual([{ id: 1, before: null, after: standardBlock }]);
+  });
+
+  it('should turn the times of blocks and trashed blocks back into dates', () => {
+    const block = { id: 2, name: 'News', startTime: new Date('2024-01-01T09:00:00'), endTime: new Date('2024-01-01T10:00:00') };
+    const trashed = { ...block, deletedAt: new Date('2024-01-01T11:00:00') };
+    saveHistory({ undo: [], redo: [entry({ blocks: [{ id: 2, before: block, after: null }], trash: [{ id: 2, before: null, after: trashed }] })] });
+
+    const [loaded] = loadHistory().redo;
+    expect(loaded.changes.blocks).toEqual([{ id: 2, before: block, after: null }]);
+    expect(loaded.changes.trash).toEqual([{ id: 2, before: null, after: trashed }]);
+  });
+});
@@ -0,0 +1,132 @@
+import { Block, StandardBlock, TrashedBlock } from '../types';
+import { stableStringify } from './merge';
+
+export type HistoryTarget = 'blocks' | 'standardBlocks' | 'trash';
+export type HistoryDirection = 'undo' | 'redo';
+
+export interface RecordChange<T = Block | StandardBlock | TrashedBlock> {
+  id: number;
+  before: T | null;
+  after: T | null;
+}
+
+// Changes per collection; a single command can touch several, e.g. moving a block to the trash
+export type HistoryChanges = Partial<Record<HistoryTarget, RecordChange[]>>;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  changes: HistoryChanges;
+  // Destructive entries offer an undo toast right after they happen
+  destructive: boolean;
+  createdAt: string;
+}
+
+export interface HistoryStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export const HISTORY_STORAGE_KEY = 'tech-blocker-command-history';
+export const MAX_HISTORY_ENTRIES = 100;
+
+// List the records that were added, changed or removed between two versions of a collection
+export const diffRecords = <T extends { id: number }>(before: T[], after: T[]): RecordChange<T>[] => {
+  const beforeById = new Map(before.map(record => [record.id, record]));
+  const afterById = new Map(after.map(record => [record.id, record]));
+  const changes: RecordChange<T>[] = [];
+
+  beforeById.forEach((record, id) => {
+    const updated = afterById.get(id) ?? null;
+    if (!updated || stableStringify(record) !== stableStringify(updated)) {
+      changes.push({ id, before: record, after: updated });
+    }
+  });
+
+  afterById.forEach((record, id) => {
+    if (!beforeById.has(id)) {
+      changes.push({ id, before: null, after: record });
+    }
+  });
+
+  return changes;
+};
+
+export const hasChanges = (changes: HistoryChanges): boolean => {
+  return Object.values(changes).some(list => list && list.length > 0);
+};
+
+// Roll a collection backwards or forwards through a recorded set of changes
+export const applyRecordChanges = <T extends { id: number }>(
+  records: T[],
+  changes: RecordChange<T>[],
+  direction: HistoryDirection
+): T[] => {
+  return changes.reduce((current, change) => {
+    const value = direction === 'undo' ? change.before : change.after;
+    const exists = current.some(record => record.id === change.id);
+
+    if (!value) return current.filter(record => record.id !== change.id);
+    if (!exists) return [...current, value];
+    return current.map(record => record.id === change.id ? value : record);
+  }, records);
+};
+
+const BLOCK_DATE_FIELDS = ['startTime', 'endTime', 'plannedEndTime', 'deletedAt'];
+
+// Only blocks and trashed blocks hold dates. A standard block's startTime is an "HH:MM" time of day
+// and has to stay a string.
+const reviveBlockDates = (record: Record<string, unknown> | null) => {
+  if (!record) return record;
+  const revived = { ...record };
+  BLOCK_DATE_FIELDS.forEach(field => {
+    if (typeof revived[field] === 'string') revived[field] = new Date(revived[field] as string);
+  });
+  return revived;
+};
+
+const reviveEntryDates = (entry: HistoryEntry): HistoryEntry => {
+  const changes = { ...entry.changes };
+  (['blocks', 'trash'] as const).forEach(target => {
+    const recorded = changes[target];
+    if (!recorded) return;
+    changes[target] = recorded.map(change => ({
+      ...change,
+      before: reviveBlockDates(change.before as Record<string, unknown> | null),
+      after: reviveBlockDates(change.after as Record<string, unknown> | null)
+    }) as RecordChange);
+  });
+  return { ...entry, changes };
+};
+
+// Load the history saved for this browser session
+export const loadHistory = (): HistoryStacks => {
+  try {
+    const saved = sessionStorage.getItem(HISTORY_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed.undo) && Array.isArray(parsed.redo)) {
+        // Drop entries saved in an older shape
+        const isEntry = (entry: HistoryEntry) => typeof entry.changes === 'object' && !Array.isArray(entry.changes);
+        return {
+          undo: parsed.undo.filter(isEntry).map(reviveEntryDates),
+          redo: parsed.redo.filter(isEntry).map(reviveEntryDates)
+        };
+      }
+    }
+  } catch (error) {
+    console.error('Error loading command history:', error);
+  }
+  return { undo: [], redo: [] };
+};
+
+export const saveHistory = (stacks: HistoryStacks): void => {
+  try {
+    sessionStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify({
+      undo: stacks.undo.slice(-MAX_HISTORY_ENTRIES),
+      redo: stacks.redo.slice(-MAX_HISTORY_ENTRIES)
+    }));
+  } catch (error) {
+    console.error('Error saving command history:', error);
+  }
+};
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsv,
+  exportBlocksToCsv,
+  getBlocksInDateRange,
+  suggestColumnMapping,
+  detectDateFormats,
+  parseCsvDate,
+  parseCsvDuration,
+  planCsvImport
+} from './csv';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date(2024, 0, 15, 9, 0),
+  endTime: new Date(2024, 0, 15, 10, 30),
+  notes: 'Said "no", twice\nthen focused'
+};
+
+describe('exportBlocksToCsv', () => {
+  it('should write local times, minutes and quoted notes', () => {
+    const csv = exportBlocksToCsv([block]);
+
+    expect(csv).toBe(
+      'Name,Start,End,Duration (minutes),Notes\r\n' +
+      'Social media,2024-01-15 09:00,2024-01-15 10:30,90,"Said ""no"", twice\nthen focused"\r\n'
+    );
+  });
+
+  it('should round-trip through parseCsv', () => {
+    const [, row] = parseCsv(exportBlocksToCsv([block]));
+
+    expect(row[4]).toBe(block.notes);
+  });
+});
+
+describe('getBlocksInDateRange', () => {
+  it('should include whole days at both ends of the range', () => {
+    const later = { ...block, id: 2, startTime: new Date(2024, 0, 20, 23, 0), endTime: new Date(2024, 0, 21, 1, 0) };
+    const outside = { ...block, id: 3, startTime: new Date(2024, 0, 21, 0, 0) };
+
+    expect(getBlocksInDateRange([later, outside, block], new Date(2024, 0, 15, 12), new Date(2024, 0, 20)))
+      .toEqual([block, later]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('should skip blank lines and strip a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n1,"2,3"\n')).toEqual([['a', 'b'], ['1', '2,3']]);
+  });
+});
+
+describe('suggestColumnMapping', () => {
+  it('should match common header names', () => {
+    expect(suggestColumnMapping(['Title', 'Description', 'Begin', 'Finish'])).toEqual({
+      name: 0,
+      notes: 1,
+      start: 2,
+      end: 3
+    });
+  });
+});
+
+describe('date format detection', () => {
+  it('should pick the only format that reads every value', () => {
+    expect(detectDateFormats(['2024-01-15 09:00', '2024-01-16T18:30:00'])).toEqual(['iso']);
+    expect(detectDateFormats(['25/01/2024 9:00', '03/02/2024'])).toEqual(['dmy']);
+    expect(detectDateFormats(['01/25/2024 9:00 PM'])).toEqual(['mdy']);
+  });
+
+  it('should report ambiguous dates', () => {
+    expect(detectDateFormats(['03/02/2024'])).toEqual(['mdy', 'dmy']);
+  });
+
+  it('should reject impossible dates and times', () => {
+    expect(parseCsvDate('2024-02-30', 'iso')).toBeNull();
+    expect(parseCsvDate('2024-01-15 25:00', 'iso')).toBeNull();
+    expect(parseCsvDate('01/25/2024 2:30 pm', 'mdy')).toEqual(new Date(2024, 0, 25, 14, 30));
+  });
+});
+
+describe('parseCsvDuration', () => {
+  it('should read minutes, clock times and units', () => {
+    expect(parseCsvDuration('90')).toBe(90);
+    expect(parseCsvDuration('1:30')).toBe(90);
+    expect(parseCsvDuration('1h 30m')).toBe(90);
+    expect(parseCsvDuration('soon')).toBeNull();
+  });
+});
+
+describe('planCsvImport', () => {
+  const mapping = { name: 0, start: 1, end: 2, duration: 3, notes: 4 };
+
+  it('should report which rows would be created or skipped', () => {
+    const rows = [
+      ['Gaming', '2024-01-16 20:00', '', '60', 'evening'],
+      ['', '2024-01-16 20:00', '2024-01-16 21:00', '', ''],
+      ['Gaming', 'tomorrow', '', '60', ''],
+      ['Gaming', '2024-01-16 20:00', '2024-01-16 19:00', '', ''],
+      ['Gaming', '2024-01-16 20:00', '2024-01-16 21:00', '', ''],
+      ['social media', '2024-01-15 09:00', '2024-01-15 10:30', '', '']
+    ];
+
+    const report = planCsvImport(rows, mapping, 'iso', [block]);
+
+    expect(report[0].block).toEqual({
+      name: 'Gaming',
+      startTime: new Date(2024, 0, 16, 20, 0),
+      endTime: new Date(2024, 0, 16, 21, 0),
+      notes: 'evening'
+    });
+    expect(report.map(row => row.reason)).toEqual([
+      null,
+      'Missing name',
+      'Invalid start "tomorrow"',
+      'End is not after start',
+      'Same as line 2',
+      'Same block already exists'
+    ]);
+  });
+});
@@ -0,0 +1,249 @@
+import { Block } from '../types';
+import { formatDateOnly } from './timeUtils';
+
+export type CsvField = 'name' | 'start' | 'end' | 'duration' | 'notes';
+
+export const CSV_FIELDS: CsvField[] = ['name', 'start', 'end', 'duration', 'notes'];
+
+// Column index for each block field; fields without a column are left out
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+export type CsvDateFormat = 'iso' | 'mdy' | 'dmy';
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['iso', 'mdy', 'dmy'];
+
+export interface CsvImportRow {
+  // 1-based line in the file
+  line: number;
+  block: Omit<Block, 'id'> | null;
+  // Why the row would be skipped
+  reason: string | null;
+}
+
+// Read CSV text into rows of cells, following RFC 4180 quoting
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+const escapeCell = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const formatCsvDateTime = (date: Date): string => {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${formatDateOnly(date)} ${hours}:${minutes}`;
+};
+
+// Blocks that start within the days from `from` to `to`, both inclusive
+export const getBlocksInDateRange = (blocks: Block[], from: Date, to: Date): Block[] => {
+  const rangeStart = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const rangeEnd = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+  return blocks
+    .filter(block => block.startTime >= rangeStart && block.startTime < rangeEnd)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+// Times are local and durations in whole minutes, which spreadsheets handle without conversion
+export const exportBlocksToCsv = (blocks: Block[]): string => {
+  const rows = [
+    ['Name', 'Start', 'End', 'Duration (minutes)', 'Notes'],
+    ...blocks.map(block => [
+      block.name,
+      formatCsvDateTime(block.startTime),
+      formatCsvDateTime(block.endTime),
+      String(Math.round((block.endTime.getTime() - block.startTime.getTime()) / 60000)),
+      block.notes ?? ''
+    ])
+  ];
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const HEADER_PATTERNS: Record<CsvField, RegExp> = {
+  name: /name|title|block|summary/i,
+  start: /start|begin|from/i,
+  end: /end|finish|until|to$/i,
+  duration: /duration|minutes|length/i,
+  notes: /note|description|comment/i
+};
+
+// Guess which column holds each field from the header row
+export const suggestColumnMapping = (header: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<number>();
+
+  CSV_FIELDS.forEach(field => {
+    const index = header.findIndex((title, i) => !used.has(i) && HEADER_PATTERNS[field].test(title.trim()));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+// Time of day after a date, e.g. "14:30", "14:30:15" or "2:30 PM"
+const parseTimeOfDay = (value: string): [number, number, number] | null => {
+  if (!value) return [0, 0, 0];
+
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i.exec(value);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3] ?? 0);
+  const meridiem = match[4]?.toLowerCase().replace(/\./g, '');
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return [hours, minutes, seconds];
+};
+
+const buildDate = (year: number, month: number, day: number, time: [number, number, number]): Date | null => {
+  const date = new Date(year, month - 1, day, ...time);
+  // Reject dates that rolled over, such as 31/02
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+};
+
+export const parseCsvDate = (value: string, format: CsvDateFormat): Date | null => {
+  const trimmed = value.trim();
+
+  if (format === 'iso') {
+    const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](.+))?$/.exec(trimmed);
+    if (!match) return null;
+
+    // Times with an explicit offset are absolute; everything else is local time
+    if (match[4] && /(Z|[+-]\d{2}:?\d{2})$/.test(match[4])) {
+      const date = new Date(trimmed.replace(' ', 'T'));
+      return isNaN(date.getTime()) ? null : date;
+    }
+    const time = parseTimeOfDay(match[4] ?? '');
+    return time ? buildDate(Number(match[1]), Number(match[2]), Number(match[3]), time) : null;
+  }
+
+  const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:,?\s+(.+))?$/.exec(trimmed);
+  if (!match) return null;
+
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  const time = parseTimeOfDay(match[4] ?? '');
+  if (!time) return null;
+  return format === 'mdy'
+    ? buildDate(Number(match[3]), first, second, time)
+    : buildDate(Number(match[3]), second, first, time);
+};
+
+// Formats that read every non-empty value; more than one means the dates are ambiguous
+export const detectDateFormats = (values: string[]): CsvDateFormat[] => {
+  const samples = values.map(value => value.trim()).filter(Boolean);
+  if (samples.length === 0) return [];
+  return CSV_DATE_FORMATS.filter(format => samples.every(value => parseCsvDate(value, format) !== null));
+};
+
+// Minutes as a number, "H:MM", or "1h 30m"
+export const parseCsvDuration = (value: string): number | null => {
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+
+  const clock = /^(\d+):(\d{2})$/.exec(trimmed);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+  const units = /^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/.exec(trimmed);
+  if (units && (units[1] || units[2])) return Number(units[1] ?? 0) * 60 + Number(units[2] ?? 0);
+
+  return null;
+};
+
+const blockKey = (name: string, start: Date, end: Date) => `${name.toLowerCase()}|${start.getTime()}|${end.getTime()}`;
+
+// Dry run of an import: what each data row would become, without changing anything
+export const planCsvImport = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  dateFormat: CsvDateFormat,
+  existingBlocks: Block[],
+  firstLine = 2
+): CsvImportRow[] => {
+  const existing = new Set(existingBlocks.map(block => blockKey(block.name, block.startTime, block.endTime)));
+  const seen = new Map<string, number>();
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows.map((row, index) => {
+    const line = index + firstLine;
+    const skip = (reason: string): CsvImportRow => ({ line, block: null, reason });
+
+    const name = cell(row, 'name');
+    if (!name) return skip('Missing name');
+
+    const startTime = parseCsvDate(cell(row, 'start'), dateFormat);
+    if (!startTime) return skip(`Invalid start "${cell(row, 'start')}"`);
+
+    let endTime: Date | null = null;
+    if (cell(row, 'end')) {
+      endTime = parseCsvDate(cell(row, 'end'), dateFormat);
+      if (!endTime) return skip(`Invalid end "${cell(row, 'end')}"`);
+    } else if (cell(row, 'duration')) {
+      const minutes = parseCsvDuration(cell(row, 'duration'));
+      if (minutes === null) return skip(`Invalid duration "${cell(row, 'duration')}"`);
+      endTime = new Date(startTime.getTime() + minutes * 60000);
+    } else {
+      return skip('Missing end and duration');
+    }
+
+    if (endTime <= startTime) return skip('End is not after start');
+
+    const key = blockKey(name, startTime, endTime);
+    if (existing.has(key)) return skip('Same block already exists');
+    const earlierLine = seen.get(key);
+    if (earlierLine !== undefined) return skip(`Same as line ${earlierLine}`);
+    seen.set(key, line);
+
+    return { line, block: { name, startTime, endTime, notes: cell(row, 'notes') }, reason: null };
+  });
+};
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { BROWSER_SOURCE_ID, fromSourceKey, toSourceKey } from './dataSources';
+
+describe('dataSources', () => {
+  it('should only hand back keys stored for the same source', () => {
+    const stored = toSourceKey('sync:https://example.com/blocks', '2024-01');
+
+    expect(fromSourceKey('sync:https://example.com/blocks', stored)).toBe('2024-01');
+    expect(fromSourceKey('sync:https://example.com', stored)).toBeNull();
+    expect(fromSourceKey(BROWSER_SOURCE_ID, stored)).toBeNull();
+  });
+
+  it('should keep plain keys from before sources were told apart with browser storage', () => {
+    expect(toSourceKey(BROWSER_SOURCE_ID, '2024-01')).toBe('2024-01');
+    expect(fromSourceKey(BROWSER_SOURCE_ID, '2024-01')).toBe('2024-01');
+    expect(fromSourceKey('file:blocks.json', '2024-01')).toBeNull();
+  });
+});
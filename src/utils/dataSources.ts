@@ -0,0 +1,28 @@
+// Backups and archives are kept apart per data source, so one file's snapshots and archives never
+// show up next to another's. Browser storage keeps the plain keys and top-level files used before
+// sources were told apart, so everything saved back then stays with it.
+export const BROWSER_SOURCE_ID = 'browser';
+
+const SOURCE_SEPARATOR = '/';
+
+// The key an entry of the source is stored under, e.g. "file:blocks.json/2024-01"
+export const toSourceKey = (sourceId: string, key: string): string => {
+  return sourceId === BROWSER_SOURCE_ID ? key : `${sourceId}${SOURCE_SEPARATOR}${key}`;
+};
+
+// The entry's own key if it belongs to the source, otherwise null. Entry keys never contain the
+// separator, so everything before the last one is the source.
+export const fromSourceKey = (sourceId: string, stored: string): string | null => {
+  const separator = stored.lastIndexOf(SOURCE_SEPARATOR);
+  const owner = separator === -1 ? BROWSER_SOURCE_ID : stored.slice(0, separator);
+  return owner === sourceId ? stored.slice(separator + 1) : null;
+};
+
+// The directory holding the source's files inside the one the user granted
+export const getSourceDirectory = async (
+  directory: FileSystemDirectoryHandle,
+  sourceId: string
+): Promise<FileSystemDirectoryHandle> => {
+  if (sourceId === BROWSER_SOURCE_ID) return directory;
+  return directory.getDirectoryHandle(encodeURIComponent(sourceId), { create: true });
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PassphraseRequiredError,
+  WrongPassphraseError,
+  createKdfParams,
+  decryptText,
+  deriveEncryptionKey,
+  encryptText,
+  isEncryptedFile,
+  openStoredText,
+  parseEncryptedFile,
+  sealText
+} from './encryption';
+
+// Few iterations keep the tests fast; the format records whatever count was used
+const testKdf = () => createKdfParams(1000);
+const plaintext = JSON.stringify({ schemaVersion: 4, blocks: [{ id: 1, name: 'Social media', notes: 'Late-night scrolling' }] });
+
+describe('encryptText', () => {
+  it('should write a header with the KDF parameters and no readable content', async () => {
+    const key = await deriveEncryptionKey('correct horse', testKdf());
+    const text = await encryptText(plaintext, key);
+
+    const file = parseEncryptedFile(text);
+    expect(file?.kdf).toEqual(key.kdf);
+    expect(file?.cipher.name).toBe('AES-GCM');
+    expect(text).not.toContain('Late-night');
+    expect(isEncryptedFile(text)).toBe(true);
+    expect(isEncryptedFile(plaintext)).toBe(false);
+  });
+
+  it('should use a fresh IV for every write', async () => {
+    const key = await deriveEncryptionKey('correct horse', testKdf());
+
+    const first = parseEncryptedFile(await encryptText(plaintext, key));
+    const second = parseEncryptedFile(await encryptText(plaintext, key));
+    expect(first?.cipher.iv).not.toBe(second?.cipher.iv);
+  });
+});
+
+describe('decryptText', () => {
+  it('should round-trip with a key derived from the same passphrase', async () => {
+    const key = await deriveEncryptionKey('correct horse', testKdf());
+    const file = parseEncryptedFile(await encryptText(plaintext, key))!;
+
+    expect(await decryptText(file, await deriveEncryptionKey('correct horse', file.kdf))).toBe(plaintext);
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const key = await deriveEncryptionKey('correct horse', testKdf());
+    const file = parseEncryptedFile(await encryptText(plaintext, key))!;
+
+    await expect(decryptText(file, await deriveEncryptionKey('battery staple', file.kdf))).rejects.toThrow(WrongPassphraseError);
+  });
+
+  it('should reject a file whose header was altered', async () => {
+    const key = await deriveEncryptionKey('correct horse', testKdf());
+    const file = parseEncryptedFile(await encryptText(plaintext, key))!;
+
+    await expect(decryptText({ ...file, kdf: { ...file.kdf, iterations: 999 } }, key)).rejects.toThrow(WrongPassphraseError);
+  });
+});
+
+describe('openStoredText', () => {
+  it('should return plain content as is and forget any key', async () => {
+    const session = { key: await deriveEncryptionKey('correct horse', testKdf()) };
+
+    expect(await openStoredText(plaintext, session, 'data.json')).toBe(plaintext);
+    expect(session.key).toBeNull();
+  });
+
+  it('should ask again after a wrong passphrase and keep the working key', async () => {
+    const text = await encryptText(plaintext, await deriveEncryptionKey('correct horse', testKdf()));
+    const prompt = vi.fn()
+      .mockResolvedValueOnce('battery staple')
+      .mockResolvedValueOnce('correct horse');
+    const session = { key: null, prompt };
+
+    expect(await openStoredText(text, session, 'data.json')).toBe(plaintext);
+    expect(prompt.mock.calls.map(([request]) => request.isRetry)).toEqual([false, true]);
+
+    // The stored key opens later writes without asking
+    expect(await openStoredText(await sealText(plaintext, session), session, 'data.json')).toBe(plaintext);
+    expect(prompt).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when the prompt is cancelled or not allowed', async () => {
+    const text = await encryptText(plaintext, await deriveEncryptionKey('correct horse', testKdf()));
+
+    await expect(openStoredText(text, { key: null, prompt: async () => null }, 'data.json')).rejects.toThrow(PassphraseRequiredError);
+    await expect(openStoredText(text, { key: null, prompt: async () => 'correct horse' }, 'data.json', false)).rejects.toThrow(PassphraseRequiredError);
+  });
+});
@@ -0,0 +1,211 @@
+import { PassphrasePrompt } from './passphrasePrompt';
+
+export const ENCRYPTED_FILE_FORMAT = 'sc-blocker-encrypted';
+export const ENCRYPTED_FILE_VERSION = 1;
+// OWASP's recommendation for PBKDF2 with SHA-256
+export const DEFAULT_PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface KdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  // Base64
+  salt: string;
+}
+
+// What an encrypted data file contains. Everything but the payload is authenticated as
+// additional data, so the header cannot be altered without the decryption failing.
+export interface EncryptedFile {
+  format: typeof ENCRYPTED_FILE_FORMAT;
+  version: typeof ENCRYPTED_FILE_VERSION;
+  kdf: KdfParams;
+  cipher: {
+    name: 'AES-GCM';
+    // Base64, fresh for every write
+    iv: string;
+  };
+  // Base64 ciphertext of the plain JSON data file
+  payload: string;
+}
+
+export interface EncryptionKey {
+  key: CryptoKey;
+  kdf: KdfParams;
+}
+
+// The key a data file is written with, kept for the session so the passphrase is asked for once
+export interface EncryptionSession {
+  // Null writes plain JSON
+  key: EncryptionKey | null;
+  prompt?: PassphrasePrompt;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is wrong, or the encrypted file is damaged.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export class PassphraseRequiredError extends Error {
+  constructor(label: string) {
+    super(`The passphrase for ${label} is needed to open it.`);
+    this.name = 'PassphraseRequiredError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+};
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// Bytes bound to the ciphertext: the header fields in a fixed order
+const getAdditionalData = (file: Pick<EncryptedFile, 'format' | 'version' | 'kdf' | 'cipher'>): Uint8Array => {
+  const { kdf, cipher } = file;
+  return new TextEncoder().encode(JSON.stringify([
+    file.format,
+    file.version,
+    [kdf.name, kdf.hash, kdf.iterations, kdf.salt],
+    [cipher.name, cipher.iv]
+  ]));
+};
+
+export const createKdfParams = (iterations: number = DEFAULT_PBKDF2_ITERATIONS): KdfParams => ({
+  name: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations,
+  salt: toBase64(randomBytes(SALT_BYTES))
+});
+
+export const isSameKdf = (a: KdfParams, b: KdfParams): boolean => {
+  return a.name === b.name && a.hash === b.hash && a.iterations === b.iterations && a.salt === b.salt;
+};
+
+// Read the header of an encrypted data file; null for anything else, e.g. plain JSON data
+export const parseEncryptedFile = (text: string): EncryptedFile | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) return null;
+
+  const file = parsed as EncryptedFile;
+  if (file.format !== ENCRYPTED_FILE_FORMAT) return null;
+  if (file.version !== ENCRYPTED_FILE_VERSION) {
+    throw new Error(`Encrypted file version ${String(file.version)} is not supported by this version of Tech Blocker.`);
+  }
+  if (file.kdf?.name !== 'PBKDF2' || file.kdf.hash !== 'SHA-256' || !Number.isInteger(file.kdf.iterations) ||
+    typeof file.kdf.salt !== 'string' || file.cipher?.name !== 'AES-GCM' || typeof file.cipher.iv !== 'string' ||
+    typeof file.payload !== 'string') {
+    throw new Error('The encrypted file header is damaged.');
+  }
+  return file;
+};
+
+export const isEncryptedFile = (text: string): boolean => {
+  try {
+    return parseEncryptedFile(text) !== null;
+  } catch {
+    // Still encrypted, just not readable by this build
+    return true;
+  }
+};
+
+// Stretch a passphrase into an AES-GCM key; new salt unless the parameters of an existing file are given
+export const deriveEncryptionKey = async (
+  passphrase: string,
+  kdf: KdfParams = createKdfParams()
+): Promise<EncryptionKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: fromBase64(kdf.salt) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, kdf };
+};
+
+export const encryptText = async (plaintext: string, { key, kdf }: EncryptionKey): Promise<string> => {
+  const header = {
+    format: ENCRYPTED_FILE_FORMAT,
+    version: ENCRYPTED_FILE_VERSION,
+    kdf,
+    cipher: { name: 'AES-GCM', iv: toBase64(randomBytes(IV_BYTES)) }
+  } as const;
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: fromBase64(header.cipher.iv), additionalData: getAdditionalData(header) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  const file: EncryptedFile = { ...header, payload: toBase64(new Uint8Array(ciphertext)) };
+  return JSON.stringify(file, null, 2);
+};
+
+export const decryptText = async (file: EncryptedFile, { key }: EncryptionKey): Promise<string> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(file.cipher.iv), additionalData: getAdditionalData(file) },
+      key,
+      fromBase64(file.payload)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM can't tell a wrong key from a tampered file
+    throw new WrongPassphraseError();
+  }
+};
+
+// Turn stored content into plain text. Encrypted content is opened with the session's key, asking
+// for the passphrase when the key doesn't fit; plain content switches the session back to plain.
+export const openStoredText = async (
+  text: string,
+  session: EncryptionSession,
+  label: string,
+  allowPrompt = true
+): Promise<string> => {
+  const file = parseEncryptedFile(text);
+  if (!file) {
+    session.key = null;
+    return text;
+  }
+
+  if (session.key && isSameKdf(session.key.kdf, file.kdf)) {
+    return decryptText(file, session.key);
+  }
+
+  for (let isRetry = false; ; isRetry = true) {
+    const passphrase = allowPrompt && session.prompt ? await session.prompt({ label, isRetry }) : null;
+    if (passphrase === null) {
+      throw new PassphraseRequiredError(label);
+    }
+    const key = await deriveEncryptionKey(passphrase, file.kdf);
+    try {
+      const plaintext = await decryptText(file, key);
+      session.key = key;
+      return plaintext;
+    } catch (error) {
+      if (!(error instanceof WrongPassphraseError)) throw error;
+    }
+  }
+};
+
+// Encrypt content with the session's key, if it has one
+export const sealText = (text: string, session: EncryptionSession): Promise<string> => {
+  return session.key ? encryptText(text, session.key) : Promise.resolve(text);
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { addToRecentFiles, MAX_RECENT_FILES } from './fileHandleStorage';
+
+// Handles for the same path compare equal through isSameEntry, like real ones
+const createHandle = (name: string) => ({
+  name,
+  isSameEntry: async (other: { name: string }) => other.name === name
+}) as unknown as FileSystemFileHandle;
+
+describe('addToRecentFiles', () => {
+  it('should put a newly opened file first', async () => {
+    const work = await addToRecentFiles([], createHandle('work.json'), new Date('2024-03-01T09:00:00.000Z'));
+    const recent = await addToRecentFiles(work, createHandle('personal.json'), new Date('2024-03-02T09:00:00.000Z'));
+
+    expect(recent.map(file => file.name)).toEqual(['personal.json', 'work.json']);
+    expect(recent[0].lastOpened).toBe('2024-03-02T09:00:00.000Z');
+  });
+
+  it('should move a file opened again to the top and keep its id', async () => {
+    let recent = await addToRecentFiles([], createHandle('work.json'));
+    const { id } = recent[0];
+    recent = await addToRecentFiles(recent, createHandle('personal.json'));
+    recent = await addToRecentFiles(recent, createHandle('work.json'), new Date('2024-03-03T09:00:00.000Z'));
+
+    expect(recent.map(file => file.name)).toEqual(['work.json', 'personal.json']);
+    expect(recent[0]).toMatchObject({ id, lastOpened: '2024-03-03T09:00:00.000Z' });
+  });
+
+  it('should forget the oldest files beyond the limit', async () => {
+    let recent = await addToRecentFiles([], createHandle('0.json'));
+    for (let i = 1; i <= MAX_RECENT_FILES; i++) {
+      recent = await addToRecentFiles(recent, createHandle(`${i}.json`));
+    }
+
+    expect(recent).toHaveLength(MAX_RECENT_FILES);
+    expect(recent.some(file => file.name === '0.json')).toBe(false);
+  });
+});
@@ -19,18 +19,87 @@ const openDB = async (): Promise<IDBDatabase> => {
   });
 };
 
-// Save file handle to IndexedDB
-export const saveFileHandle = async (handle: FileSystemFileHandle): Promise<void> => {
+const RECENT_FILES_KEY = 'recentFiles';
+export const MAX_RECENT_FILES = 10;
+
+// A data file opened before, offered for switching back to it
+export interface RecentFile {
+  id: string;
+  name: string;
+  handle: FileSystemFileHandle;
+  // ISO timestamp of the last time the file was opened
+  lastOpened: string;
+}
+
+// Put the handle first in the list, replacing its earlier entry if it was opened before
+export const addToRecentFiles = async (
+  recentFiles: RecentFile[],
+  handle: FileSystemFileHandle,
+  now: Date = new Date()
+): Promise<RecentFile[]> => {
+  let existing: RecentFile | undefined;
+  for (const recent of recentFiles) {
+    if (await recent.handle.isSameEntry(handle)) {
+      existing = recent;
+      break;
+    }
+  }
+
+  const entry: RecentFile = {
+    id: existing?.id ?? Math.random().toString(36).slice(2),
+    name: handle.name,
+    handle,
+    lastOpened: now.toISOString()
+  };
+  return [entry, ...recentFiles.filter(recent => recent !== existing)].slice(0, MAX_RECENT_FILES);
+};
+
+const putValue = async (key: string, value: unknown): Promise<void> => {
   const db = await openDB();
   const transaction = db.transaction([STORE_NAME], 'readwrite');
   const store = transaction.objectStore(STORE_NAME);
-  store.put(handle, 'lastFileHandle');
+  store.put(value, key);
   return new Promise((resolve, reject) => {
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 };
 
+// Recently opened data files, most recent first
+export const getRecentFiles = async (): Promise<RecentFile[]> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(RECENT_FILES_KEY);
+    const recentFiles = await new Promise<RecentFile[] | undefined>((resolve) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(undefined);
+    });
+    if (recentFiles) return recentFiles;
+
+    // Earlier versions only remembered the last file
+    const lastHandle = await getStoredFileHandle();
+    return lastHandle ? addToRecentFiles([], lastHandle) : [];
+  } catch (error) {
+    console.error('Error retrieving recent files:', error);
+    return [];
+  }
+};
+
+export const removeRecentFile = async (id: string): Promise<RecentFile[]> => {
+  const recentFiles = (await getRecentFiles()).filter(recent => recent.id !== id);
+  await putValue(RECENT_FILES_KEY, recentFiles);
+  return recentFiles;
+};
+
+// Save file handle to IndexedDB as the file to reconnect to, and move it to the top of the recent files
+export const saveFileHandle = async (handle: FileSystemFileHandle): Promise<RecentFile[]> => {
+  const recentFiles = await addToRecentFiles(await getRecentFiles(), handle);
+  await putValue('lastFileHandle', handle);
+  await putValue(RECENT_FILES_KEY, recentFiles);
+  return recentFiles;
+};
+
 // Retrieve file handle from IndexedDB
 export const getStoredFileHandle = async (): Promise<FileSystemFileHandle | null> => {
   try {
@@ -49,7 +118,7 @@ export const getStoredFileHandle = async (): Promise<FileSystemFileHandle | null
   }
 };
 
-// Clear stored file handle
+// Clear stored file handle; it stays in the recent files
 export const clearStoredFileHandle = async (): Promise<void> => {
   const db = await openDB();
   const transaction = db.transaction([STORE_NAME], 'readwrite');
@@ -57,8 +126,77 @@ export const clearStoredFileHandle = async (): Promise<void> => {
   store.delete('lastFileHandle');
 };
 
+// Save the backup directory handle next to the data file handle
+export const saveBackupDirectoryHandle = async (handle: FileSystemDirectoryHandle): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction([STORE_NAME], 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  store.put(handle, 'backupDirectoryHandle');
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Retrieve backup directory handle from IndexedDB
+export const getStoredBackupDirectoryHandle = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get('backupDirectoryHandle');
+    
+    return new Promise((resolve) => {
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => resolve(null);
+    });
+  } catch (error) {
+    console.error('Error retrieving backup directory handle:', error);
+    return null;
+  }
+};
+
+// Clear stored backup directory handle
+export const clearStoredBackupDirectoryHandle = async (): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction([STORE_NAME], 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  store.delete('backupDirectoryHandle');
+};
+
+// Save the archive directory handle next to the data file handle
+export const saveArchiveDirectoryHandle = (handle: FileSystemDirectoryHandle): Promise<void> => {
+  return putValue('archiveDirectoryHandle', handle);
+};
+
+// Retrieve archive directory handle from IndexedDB
+export const getStoredArchiveDirectoryHandle = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get('archiveDirectoryHandle');
+    
+    return new Promise((resolve) => {
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => resolve(null);
+    });
+  } catch (error) {
+    console.error('Error retrieving archive directory handle:', error);
+    return null;
+  }
+};
+
+// Clear stored archive directory handle
+export const clearStoredArchiveDirectoryHandle = async (): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction([STORE_NAME], 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  store.delete('archiveDirectoryHandle');
+};
+
 // Check and request permission for a stored handle
-export const verifyAndRequestPermission = async (handle: FileSystemFileHandle): Promise<boolean> => {
+export const verifyAndRequestPermission = async (handle: FileSystemHandle): Promise<boolean> => {
   try {
     // Check current permission
     const permission = await handle.queryPermission({ mode: 'readwrite' });
@@ -78,4 +216,13 @@ export const verifyAndRequestPermission = async (handle: FileSystemFileHandle):
     console.error('Error verifying permission:', error);
     return false;
   }
-}; 
\ No newline at end of file
+}; 
+// Whether the file behind a handle was moved or deleted since it was opened
+export const isMissingFile = async (handle: FileSystemFileHandle): Promise<boolean> => {
+  try {
+    await handle.getFile();
+    return false;
+  } catch (error) {
+    return error instanceof DOMException && error.name === 'NotFoundError';
+  }
+};
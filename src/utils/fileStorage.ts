@@ -1,4 +1,8 @@
-import { Block, StandardBlock } from '../types';
+import { Block, QuarantinedEntry, StandardBlock, TrashedBlock } from '../types';
+import { CURRENT_SCHEMA_VERSION, NewerSchemaVersionError, getSchemaVersion, isNewerSchemaVersion, migrateFileData } from './migrations';
+import { validateFileData } from './validation';
+import { EncryptionSession, openStoredText, sealText } from './encryption';
+import { requestPassphrase } from './passphrasePrompt';
 
 // Type declarations for File System Access API
 declare global {
@@ -26,8 +30,21 @@ declare global {
 }
 
 export interface FileData {
+  // Version of the schema the data was read from; writes always use the current version
+  schemaVersion?: number;
   blocks: Block[];
   standardBlocks: StandardBlock[];
+  // Soft-deleted blocks, purged once they are older than the retention period
+  trash?: TrashedBlock[];
+  // Malformed entries set aside on load so they can be repaired by hand
+  quarantine?: QuarantinedEntry[];
+}
+
+export interface LoadedFileData extends FileData {
+  trash: TrashedBlock[];
+  quarantine: QuarantinedEntry[];
+  // Entries moved into quarantine by this read that are still in the file's main collections
+  newlyQuarantined: QuarantinedEntry[];
 }
 
 // File System Access API support check
@@ -112,39 +129,89 @@ export const selectFileOld = async (): Promise<FileSystemFileHandle | null> => {
   }
 };
 
-// Read file and parse JSON
-export const readFile = async (fileHandle: FileSystemFileHandle): Promise<FileData> => {
-  const file = await fileHandle.getFile();
-  const text = await file.text();
-  
+// Parse data file content, migrating older schema versions and quarantining malformed entries
+export const parseFileData = (text: string): LoadedFileData => {
   if (!text.trim()) {
     // Empty file, return default structure
-    return { blocks: [], standardBlocks: [] };
+    return { schemaVersion: CURRENT_SCHEMA_VERSION, blocks: [], standardBlocks: [], trash: [], quarantine: [], newlyQuarantined: [] };
   }
   
-  const data = JSON.parse(text, (key, value) => {
-    // Parse dates in blocks - just use the ISO string directly
-    if ((key === 'startTime' || key === 'endTime') && typeof value === 'string') {
-      return new Date(value);
-    }
-    return value;
-  });
+  const data = migrateFileData(JSON.parse(text));
   
-  // Ensure the data has the correct structure
+  // Dates are revived during validation, which rejects any that don't parse
   return {
-    blocks: Array.isArray(data.blocks) ? data.blocks : [],
-    standardBlocks: Array.isArray(data.standardBlocks) ? data.standardBlocks : []
+    schemaVersion: getSchemaVersion(data),
+    ...validateFileData(data)
   };
 };
 
-// Write JSON to file
-export const writeFile = async (fileHandle: FileSystemFileHandle, data: FileData): Promise<void> => {
+export const serializeFileData = (data: FileData): string => {
+  return JSON.stringify({ ...data, schemaVersion: CURRENT_SCHEMA_VERSION }, null, 2);
+};
+
+// A session for reading one file: no key yet, asking for the passphrase if the file is encrypted
+export const createEncryptionSession = (): EncryptionSession => ({ key: null, prompt: requestPassphrase });
+
+// Read the file's content, decrypting it if it is encrypted
+export const readFileText = async (
+  fileHandle: FileSystemFileHandle,
+  session: EncryptionSession = createEncryptionSession(),
+  allowPrompt = true
+): Promise<string> => {
+  const file = await fileHandle.getFile();
+  return openStoredText(await file.text(), session, fileHandle.name, allowPrompt);
+};
+
+// Read file and parse JSON
+export const readFile = async (
+  fileHandle: FileSystemFileHandle,
+  session?: EncryptionSession,
+  allowPrompt = true
+): Promise<LoadedFileData> => {
+  return parseFileData(await readFileText(fileHandle, session, allowPrompt));
+};
+
+// Refuse to overwrite a file that was saved by a newer build
+const assertWritable = async (fileHandle: FileSystemFileHandle, session?: EncryptionSession): Promise<void> => {
+  const file = await fileHandle.getFile();
+  const text = await file.text();
+  if (!text.trim()) return;
+
+  // A file that can't be decrypted with the current key is not overwritten either
+  const plaintext = await openStoredText(text, { key: session?.key ?? null }, fileHandle.name, false);
+
+  let version: number;
+  try {
+    version = getSchemaVersion(JSON.parse(plaintext));
+  } catch {
+    // Unparseable content is replaced rather than preserved
+    return;
+  }
+
+  if (isNewerSchemaVersion(version)) {
+    throw new NewerSchemaVersionError(version);
+  }
+};
+
+// Replace the file's content as is
+export const writeFileText = async (fileHandle: FileSystemFileHandle, content: string): Promise<void> => {
+  const writable = await fileHandle.createWritable();
+  await writable.write(content);
+  await writable.close();
+};
+
+// Write JSON to file, encrypted when the session has a key
+export const writeFile = async (
+  fileHandle: FileSystemFileHandle,
+  data: FileData,
+  session?: EncryptionSession
+): Promise<void> => {
   try {
-    const writable = await fileHandle.createWritable();
-    await writable.write(JSON.stringify(data, null, 2));
-    await writable.close();
+    await assertWritable(fileHandle, session);
+    const content = serializeFileData(data);
+    await writeFileText(fileHandle, session ? await sealText(content, session) : content);
   } catch (error) {
     console.error('Error writing file:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { exportBlocksToIcs, parseIcs, getBlockUid, planIcsImport, suggestNameMapping, toImportedBlock } from './ics';
+
+const block = {
+  id: 42,
+  name: 'Social media',
+  startTime: new Date('2024-01-01T09:00:00Z'),
+  endTime: new Date('2024-01-01T17:00:00Z'),
+  notes: 'Focus day; no feeds, no news\nBack tomorrow'
+};
+
+describe('exportBlocksToIcs', () => {
+  it('should write one VEVENT per block with a stable UID', () => {
+    const ics = exportBlocksToIcs([block], new Date('2024-01-01T08:00:00Z'));
+
+    expect(ics).toContain('BEGIN:VCALENDAR\r\n');
+    expect(ics).toContain('UID:block-42@sc-blocker\r\n');
+    expect(ics).toContain('DTSTART:20240101T090000Z\r\n');
+    expect(ics).toContain('DTEND:20240101T170000Z\r\n');
+    expect(ics).toContain('SUMMARY:Social media\r\n');
+    expect(ics).toContain('DESCRIPTION:Focus day\\; no feeds\\, no news\\nBack tomorrow\r\n');
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const ics = exportBlocksToIcs([{ ...block, notes: 'x'.repeat(200) }]);
+
+    ics.split('\r\n').forEach(line => {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    });
+  });
+
+  it('should round-trip through parseIcs', () => {
+    const { events, skipped } = parseIcs(exportBlocksToIcs([{ ...block, notes: 'y'.repeat(120) }, block]));
+
+    expect(skipped).toEqual([]);
+    expect(events[0].description).toBe('y'.repeat(120));
+    expect(events[1]).toEqual({
+      uid: getBlockUid(block),
+      summary: block.name,
+      description: block.notes,
+      start: block.startTime,
+      end: block.endTime
+    });
+  });
+});
+
+describe('parseIcs', () => {
+  it('should read durations, all-day events and ignore nested alarms', () => {
+    const { events } = parseIcs([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:a',
+      'SUMMARY:Deep work',
+      'DTSTART:20240102T100000Z',
+      'DURATION:PT1H30M',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Offline day',
+      'DTSTART;VALUE=DATE:20240103',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\n'));
+
+    expect(events[0].end).toEqual(new Date('2024-01-02T11:30:00Z'));
+    expect(events[0].description).toBe('');
+    expect(events[1].uid).toBeNull();
+    expect(events[1].end.getTime() - events[1].start.getTime()).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('should skip events without usable times', () => {
+    const { events, skipped } = parseIcs([
+      'BEGIN:VEVENT',
+      'SUMMARY:Broken',
+      'DTSTART:tomorrow',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Backwards',
+      'DTSTART:20240102T100000Z',
+      'DTEND:20240102T090000Z',
+      'END:VEVENT'
+    ].join('\r\n'));
+
+    expect(events).toEqual([]);
+    expect(skipped).toEqual([
+      { summary: 'Broken', reason: 'Missing or invalid DTSTART' },
+      { summary: 'Backwards', reason: 'Event ends before it starts' }
+    ]);
+  });
+});
+
+describe('planIcsImport', () => {
+  const event = {
+    uid: 'external-1',
+    summary: 'social media',
+    description: '',
+    start: block.startTime,
+    end: block.endTime
+  };
+
+  it('should map summaries onto standard blocks regardless of case', () => {
+    const mapping = suggestNameMapping([event], [{ id: 1, name: 'Social media' }]);
+    const [row] = planIcsImport([event], [], mapping);
+
+    expect(row.name).toBe('Social media');
+    expect(toImportedBlock(row)).toMatchObject({ name: 'Social media', sourceUid: 'external-1' });
+  });
+
+  it('should flag events already imported or exported from this app', () => {
+    const exported = { ...event, uid: getBlockUid(block) };
+    const rows = planIcsImport(
+      [event, exported, { ...event, uid: 'external-2' }, { ...event, uid: 'external-2' }],
+      [block, { ...block, id: 7, sourceUid: 'external-1' }],
+      {}
+    );
+
+    expect(rows.map(row => row.duplicate)).toEqual([true, true, false, true]);
+  });
+});
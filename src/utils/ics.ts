@@ -0,0 +1,268 @@
+import { Block, StandardBlock } from '../types';
+
+export interface IcsEvent {
+  uid: string | null;
+  summary: string;
+  description: string;
+  start: Date;
+  end: Date;
+}
+
+export interface IcsParseResult {
+  events: IcsEvent[];
+  // Events that could not be turned into blocks, with the reason why
+  skipped: { summary: string; reason: string }[];
+}
+
+export interface IcsImportRow {
+  event: IcsEvent;
+  // Block name after mapping the event summary, e.g. onto a standard block
+  name: string;
+  duplicate: boolean;
+}
+
+const UID_DOMAIN = 'sc-blocker';
+const MAX_LINE_OCTETS = 75;
+
+// Blocks keep the same UID across exports, so calendars update events instead of duplicating them
+export const getBlockUid = (block: Pick<Block, 'id'>): string => {
+  return `block-${block.id}@${UID_DOMAIN}`;
+};
+
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+const unescapeText = (value: string): string => {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+const formatUtcDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Lines longer than 75 octets are continued on the next line after a single space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+export const exportBlocksToIcs = (blocks: Block[], now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Tech Blocker//Blocks//EN',
+    'CALSCALE:GREGORIAN'
+  ];
+
+  blocks.forEach(block => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${getBlockUid(block)}`,
+      `DTSTAMP:${formatUtcDate(now)}`,
+      `DTSTART:${formatUtcDate(block.startTime)}`,
+      `DTEND:${formatUtcDate(block.endTime)}`,
+      `SUMMARY:${escapeText(block.name)}`
+    );
+    if (block.notes) {
+      lines.push(`DESCRIPTION:${escapeText(block.notes)}`);
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Split "NAME;PARAM=x:value", allowing quoted parameter values that contain ':'
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// Times with a TZID are read as local time, since the app has no timezone database
+const parseIcsDate = (property: ContentLine): { date: Date; allDay: boolean } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0)] as const;
+  const date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  if (isNaN(date.getTime())) return null;
+
+  return { date, allDay: hours === undefined };
+};
+
+const parseDurationMs = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks ?? 0) * 604800 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+};
+
+const toEvent = (properties: ContentLine[]): IcsEvent | { summary: string; reason: string } => {
+  const find = (name: string) => properties.find(property => property.name === name);
+  const summary = unescapeText(find('SUMMARY')?.value ?? '').trim();
+
+  const dtStart = find('DTSTART');
+  const start = dtStart ? parseIcsDate(dtStart) : null;
+  if (!start) {
+    return { summary, reason: 'Missing or invalid DTSTART' };
+  }
+
+  // Without DTEND or DURATION an event ends when it starts, or after one day if it is all-day
+  let end: Date | null = null;
+  const dtEnd = find('DTEND');
+  const duration = find('DURATION');
+  if (dtEnd) {
+    end = parseIcsDate(dtEnd)?.date ?? null;
+  } else if (duration) {
+    const ms = parseDurationMs(duration.value);
+    end = ms === null ? null : new Date(start.date.getTime() + ms);
+  } else if (start.allDay) {
+    end = new Date(start.date.getFullYear(), start.date.getMonth(), start.date.getDate() + 1);
+  }
+
+  if (!end) return { summary, reason: 'Missing or invalid end time' };
+  if (end <= start.date) return { summary, reason: 'Event ends before it starts' };
+  if (!summary) return { summary, reason: 'Missing SUMMARY' };
+
+  return {
+    uid: find('UID')?.value.trim() || null,
+    summary,
+    description: unescapeText(find('DESCRIPTION')?.value ?? ''),
+    start: start.date,
+    end
+  };
+};
+
+// Read the VEVENTs of an iCalendar file; recurring events only contribute their first occurrence
+export const parseIcs = (text: string): IcsParseResult => {
+  const lines = text.split(/\r?\n/).reduce<string[]>((unfolded, line) => {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && unfolded.length > 0) {
+      unfolded[unfolded.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      unfolded.push(line);
+    }
+    return unfolded;
+  }, []);
+
+  const result: IcsParseResult = { events: [], skipped: [] };
+  const components: string[] = [];
+  let properties: ContentLine[] = [];
+
+  lines.forEach(line => {
+    const property = parseContentLine(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN') {
+      components.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') properties = [];
+    } else if (property.name === 'END') {
+      const component = components.pop();
+      if (component === 'VEVENT') {
+        const event = toEvent(properties);
+        if ('reason' in event) {
+          result.skipped.push(event);
+        } else {
+          result.events.push(event);
+        }
+      }
+    } else if (components[components.length - 1] === 'VEVENT') {
+      // Properties of nested components such as VALARM are ignored
+      properties.push(property);
+    }
+  });
+
+  return result;
+};
+
+// Map each event summary onto a standard block with the same name, ignoring case
+export const suggestNameMapping = (events: IcsEvent[], standardBlocks: StandardBlock[]): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  events.forEach(event => {
+    const match = standardBlocks.find(block => block.name.toLowerCase() === event.summary.toLowerCase());
+    mapping[event.summary] = match ? match.name : event.summary;
+  });
+  return mapping;
+};
+
+// Flag events whose UID is already known, either from an earlier import or from one of our exports
+export const planIcsImport = (
+  events: IcsEvent[],
+  blocks: Block[],
+  mapping: Record<string, string>
+): IcsImportRow[] => {
+  const knownUids = new Set<string>();
+  blocks.forEach(block => {
+    knownUids.add(getBlockUid(block));
+    if (block.sourceUid) knownUids.add(block.sourceUid);
+  });
+
+  return events.map(event => {
+    const duplicate = event.uid !== null && knownUids.has(event.uid);
+    if (event.uid) knownUids.add(event.uid);
+    return { event, name: mapping[event.summary] ?? event.summary, duplicate };
+  });
+};
+
+export const toImportedBlock = (row: IcsImportRow): Omit<Block, 'id'> => {
+  return {
+    name: row.name,
+    startTime: row.event.start,
+    endTime: row.event.end,
+    notes: row.event.description,
+    ...(row.event.uid ? { sourceUid: row.event.uid } : {})
+  };
+};
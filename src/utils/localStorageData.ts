@@ -0,0 +1,127 @@
+import { Block, QuarantinedEntry, StandardBlock, TrashedBlock } from '../types';
+import { CURRENT_SCHEMA_VERSION, isNewerSchemaVersion, LEGACY_SCHEMA_VERSION, migrateFileData, NewerSchemaVersionError } from './migrations';
+import { validateFileData } from './validation';
+import { FileData, LoadedFileData } from './fileStorage';
+
+export const BLOCKS_STORAGE_KEY = 'tech-blocker-blocks';
+export const STANDARD_BLOCKS_STORAGE_KEY = 'tech-blocker-standard-blocks';
+export const SCHEMA_VERSION_STORAGE_KEY = 'tech-blocker-schema-version';
+export const QUARANTINE_STORAGE_KEY = 'tech-blocker-quarantine';
+export const TRASH_STORAGE_KEY = 'tech-blocker-trash';
+
+// Every key written by writeLocalStorageData
+export const DATA_STORAGE_KEYS = [
+  BLOCKS_STORAGE_KEY,
+  STANDARD_BLOCKS_STORAGE_KEY,
+  SCHEMA_VERSION_STORAGE_KEY,
+  QUARANTINE_STORAGE_KEY,
+  TRASH_STORAGE_KEY
+];
+
+// Schema version of the browser-stored payloads, legacy if never recorded
+export const getStoredSchemaVersion = (): number => {
+  const stored = parseInt(localStorage.getItem(SCHEMA_VERSION_STORAGE_KEY) || '', 10);
+  return Number.isInteger(stored) && stored >= LEGACY_SCHEMA_VERSION ? stored : LEGACY_SCHEMA_VERSION;
+};
+
+const readStoredArray = (key: string): unknown[] => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return [];
+  const parsed = JSON.parse(saved);
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+// True when browser storage was last written by a newer build and must not be overwritten
+export const isLocalStorageFromNewerBuild = (): boolean => {
+  return isNewerSchemaVersion(getStoredSchemaVersion());
+};
+
+// Upgrade the payloads stored under the legacy keys using the data file migrations
+export const migrateLocalStorage = (): void => {
+  const version = getStoredSchemaVersion();
+  if (version >= CURRENT_SCHEMA_VERSION) return;
+
+  try {
+    const migrated = migrateFileData({
+      schemaVersion: version,
+      blocks: readStoredArray(BLOCKS_STORAGE_KEY),
+      standardBlocks: readStoredArray(STANDARD_BLOCKS_STORAGE_KEY)
+    });
+
+    localStorage.setItem(BLOCKS_STORAGE_KEY, JSON.stringify(migrated.blocks));
+    localStorage.setItem(STANDARD_BLOCKS_STORAGE_KEY, JSON.stringify(migrated.standardBlocks));
+    localStorage.setItem(SCHEMA_VERSION_STORAGE_KEY, String(CURRENT_SCHEMA_VERSION));
+  } catch (error) {
+    console.error('Error migrating localStorage data:', error);
+  }
+};
+
+export const getLocalStorageQuarantine = (): QuarantinedEntry[] => {
+  try {
+    return validateFileData({ quarantine: readStoredArray(QUARANTINE_STORAGE_KEY) }).quarantine;
+  } catch (error) {
+    console.error('Error loading quarantine from localStorage:', error);
+    return [];
+  }
+};
+
+export const clearLocalStorageQuarantine = (): void => {
+  localStorage.removeItem(QUARANTINE_STORAGE_KEY);
+};
+
+// Validate one stored collection, moving malformed entries into the stored quarantine
+const readValidatedCollection = <K extends 'blocks' | 'standardBlocks' | 'trash'>(key: string, collection: K) => {
+  const result = validateFileData({ [collection]: readStoredArray(key) });
+
+  if (result.newlyQuarantined.length > 0 && !isLocalStorageFromNewerBuild()) {
+    localStorage.setItem(key, JSON.stringify(result[collection]));
+    localStorage.setItem(
+      QUARANTINE_STORAGE_KEY,
+      JSON.stringify([...getLocalStorageQuarantine(), ...result.newlyQuarantined])
+    );
+  }
+
+  return result[collection];
+};
+
+export const readLocalStorageBlocks = (): Block[] => {
+  return readValidatedCollection(BLOCKS_STORAGE_KEY, 'blocks');
+};
+
+export const readLocalStorageStandardBlocks = (): StandardBlock[] => {
+  return readValidatedCollection(STANDARD_BLOCKS_STORAGE_KEY, 'standardBlocks');
+};
+
+export const readLocalStorageTrash = (): TrashedBlock[] => {
+  return readValidatedCollection(TRASH_STORAGE_KEY, 'trash');
+};
+
+// Everything kept in browser storage, upgraded to the current schema and validated
+export const readLocalStorageData = (): LoadedFileData => {
+  migrateLocalStorage();
+  return {
+    schemaVersion: getStoredSchemaVersion(),
+    blocks: readLocalStorageBlocks(),
+    standardBlocks: readLocalStorageStandardBlocks(),
+    trash: readLocalStorageTrash(),
+    quarantine: getLocalStorageQuarantine(),
+    // Malformed entries were already moved into the stored quarantine while reading
+    newlyQuarantined: []
+  };
+};
+
+// Replace the browser-stored collections
+export const writeLocalStorageData = (data: FileData): void => {
+  if (isLocalStorageFromNewerBuild()) {
+    throw new NewerSchemaVersionError(getStoredSchemaVersion());
+  }
+  localStorage.setItem(BLOCKS_STORAGE_KEY, JSON.stringify(data.blocks));
+  localStorage.setItem(STANDARD_BLOCKS_STORAGE_KEY, JSON.stringify(data.standardBlocks));
+  localStorage.setItem(TRASH_STORAGE_KEY, JSON.stringify(data.trash ?? []));
+  if (data.quarantine && data.quarantine.length > 0) {
+    localStorage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify(data.quarantine));
+  } else {
+    clearLocalStorageQuarantine();
+  }
+  localStorage.setItem(SCHEMA_VERSION_STORAGE_KEY, String(CURRENT_SCHEMA_VERSION));
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UNLOCK_PHRASE,
+  getLockViolation,
+  getReplacementLockViolation,
+  getUnlockProblem,
+  isLockEnforced,
+  unlockBlock
+} from './locks';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-01-01T09:00:00'),
+  endTime: new Date('2024-01-01T17:00:00'),
+  locked: true
+};
+const now = new Date('2024-01-01T12:00:00');
+
+describe('locks', () => {
+  it('should only hold a locked block while it is active', () => {
+    expect(isLockEnforced(block, now)).toBe(true);
+    expect(isLockEnforced(block, new Date('2024-01-01T08:00:00'))).toBe(false);
+    expect(isLockEnforced({ ...block, locked: false }, now)).toBe(false);
+  });
+
+  it('should allow extending but not shortening, unlocking or removing', () => {
+    expect(getLockViolation(block, { ...block, endTime: new Date('2024-01-01T18:00:00') }, now)).toBeNull();
+    expect(getLockViolation(block, { ...block, name: 'Social' }, now)).toBeNull();
+    expect(getLockViolation(block, { ...block, endTime: new Date('2024-01-01T16:00:00') }, now)).not.toBeNull();
+    expect(getLockViolation(block, { ...block, startTime: new Date('2024-01-01T13:00:00') }, now)).not.toBeNull();
+    expect(getLockViolation(block, { ...block, locked: undefined }, now)).not.toBeNull();
+    expect(getLockViolation(block, null, now)).not.toBeNull();
+    expect(getLockViolation(block, null, new Date('2024-01-01T18:00:00'))).toBeNull();
+  });
+
+  it('should refuse replacing the blocks when that drops or shortens a locked one', () => {
+    const other = { id: 2, name: 'News', startTime: block.startTime, endTime: block.endTime };
+
+    expect(getReplacementLockViolation([block, other], [block], now)).toBeNull();
+    expect(getReplacementLockViolation([block, other], [other], now)).not.toBeNull();
+    expect(getReplacementLockViolation([block], [{ ...block, endTime: new Date('2024-01-01T13:00:00') }], now)).not.toBeNull();
+  });
+
+  it('should require the cooldown and the phrase before unlocking', () => {
+    const requested = { ...block, unlockRequestedAt: '2024-01-01T11:55:00.000Z' };
+    const afterCooldown = new Date('2024-01-01T12:05:00.000Z');
+
+    expect(getUnlockProblem(block, UNLOCK_PHRASE, now)).not.toBeNull();
+    expect(getUnlockProblem(requested, UNLOCK_PHRASE, new Date('2024-01-01T12:00:00.000Z'))).not.toBeNull();
+    expect(getUnlockProblem(requested, 'let me out', afterCooldown)).not.toBeNull();
+    expect(getUnlockProblem(requested, UNLOCK_PHRASE, afterCooldown)).toBeNull();
+  });
+
+  it('should record the unlock on the block', () => {
+    const requested = { ...block, unlockRequestedAt: '2024-01-01T11:55:00.000Z' };
+    const unlocked = unlockBlock(requested, ' Urgent call ', new Date('2024-01-01T12:05:00.000Z'));
+
+    expect(unlocked.locked).toBe(false);
+    expect(unlocked.unlockRequestedAt).toBeUndefined();
+    expect(unlocked.unlocks).toEqual([
+      { requestedAt: '2024-01-01T11:55:00.000Z', unlockedAt: '2024-01-01T12:05:00.000Z', reason: 'Urgent call' }
+    ]);
+  });
+});
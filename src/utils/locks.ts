@@ -0,0 +1,62 @@
+import { Block } from '../types';
+
+// Minutes between starting an emergency unlock and being allowed to finish it
+export const UNLOCK_COOLDOWN_MINUTES = 10;
+
+// Typed to finish an emergency unlock
+export const UNLOCK_PHRASE = 'I am breaking my commitment';
+
+// Only an active block is held by its lock
+export const isLockEnforced = (block: Block, now: Date = new Date()): boolean => {
+  return block.locked === true && now >= block.startTime && now < block.endTime;
+};
+
+// Why a locked block can't be changed this way, or null if it can.
+// Passing null as the change asks about removing the block.
+export const getLockViolation = (block: Block, changes: Omit<Block, 'id'> | null, now: Date = new Date()): string | null => {
+  if (!isLockEnforced(block, now)) return null;
+
+  if (!changes) return `"${block.name}" is locked until it ends. Use emergency unlock to remove it.`;
+  if (!changes.locked) return `"${block.name}" can only be unlocked through emergency unlock.`;
+  if (changes.endTime < block.endTime || changes.startTime > now) {
+    return `"${block.name}" is locked, so it can be extended but not shortened.`;
+  }
+  return null;
+};
+
+// Why replacing the current blocks with `next` wholesale would break a lock, or null if it wouldn't.
+// Undo and redo, restoring a backup and resolving conflicts replace records without going through the actions.
+export const getReplacementLockViolation = (current: Block[], next: Block[], now: Date = new Date()): string | null => {
+  const nextById = new Map(next.map(block => [block.id, block]));
+  for (const block of current) {
+    const violation = getLockViolation(block, nextById.get(block.id) ?? null, now);
+    if (violation) return violation;
+  }
+  return null;
+};
+
+// When a started unlock may be finished
+export const getUnlockAvailableAt = (block: Block): Date | null => {
+  if (!block.unlockRequestedAt) return null;
+  return new Date(new Date(block.unlockRequestedAt).getTime() + UNLOCK_COOLDOWN_MINUTES * 60 * 1000);
+};
+
+// Why an unlock can't be finished yet, or null once the cooldown passed and the phrase matches
+export const getUnlockProblem = (block: Block, phrase: string, now: Date = new Date()): string | null => {
+  const availableAt = getUnlockAvailableAt(block);
+  if (!availableAt) return 'Start the emergency unlock first.';
+  if (now < availableAt) return 'The cooldown has not finished yet.';
+  if (phrase.trim().toLowerCase() !== UNLOCK_PHRASE.toLowerCase()) return `Type "${UNLOCK_PHRASE}" to confirm.`;
+  return null;
+};
+
+// The block after a finished unlock, with the unlock recorded on it
+export const unlockBlock = (block: Block, reason: string, now: Date = new Date()): Block => ({
+  ...block,
+  locked: false,
+  unlockRequestedAt: undefined,
+  unlocks: [
+    ...(block.unlocks ?? []),
+    { requestedAt: block.unlockRequestedAt ?? now.toISOString(), unlockedAt: now.toISOString(), reason: reason.trim() }
+  ]
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { mergeRecords, mergeFileData, applyConflictChoice, stableStringify } from './merge';
+
+const record = (id: number, name: string) => ({ id, name });
+
+describe('stableStringify', () => {
+  it('should ignore property order', () => {
+    expect(stableStringify({ a: 1, b: { c: 2, d: 3 } })).toBe(stableStringify({ b: { d: 3, c: 2 }, a: 1 }));
+  });
+});
+
+describe('mergeRecords', () => {
+  const base = [record(1, 'Social media'), record(2, 'News'), record(3, 'Video')];
+
+  it('should combine non-conflicting changes from both sides', () => {
+    const local = [record(1, 'Social apps'), record(2, 'News'), record(3, 'Video'), record(4, 'Games')];
+    const remote = [record(1, 'Social media'), record(3, 'Video'), record(5, 'Shopping')];
+
+    const { merged, conflicts } = mergeRecords(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged).toEqual([record(1, 'Social apps'), record(3, 'Video'), record(4, 'Games'), record(5, 'Shopping')]);
+  });
+
+  it('should treat identical edits on both sides as agreement', () => {
+    const local = [record(1, 'Social'), record(2, 'News'), record(3, 'Video')];
+
+    expect(mergeRecords(base, local, local).conflicts).toEqual([]);
+  });
+
+  it('should report records changed differently on both sides and keep the local one', () => {
+    const local = [record(1, 'Social apps'), record(2, 'News'), record(3, 'Video')];
+    const remote = [record(1, 'Social sites'), record(2, 'News')];
+
+    const { merged, conflicts } = mergeRecords(base, local, remote);
+
+    expect(conflicts).toEqual([{ id: 1, base: base[0], local: local[0], remote: remote[0] }]);
+    expect(merged).toEqual([record(1, 'Social apps'), record(2, 'News')]);
+  });
+
+  it('should report an edit on one side against a deletion on the other', () => {
+    const local = [record(1, 'Social media'), record(2, 'Breaking news'), record(3, 'Video')];
+    const remote = [record(1, 'Social media'), record(3, 'Video')];
+
+    const { conflicts } = mergeRecords(base, local, remote);
+
+    expect(conflicts).toEqual([{ id: 2, base: base[1], local: local[1], remote: null }]);
+  });
+});
+
+describe('mergeFileData', () => {
+  it('should merge both collections and label conflicts', () => {
+    const base = { blocks: [], standardBlocks: [record(1, 'News')], quarantine: [] };
+    const local = { blocks: [], standardBlocks: [{ id: 1, name: 'News', required: true }], quarantine: [] };
+    const remote = { blocks: [], standardBlocks: [record(1, 'Headlines')], quarantine: [] };
+
+    const { conflicts } = mergeFileData(base, local, remote);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].collection).toBe('standardBlocks');
+  });
+});
+
+describe('applyConflictChoice', () => {
+  const conflict = { id: 2, base: record(2, 'News'), local: record(2, 'Breaking news'), remote: null };
+
+  it('should remove the record when the chosen version is a deletion', () => {
+    expect(applyConflictChoice([record(1, 'Social'), conflict.local], conflict, 'remote')).toEqual([record(1, 'Social')]);
+  });
+
+  it('should restore a record that is no longer present', () => {
+    expect(applyConflictChoice([record(1, 'Social')], conflict, 'local')).toEqual([record(1, 'Social'), conflict.local]);
+  });
+});
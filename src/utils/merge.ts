@@ -0,0 +1,122 @@
+import { Block, StandardBlock } from '../types';
+import { FileData } from './fileStorage';
+
+export interface RecordConflict<T> {
+  id: number;
+  base: T | null;
+  local: T | null;
+  remote: T | null;
+}
+
+export interface MergeResult<T> {
+  merged: T[];
+  conflicts: RecordConflict<T>[];
+}
+
+export type DataConflict =
+  | ({ collection: 'blocks' } & RecordConflict<Block>)
+  | ({ collection: 'standardBlocks' } & RecordConflict<StandardBlock>);
+
+// JSON with sorted keys, so records compare equal regardless of property order
+export const stableStringify = (value: unknown): string => {
+  return JSON.stringify(value, (_key, current) => {
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      return Object.keys(current).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = current[key];
+        return sorted;
+      }, {});
+    }
+    return current;
+  });
+};
+
+const isSame = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) return false;
+  return stableStringify(a) === stableStringify(b);
+};
+
+// Pick whichever side changed relative to base; returns undefined when both changed differently
+const pickChanged = <T>(base: T, local: T, remote: T): T | undefined => {
+  if (isSame(local, remote)) return local;
+  if (isSame(local, base)) return remote;
+  if (isSame(remote, base)) return local;
+  return undefined;
+};
+
+// Three-way merge of two edited copies of a collection, matching records by id.
+// Conflicting records keep the local version until the conflict is resolved.
+export const mergeRecords = <T extends { id: number }>(base: T[], local: T[], remote: T[]): MergeResult<T> => {
+  const toMap = (records: T[]) => new Map(records.map(record => [record.id, record]));
+  const baseById = toMap(base);
+  const localById = toMap(local);
+  const remoteById = toMap(remote);
+
+  // Keep local order, then append records that only exist remotely
+  const ids = [...localById.keys()];
+  remoteById.forEach((_record, id) => {
+    if (!localById.has(id)) ids.push(id);
+  });
+  baseById.forEach((_record, id) => {
+    if (!localById.has(id) && !remoteById.has(id)) ids.push(id);
+  });
+
+  const merged: T[] = [];
+  const conflicts: RecordConflict<T>[] = [];
+
+  ids.forEach(id => {
+    const baseRecord = baseById.get(id) ?? null;
+    const localRecord = localById.get(id) ?? null;
+    const remoteRecord = remoteById.get(id) ?? null;
+    const picked = pickChanged(baseRecord, localRecord, remoteRecord);
+
+    if (picked === undefined) {
+      conflicts.push({ id, base: baseRecord, local: localRecord, remote: remoteRecord });
+      if (localRecord) merged.push(localRecord);
+    } else if (picked) {
+      merged.push(picked);
+    }
+  });
+
+  return { merged, conflicts };
+};
+
+// Merge local edits with changes made to the data file by someone else
+export const mergeFileData = (
+  base: FileData,
+  local: FileData,
+  remote: FileData
+): { data: FileData; conflicts: DataConflict[] } => {
+  const blocks = mergeRecords(base.blocks, local.blocks, remote.blocks);
+  const standardBlocks = mergeRecords(base.standardBlocks, local.standardBlocks, remote.standardBlocks);
+  // Trash conflicts are not worth asking about; the local version wins
+  const trash = mergeRecords(base.trash ?? [], local.trash ?? [], remote.trash ?? []);
+
+  return {
+    data: {
+      schemaVersion: remote.schemaVersion,
+      blocks: blocks.merged,
+      standardBlocks: standardBlocks.merged,
+      trash: trash.merged,
+      quarantine: pickChanged(base.quarantine, local.quarantine, remote.quarantine) ?? remote.quarantine
+    },
+    conflicts: [
+      ...blocks.conflicts.map(conflict => ({ collection: 'blocks' as const, ...conflict })),
+      ...standardBlocks.conflicts.map(conflict => ({ collection: 'standardBlocks' as const, ...conflict }))
+    ]
+  };
+};
+
+// Replace a conflicting record with the chosen version, removing it when that version was a deletion
+export const applyConflictChoice = <T extends { id: number }>(
+  records: T[],
+  conflict: RecordConflict<T>,
+  choice: 'local' | 'remote'
+): T[] => {
+  const chosen = conflict[choice];
+  const exists = records.some(record => record.id === conflict.id);
+
+  if (!chosen) return records.filter(record => record.id !== conflict.id);
+  if (!exists) return [...records, chosen];
+  return records.map(record => record.id === conflict.id ? chosen : record);
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, getSchemaVersion, migrateFileData } from './migrations';
+
+describe('getSchemaVersion', () => {
+  it('should treat unversioned data as legacy', () => {
+    expect(getSchemaVersion({ blocks: [], standardBlocks: [] })).toBe(LEGACY_SCHEMA_VERSION);
+  });
+
+  it('should ignore invalid version values', () => {
+    expect(getSchemaVersion({ schemaVersion: 'two' })).toBe(LEGACY_SCHEMA_VERSION);
+    expect(getSchemaVersion({ schemaVersion: 1.5 })).toBe(LEGACY_SCHEMA_VERSION);
+  });
+});
+
+describe('migrateFileData', () => {
+  it('should upgrade legacy data to the current version', () => {
+    const result = migrateFileData({
+      blocks: [{ id: 1, name: 'Social media' }],
+      standardBlocks: [{ id: 2, name: 'News' }]
+    });
+
+    expect(result.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.blocks).toEqual([{ id: 1, name: 'Social media', notes: '' }]);
+    expect(result.standardBlocks).toEqual([{ id: 2, name: 'News', required: false }]);
+    expect(result.quarantine).toEqual([]);
+    expect(result.trash).toEqual([]);
+  });
+
+  it('should carry fields added after version 4 through unchanged', () => {
+    const block = { id: 1, name: 'Social media', notes: '', locked: true, tags: ['social'] };
+    const result = migrateFileData({ schemaVersion: 4, blocks: [block], standardBlocks: [], quarantine: [], trash: [] });
+
+    expect(result.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.blocks).toEqual([block]);
+  });
+
+  it('should keep malformed entries for validation to quarantine', () => {
+    const result = migrateFileData({ blocks: ['not a block', { id: 1, name: 'News' }] });
+
+    expect(result.blocks).toEqual(['not a block', { id: 1, name: 'News', notes: '' }]);
+  });
+
+  it('should create missing collections', () => {
+    const result = migrateFileData({});
+
+    expect(result.blocks).toEqual([]);
+    expect(result.standardBlocks).toEqual([]);
+  });
+
+  it('should leave data from a newer build untouched', () => {
+    const data = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, blocks: 'future shape' };
+
+    expect(migrateFileData(data)).toBe(data);
+  });
+
+  it('should reject data that is not an object', () => {
+    expect(() => migrateFileData([])).toThrow();
+    expect(() => migrateFileData(null)).toThrow();
+  });
+});
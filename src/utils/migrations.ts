@@ -0,0 +1,116 @@
+// Schema version written by this build. Bump it and add a step to `migrations`
+// whenever the shape of the data file changes, even for new optional fields: a build that
+// doesn't know a field, e.g. `locked`, must not be the one editing the data.
+export const CURRENT_SCHEMA_VERSION = 12;
+
+// Files written before versioning was introduced have no schemaVersion field
+export const LEGACY_SCHEMA_VERSION = 1;
+
+export type RawFileData = Record<string, unknown>;
+
+type Migration = (data: RawFileData) => RawFileData;
+
+const asArray = (value: unknown): unknown[] => {
+  return Array.isArray(value) ? value : [];
+};
+
+// Apply a change to object entries only; anything else is left for validation to quarantine
+const mapRecords = (value: unknown, update: (record: Record<string, unknown>) => Record<string, unknown>): unknown[] => {
+  return asArray(value).map(item =>
+    typeof item === 'object' && item !== null && !Array.isArray(item)
+      ? update(item as Record<string, unknown>)
+      : item
+  );
+};
+
+// For versions that only added optional fields, which older data simply doesn't have
+const unchanged: Migration = (data) => data;
+
+// Each entry upgrades data from the previous version to the version it is keyed by
+const migrations: Record<number, Migration> = {
+  // 2: guarantee both collections exist and give optional fields explicit defaults
+  2: (data) => ({
+    ...data,
+    blocks: mapRecords(data.blocks, block => ({
+      ...block,
+      notes: typeof block.notes === 'string' ? block.notes : ''
+    })),
+    standardBlocks: mapRecords(data.standardBlocks, block => ({
+      ...block,
+      required: block.required === true
+    }))
+  }),
+  // 3: add the quarantine section for entries that fail validation
+  3: (data) => ({
+    ...data,
+    quarantine: asArray(data.quarantine)
+  }),
+  // 4: add the trash section for soft-deleted blocks
+  4: (data) => ({
+    ...data,
+    trash: asArray(data.trash)
+  }),
+  // 5: blocks imported from a calendar remember the event's sourceUid
+  5: unchanged,
+  // 6: recurring schedules on standard blocks, with seriesId, occurrence and detached on blocks
+  6: unchanged,
+  // 7: template defaults on standard blocks
+  7: unchanged,
+  // 8: categories and tags
+  8: unchanged,
+  // 9: locked blocks with unlock requests and history
+  9: unchanged,
+  // 10: early endings with plannedEndTime and breakReason
+  10: unchanged,
+  // 11: pauses and the activity log of running blocks
+  11: unchanged,
+  // 12: site and app targets
+  12: unchanged
+};
+
+// Thrown when a write would replace data saved by a newer build of the app
+export class NewerSchemaVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(`This data was saved by a newer version of Tech Blocker (schema ${version}). Update the app before making changes.`);
+    this.name = 'NewerSchemaVersionError';
+  }
+}
+
+// Read the schema version of parsed data, treating unversioned data as legacy
+export const getSchemaVersion = (data: unknown): number => {
+  if (typeof data === 'object' && data !== null) {
+    const version = (data as RawFileData).schemaVersion;
+    if (typeof version === 'number' && Number.isInteger(version) && version >= LEGACY_SCHEMA_VERSION) {
+      return version;
+    }
+  }
+  return LEGACY_SCHEMA_VERSION;
+};
+
+export const isNewerSchemaVersion = (version: number): boolean => {
+  return version > CURRENT_SCHEMA_VERSION;
+};
+
+// Upgrade parsed data step by step to the current schema version.
+// Data from a newer build is returned untouched so nothing gets lost.
+export const migrateFileData = (data: unknown): RawFileData => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Data file does not contain a JSON object');
+  }
+
+  const version = getSchemaVersion(data);
+  if (isNewerSchemaVersion(version)) {
+    return data as RawFileData;
+  }
+
+  let migrated = data as RawFileData;
+  for (let next = version + 1; next <= CURRENT_SCHEMA_VERSION; next++) {
+    const migration = migrations[next];
+    if (!migration) {
+      throw new Error(`Missing migration to schema version ${next}`);
+    }
+    migrated = { ...migration(migrated), schemaVersion: next };
+  }
+
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Block, StandardBlock } from '../types';
+import { applyMerges, findConflicts, findOverlapGroups, getContinuousEndTime, getMergedBlock } from './overlaps';
+import { getMissingOccurrences, skipOccurrences } from './recurrence';
+
+const createBlock = (id: number, name: string, start: string, end: string, extra: Partial<Block> = {}): Block => ({
+  id,
+  name,
+  startTime: new Date(`2024-01-01T${start}:00`),
+  endTime: new Date(`2024-01-01T${end}:00`),
+  notes: '',
+  ...extra
+});
+
+describe('overlaps', () => {
+  const blocks = [
+    createBlock(1, 'Social media', '09:00', '12:00'),
+    createBlock(2, 'social media ', '11:00', '14:00'),
+    createBlock(3, 'Social media', '13:30', '15:00'),
+    createBlock(4, 'Social media', '15:00', '16:00'),
+    createBlock(5, 'News', '09:00', '12:00'),
+    createBlock(6, 'News', '09:00', '12:00')
+  ];
+
+  it('should find overlapping blocks with the same name', () => {
+    const candidate = { name: 'Social Media', startTime: new Date('2024-01-01T11:30:00'), endTime: new Date('2024-01-01T15:00:00') };
+
+    expect(findConflicts(candidate, blocks).map(block => block.id)).toEqual([1, 2, 3]);
+    expect(findConflicts(candidate, blocks, 2).map(block => block.id)).toEqual([1, 3]);
+  });
+
+  it('should group chains of overlaps and exact duplicates but not back-to-back blocks', () => {
+    expect(findOverlapGroups(blocks).map(group => group.map(block => block.id))).toEqual([[1, 2, 3], [5, 6]]);
+  });
+
+  it('should merge into one continuous block that keeps the oldest id', () => {
+    const merged = getMergedBlock([
+      createBlock(2, 'Social media', '11:00', '14:00', { notes: 'Afternoon', tags: ['social', 'video'], locked: true }),
+      createBlock(1, 'Social media', '09:00', '12:00', {
+        notes: 'Morning',
+        tags: ['social'],
+        targets: { domains: ['reddit.com'] }
+      })
+    ]);
+
+    expect(merged.id).toBe(1);
+    expect(merged.startTime).toEqual(new Date('2024-01-01T09:00:00'));
+    expect(merged.endTime).toEqual(new Date('2024-01-01T14:00:00'));
+    expect(merged.notes).toBe('Afternoon\nMorning');
+    expect(merged.tags).toEqual(['social', 'video']);
+    expect(merged.targets).toEqual({ domains: ['reddit.com'] });
+    expect(merged.locked).toBe(true);
+  });
+
+  it('should detach a merged occurrence from its series', () => {
+    const occurrence = createBlock(1, 'Social media', '09:00', '12:00', { seriesId: 7, occurrence: '2024-01-01' });
+
+    expect(getMergedBlock([occurrence, createBlock(2, 'Social media', '11:00', '13:00')]).detached).toBe(true);
+    expect(getMergedBlock([occurrence, createBlock(2, 'Social media', '10:00', '11:00')]).detached).toBeUndefined();
+  });
+
+  it('should skip merged-away occurrences so emptying the trash does not bring them back', () => {
+    const schedule = { rule: { frequency: 'daily' as const }, startDate: '2024-01-01', durationMinutes: 180 };
+    const morning: StandardBlock = { id: 7, name: 'Social media', schedule: { ...schedule, startTime: '09:00' } };
+    const midday: StandardBlock = { id: 8, name: 'Social media', schedule: { ...schedule, startTime: '11:00' } };
+    const group = [
+      createBlock(1, 'Social media', '09:00', '12:00', { seriesId: 7, occurrence: '2024-01-01' }),
+      createBlock(2, 'Social media', '11:00', '14:00', { seriesId: 8, occurrence: '2024-01-01' })
+    ];
+
+    const { blocks: merged, mergedAway } = applyMerges(group, [{ group, merged: getMergedBlock(group) }]);
+    expect(merged.map(block => block.id)).toEqual([1]);
+    expect(mergedAway.map(block => block.id)).toEqual([2]);
+
+    // With the trash emptied only the remaining blocks are left to compare against
+    const standardBlocks = skipOccurrences([morning, midday], mergedAway);
+    expect(getMissingOccurrences(standardBlocks, merged, new Date('2024-01-01T08:00:00'), 0)).toEqual([]);
+    expect(getMissingOccurrences([morning, midday], merged, new Date('2024-01-01T08:00:00'), 0)).toHaveLength(1);
+  });
+
+  it('should follow overlapping and back-to-back blocks to the end of coverage', () => {
+    expect(getContinuousEndTime(blocks.slice(0, 4))).toEqual(new Date('2024-01-01T16:00:00'));
+    expect(getContinuousEndTime([blocks[0], createBlock(7, 'Social media', '13:00', '14:00')]))
+      .toEqual(new Date('2024-01-01T12:00:00'));
+    expect(getContinuousEndTime([])).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { Block, BlockTargets } from '../types';
+import { mergeTargets } from './blocklist';
+import { formatLocalDateTime } from './timeUtils';
+
+type TimedBlock = Pick<Block, 'name' | 'startTime' | 'endTime'>;
+
+// Names are compared the way people type them, so "Social media " and "social media" are the same block
+const nameKey = (name: string): string => name.trim().toLowerCase();
+
+// Blocks that share some time; one ending exactly when the other starts doesn't count
+export const blocksOverlap = (a: TimedBlock, b: TimedBlock): boolean => {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+};
+
+// Blocks with the same name that overlap the candidate, earliest first.
+// `excludeId` leaves out the block being edited.
+export const findConflicts = (candidate: TimedBlock, blocks: Block[], excludeId?: number): Block[] => {
+  return blocks
+    .filter(block => block.id !== excludeId && nameKey(block.name) === nameKey(candidate.name) && blocksOverlap(block, candidate))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+// Same-name blocks whose times overlap, directly or through each other, earliest group first.
+// Duplicates with identical times are a group too.
+export const findOverlapGroups = (blocks: Block[]): Block[][] => {
+  const byName = new Map<string, Block[]>();
+  blocks.forEach(block => {
+    const key = nameKey(block.name);
+    byName.set(key, [...(byName.get(key) ?? []), block]);
+  });
+
+  const groups: Block[][] = [];
+  byName.forEach(named => {
+    let group: Block[] = [];
+    let groupEnd = 0;
+    [...named].sort((a, b) => a.startTime.getTime() - b.startTime.getTime()).forEach(block => {
+      if (group.length > 0 && block.startTime.getTime() < groupEnd) {
+        group.push(block);
+        groupEnd = Math.max(groupEnd, block.endTime.getTime());
+        return;
+      }
+      if (group.length > 1) groups.push(group);
+      group = [block];
+      groupEnd = block.endTime.getTime();
+    });
+    if (group.length > 1) groups.push(group);
+  });
+
+  return groups.sort((a, b) => a[0].startTime.getTime() - b[0].startTime.getTime());
+};
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+// ISO strings sort chronologically
+const byTime = <T>(items: T[], time: (item: T) => string): T[] => {
+  return [...items].sort((a, b) => time(a).localeCompare(time(b)));
+};
+
+const compactTargets = (targets: Required<BlockTargets>): BlockTargets | undefined => {
+  const compacted: BlockTargets = {};
+  if (targets.domains.length > 0) compacted.domains = targets.domains;
+  if (targets.urlPatterns.length > 0) compacted.urlPatterns = targets.urlPatterns;
+  if (targets.apps.length > 0) compacted.apps = targets.apps;
+  return Object.keys(compacted).length > 0 ? compacted : undefined;
+};
+
+// One continuous block covering all the given ones. It keeps the id and details of the oldest block,
+// gathers everyone's notes, tags, targets and history, and stays locked if any of them was locked.
+export const getMergedBlock = (blocks: Block[]): Block => {
+  const [kept] = [...blocks].sort((a, b) => a.id - b.id);
+  const startTime = new Date(Math.min(...blocks.map(block => block.startTime.getTime())));
+  const latest = blocks.reduce((last, block) => block.endTime > last.endTime ? block : last);
+  const tags = unique(blocks.flatMap(block => block.tags ?? []));
+  const notes = unique(blocks.map(block => block.notes?.trim() ?? '').filter(note => note !== ''));
+  const pauses = byTime(blocks.flatMap(block => block.pauses ?? []), pause => pause.start);
+  const activity = byTime(blocks.flatMap(block => block.activity ?? []), entry => entry.at);
+  const unlocks = byTime(blocks.flatMap(block => block.unlocks ?? []), unlock => unlock.unlockedAt);
+  const moved = startTime.getTime() !== kept.startTime.getTime() || latest.endTime.getTime() !== kept.endTime.getTime();
+
+  return {
+    ...kept,
+    startTime,
+    endTime: latest.endTime,
+    // Only an early ending of the block that ran longest still applies
+    plannedEndTime: latest.plannedEndTime,
+    breakReason: latest.breakReason,
+    notes: notes.join('\n'),
+    category: blocks.find(block => block.category)?.category,
+    tags: tags.length > 0 ? tags : undefined,
+    targets: compactTargets(mergeTargets(blocks)),
+    locked: blocks.some(block => block.locked) || undefined,
+    pauses: pauses.length > 0 ? pauses : undefined,
+    activity: activity.length > 0 ? activity : undefined,
+    unlocks: unlocks.length > 0 ? unlocks : undefined,
+    // An occurrence with new times no longer follows its series
+    detached: kept.occurrence && moved ? true : kept.detached
+  };
+};
+
+export interface BlockMerge {
+  group: Block[];
+  merged: Block;
+}
+
+// Replace each group with its merged block, in the place of the block it kept. Returns the new
+// blocks and the ones merged away, which are left for the caller to trash.
+export const applyMerges = (blocks: Block[], merges: BlockMerge[]): { blocks: Block[]; mergedAway: Block[] } => {
+  const mergedById = new Map(merges.map(({ merged }) => [merged.id, merged]));
+  const mergedAway = merges.flatMap(({ group, merged }) => group.filter(block => block.id !== merged.id));
+  const removedIds = new Set(mergedAway.map(block => block.id));
+  const kept = blocks
+    .filter(block => !removedIds.has(block.id))
+    .map(block => mergedById.get(block.id) ?? block);
+  const added = Array.from(mergedById.values()).filter(merged => !kept.some(block => block.id === merged.id));
+  return { blocks: [...kept, ...added], mergedAway };
+};
+
+// Where the run of back-to-back or overlapping blocks starting with the earliest one ends
+export const getContinuousEndTime = (blocks: TimedBlock[]): Date | null => {
+  const sorted = [...blocks].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  if (sorted.length === 0) return null;
+
+  let end = sorted[0].endTime;
+  for (const block of sorted.slice(1)) {
+    if (block.startTime > end) break;
+    if (block.endTime > end) end = block.endTime;
+  }
+  return end;
+};
+
+// e.g. "Jan 1, 09:00 - Jan 1, 17:00"
+export const formatBlockRange = (block: Pick<Block, 'startTime' | 'endTime'>): string => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+  return `${formatLocalDateTime(block.startTime, options)} - ${formatLocalDateTime(block.endTime, options)}`;
+};
@@ -0,0 +1,25 @@
+export interface PassphraseRequest {
+  // What is being unlocked, e.g. the data file's name
+  label: string;
+  // The previous attempt had the wrong passphrase
+  isRetry: boolean;
+}
+
+// Resolves to the passphrase, or null when the user gives up
+export type PassphrasePrompt = (request: PassphraseRequest) => Promise<string | null>;
+
+let activePrompt: PassphrasePrompt | null = null;
+
+// Called by the mounted passphrase dialog; storage code asks through requestPassphrase
+export const setPassphrasePrompt = (prompt: PassphrasePrompt | null): void => {
+  activePrompt = prompt;
+};
+
+export const requestPassphrase: PassphrasePrompt = (request) => {
+  if (activePrompt) {
+    return activePrompt(request);
+  }
+  return Promise.resolve(window.prompt(
+    `${request.isRetry ? 'Wrong passphrase. ' : ''}Enter the passphrase for ${request.label}`
+  ));
+};
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { BlockSchedule, StandardBlock } from '../types';
+import {
+  createSchedule,
+  describeSchedule,
+  getDuplicateOccurrenceIds,
+  getMissingOccurrences,
+  listOccurrences,
+  skipOccurrences,
+  validateRecurrenceRule
+} from './recurrence';
+
+// 2024-01-01 is a Monday
+const weekdays: BlockSchedule = {
+  rule: { frequency: 'weekly', weekdays: [1, 2, 3, 4, 5] },
+  startDate: '2024-01-01',
+  startTime: '09:00',
+  durationMinutes: 8 * 60
+};
+
+const series: StandardBlock = { id: 1, name: 'Social media', schedule: weekdays };
+
+describe('recurrence', () => {
+  it('should list occurrences on the selected weekdays', () => {
+    expect(listOccurrences(weekdays, '2024-01-09')).toEqual([
+      '2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05', '2024-01-08', '2024-01-09'
+    ]);
+  });
+
+  it('should repeat every N days and stop at the end date or count', () => {
+    const everyThree: BlockSchedule = { ...weekdays, rule: { frequency: 'everyNDays', intervalDays: 3 } };
+    expect(listOccurrences(everyThree, '2024-01-10')).toEqual(['2024-01-01', '2024-01-04', '2024-01-07', '2024-01-10']);
+
+    const until: BlockSchedule = { ...weekdays, rule: { frequency: 'daily', until: '2024-01-03' } };
+    expect(listOccurrences(until, '2024-01-10')).toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+
+    const twice: BlockSchedule = { ...weekdays, rule: { frequency: 'daily', count: 2 } };
+    expect(listOccurrences(twice, '2024-01-10')).toEqual(['2024-01-01', '2024-01-02']);
+  });
+
+  it('should create missing occurrences that have not ended and were not skipped', () => {
+    const skipping: StandardBlock = { ...series, schedule: { ...weekdays, skipped: ['2024-01-04'] } };
+    const existing = [{
+      id: 10,
+      name: 'Social media',
+      startTime: new Date('2024-01-03T09:00:00'),
+      endTime: new Date('2024-01-03T17:00:00'),
+      seriesId: 1,
+      occurrence: '2024-01-03'
+    }];
+
+    const missing = getMissingOccurrences([skipping], existing, new Date('2024-01-02T18:00:00'), 3);
+
+    expect(missing.map(block => block.occurrence)).toEqual(['2024-01-05']);
+    expect(missing[0].startTime).toEqual(new Date('2024-01-05T09:00:00'));
+    expect(missing[0].endTime).toEqual(new Date('2024-01-05T17:00:00'));
+    expect(missing[0].seriesId).toBe(1);
+  });
+
+  it('should keep the first of duplicated occurrences', () => {
+    const occurrence = {
+      name: 'Social media',
+      startTime: new Date('2024-01-03T09:00:00'),
+      endTime: new Date('2024-01-03T17:00:00'),
+      seriesId: 1,
+      occurrence: '2024-01-03'
+    };
+
+    expect(getDuplicateOccurrenceIds([
+      { ...occurrence, id: 3 },
+      { ...occurrence, id: 2 },
+      { ...occurrence, id: 4, occurrence: '2024-01-04' }
+    ])).toEqual([3]);
+  });
+
+  it('should not recreate cleared occurrences once they leave the trash', () => {
+    const cleared = [
+      { id: 10, name: 'Social media', startTime: new Date('2024-01-03T09:00:00'), endTime: new Date('2024-01-03T17:00:00'), seriesId: 1, occurrence: '2024-01-03' },
+      { id: 11, name: 'News', startTime: new Date('2024-01-03T10:00:00'), endTime: new Date('2024-01-03T11:00:00') }
+    ];
+    const [skipping] = skipOccurrences([series], cleared);
+
+    expect(skipping.schedule?.skipped).toEqual(['2024-01-03']);
+    expect(getMissingOccurrences([skipping], [], new Date('2024-01-02T18:00:00'), 1)).toEqual([]);
+  });
+
+  it('should take the time of day and duration from a block', () => {
+    const schedule = createSchedule({
+      startTime: new Date('2024-01-01T09:30:00'),
+      endTime: new Date('2024-01-01T11:00:00'),
+      notes: ''
+    }, { frequency: 'daily' });
+
+    expect(schedule).toEqual({
+      rule: { frequency: 'daily' },
+      startDate: '2024-01-01',
+      startTime: '09:30',
+      durationMinutes: 90,
+      notes: undefined
+    });
+  });
+
+  it('should reject rules without occurrences', () => {
+    expect(validateRecurrenceRule({ frequency: 'weekly', weekdays: [] }, '2024-01-01')).not.toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'everyNDays', intervalDays: 0 }, '2024-01-01')).not.toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'daily', until: '2023-12-31' }, '2024-01-01')).not.toBeNull();
+    expect(validateRecurrenceRule({ frequency: 'daily', count: 5 }, '2024-01-01')).toBeNull();
+  });
+
+  it('should describe schedules', () => {
+    expect(describeSchedule(weekdays)).toBe('Every weekday at 09:00');
+    expect(describeSchedule({ ...weekdays, rule: { frequency: 'weekly', weekdays: [6, 0] } })).toBe('Every Sun, Sat at 09:00');
+    expect(describeSchedule({ ...weekdays, rule: { frequency: 'everyNDays', intervalDays: 2, count: 3 } }))
+      .toBe('Every 2 days at 09:00, 3 times');
+  });
+});
@@ -0,0 +1,175 @@
+import { Block, BlockSchedule, RecurrenceRule, StandardBlock } from '../types';
+import { formatDateForDateInput, formatTimeForTimeInput } from './timeUtils';
+
+// Occurrences are created this many days ahead
+export const GENERATION_HORIZON_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const WORKWEEK = [1, 2, 3, 4, 5];
+
+// Local midnight of a YYYY-MM-DD day
+export const parseDayKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (key: string, days: number): string => {
+  const date = parseDayKey(key);
+  date.setDate(date.getDate() + days);
+  return formatDateForDateInput(date);
+};
+
+// Whole days between two days, ignoring daylight saving shifts
+const daysBetween = (from: string, to: string): number => {
+  const [a, b] = [parseDayKey(from), parseDayKey(to)];
+  return Math.round((Date.UTC(b.getFullYear(), b.getMonth(), b.getDate()) -
+    Date.UTC(a.getFullYear(), a.getMonth(), a.getDate())) / DAY_MS);
+};
+
+const matchesRule = (rule: RecurrenceRule, startDate: string, day: string): boolean => {
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return (rule.weekdays ?? []).includes(parseDayKey(day).getDay());
+    case 'everyNDays':
+      return daysBetween(startDate, day) % Math.max(1, rule.intervalDays ?? 1) === 0;
+  }
+};
+
+// Days with an occurrence from the start of the series up to and including `through`
+export const listOccurrences = (schedule: BlockSchedule, through: string): string[] => {
+  const { rule, startDate } = schedule;
+  const last = rule.until && rule.until < through ? rule.until : through;
+  const days: string[] = [];
+  for (let day = startDate; day <= last; day = addDays(day, 1)) {
+    if (rule.count !== undefined && days.length >= rule.count) break;
+    if (matchesRule(rule, startDate, day)) days.push(day);
+  }
+  return days;
+};
+
+// Start and end of the occurrence on a given day
+export const getOccurrenceTimes = (schedule: BlockSchedule, day: string): { startTime: Date; endTime: Date } => {
+  const [hours, minutes] = schedule.startTime.split(':').map(Number);
+  const startTime = parseDayKey(day);
+  startTime.setHours(hours, minutes, 0, 0);
+  return { startTime, endTime: new Date(startTime.getTime() + schedule.durationMinutes * 60 * 1000) };
+};
+
+export const createOccurrence = (series: StandardBlock, schedule: BlockSchedule, day: string): Omit<Block, 'id'> => ({
+  name: series.name,
+  ...getOccurrenceTimes(schedule, day),
+  notes: schedule.notes ?? '',
+  locked: series.locked,
+  category: series.category,
+  tags: series.tags,
+  targets: series.targets,
+  seriesId: series.id,
+  occurrence: day
+});
+
+// The schedule that repeats a block's time of day and duration from its day onwards
+export const createSchedule = (block: Pick<Block, 'startTime' | 'endTime' | 'notes'>, rule: RecurrenceRule): BlockSchedule => ({
+  rule,
+  startDate: formatDateForDateInput(block.startTime),
+  startTime: formatTimeForTimeInput(block.startTime),
+  durationMinutes: Math.round((block.endTime.getTime() - block.startTime.getTime()) / 60000),
+  notes: block.notes || undefined
+});
+
+// Occurrences within the horizon that haven't ended, weren't skipped and don't exist yet.
+// `existing` should include trashed blocks so deleted occurrences don't come back.
+export const getMissingOccurrences = (
+  standardBlocks: StandardBlock[],
+  existing: Block[],
+  now: Date = new Date(),
+  horizonDays: number = GENERATION_HORIZON_DAYS
+): Omit<Block, 'id'>[] => {
+  const through = formatDateForDateInput(new Date(now.getTime() + horizonDays * DAY_MS));
+  const present = new Set(existing
+    .filter(block => block.seriesId !== undefined)
+    .map(block => `${block.seriesId}:${block.occurrence}`));
+
+  return standardBlocks.flatMap(series => {
+    const schedule = series.schedule;
+    if (!schedule) return [];
+    const skipped = new Set(schedule.skipped ?? []);
+    return listOccurrences(schedule, through)
+      .filter(day => !skipped.has(day) && !present.has(`${series.id}:${day}`))
+      .map(day => createOccurrence(series, schedule, day))
+      .filter(occurrence => occurrence.endTime > now);
+  });
+};
+
+// Occurrences created twice, e.g. by two tabs at once; the one with the lowest id is kept
+export const getDuplicateOccurrenceIds = (blocks: Block[]): number[] => {
+  const kept = new Map<string, number>();
+  const duplicates: number[] = [];
+  [...blocks].sort((a, b) => a.id - b.id).forEach(block => {
+    if (block.seriesId === undefined || !block.occurrence) return;
+    const key = `${block.seriesId}:${block.occurrence}`;
+    if (kept.has(key)) {
+      duplicates.push(block.id);
+    } else {
+      kept.set(key, block.id);
+    }
+  });
+  return duplicates;
+};
+
+// Record the days of deleted occurrences as skipped on their series, so they aren't created again
+// once the trash is emptied or purged
+export const skipOccurrences = (standardBlocks: StandardBlock[], removed: Block[]): StandardBlock[] => {
+  return standardBlocks.map(series => {
+    const days = removed
+      .filter(block => block.seriesId === series.id && block.occurrence)
+      .map(block => block.occurrence as string);
+    if (!series.schedule || days.length === 0) return series;
+    return {
+      ...series,
+      schedule: { ...series.schedule, skipped: Array.from(new Set([...(series.schedule.skipped ?? []), ...days])) }
+    };
+  });
+};
+
+// Move an occurrence that follows its series onto the series' current times and details
+export const applyScheduleToOccurrence = (block: Block, series: StandardBlock, schedule: BlockSchedule): Block => {
+  if (!block.occurrence || block.detached) return block;
+  return { ...block, ...createOccurrence(series, schedule, block.occurrence), id: block.id };
+};
+
+// Problems with a rule that would keep it from creating sensible occurrences
+export const validateRecurrenceRule = (rule: RecurrenceRule, startDate: string): string | null => {
+  if (rule.frequency === 'weekly' && (rule.weekdays ?? []).length === 0) return 'Pick at least one day of the week to repeat on';
+  if (rule.frequency === 'everyNDays' && !((rule.intervalDays ?? 0) >= 1)) return 'Repeat at least every 1 day';
+  if (rule.until !== undefined && rule.until < startDate) return 'The series must end on or after its first day';
+  if (rule.count !== undefined && !(rule.count >= 1)) return 'The series needs at least one occurrence';
+  return null;
+};
+
+const formatDay = (key: string) => {
+  return parseDayKey(key).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+// e.g. "Every weekday at 09:00, until Mar 1, 2025"
+export const describeSchedule = (schedule: BlockSchedule): string => {
+  const { rule } = schedule;
+  let repeat: string;
+  if (rule.frequency === 'daily') {
+    repeat = 'Every day';
+  } else if (rule.frequency === 'everyNDays') {
+    repeat = (rule.intervalDays ?? 1) === 1 ? 'Every day' : `Every ${rule.intervalDays} days`;
+  } else {
+    const weekdays = [...(rule.weekdays ?? [])].sort();
+    repeat = weekdays.join() === WORKWEEK.join()
+      ? 'Every weekday'
+      : `Every ${weekdays.map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+
+  const parts = [`${repeat} at ${schedule.startTime}`];
+  if (rule.until) parts.push(`until ${formatDay(rule.until)}`);
+  if (rule.count !== undefined) parts.push(`${rule.count} time${rule.count === 1 ? '' : 's'}`);
+  return parts.join(', ');
+};
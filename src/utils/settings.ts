@@ -0,0 +1,42 @@
+import { BackupRetention } from './backups';
+
+export interface AppSettings {
+  // Days a deleted block stays in the trash before it is purged; 0 keeps it forever
+  trashRetentionDays: number;
+  // Snapshots kept per backup tier
+  backupRetention: BackupRetention;
+  // Days after a block ends before it moves into a monthly archive; 0 keeps every block in the data
+  archiveAfterDays: number;
+}
+
+export const SETTINGS_STORAGE_KEY = 'tech-blocker-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  trashRetentionDays: 30,
+  backupRetention: { hourly: 24, daily: 7, weekly: 4 },
+  archiveAfterDays: 0
+};
+
+// Settings are per browser, whichever data source is connected
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (typeof parsed === 'object' && parsed !== null) {
+        return { ...DEFAULT_SETTINGS, ...parsed };
+      }
+    }
+  } catch (error) {
+    console.error('Error loading settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+};
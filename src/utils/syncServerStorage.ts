@@ -0,0 +1,32 @@
+export interface SyncServerConfig {
+  // Base URL of the sync server, e.g. http://nas.local:8787
+  url: string;
+  // Access token the server was started with, if any
+  token?: string;
+}
+
+export const SYNC_SERVER_STORAGE_KEY = 'tech-blocker-sync-server';
+
+// The sync server this browser was last connected to, for reconnecting on startup
+export const getStoredSyncServer = (): SyncServerConfig | null => {
+  try {
+    const saved = localStorage.getItem(SYNC_SERVER_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (typeof parsed?.url === 'string') {
+        return { url: parsed.url, token: typeof parsed.token === 'string' ? parsed.token : undefined };
+      }
+    }
+  } catch (error) {
+    console.error('Error loading sync server settings:', error);
+  }
+  return null;
+};
+
+export const saveSyncServer = (config: SyncServerConfig): void => {
+  localStorage.setItem(SYNC_SERVER_STORAGE_KEY, JSON.stringify(config));
+};
+
+export const clearStoredSyncServer = (): void => {
+  localStorage.removeItem(SYNC_SERVER_STORAGE_KEY);
+};
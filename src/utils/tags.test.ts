@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAllCategories,
+  getAllTags,
+  getCategoryDurations,
+  getTagDurations,
+  matchesTagFilter,
+  parseTags,
+  toTagFields
+} from './tags';
+
+const createBlock = (id: number, minutes: number, category?: string, tags?: string[]) => ({
+  id,
+  name: `Block ${id}`,
+  startTime: new Date('2024-01-01T09:00:00'),
+  endTime: new Date(new Date('2024-01-01T09:00:00').getTime() + minutes * 60 * 1000),
+  category,
+  tags
+});
+
+describe('tags', () => {
+  it('should parse comma-separated tags without blanks or duplicates', () => {
+    expect(parseTags(' Social, video,,social ,News')).toEqual(['social', 'video', 'news']);
+    expect(toTagFields('  ', '')).toEqual({ category: undefined, tags: undefined });
+    expect(toTagFields(' Distractions ', 'Video')).toEqual({ category: 'Distractions', tags: ['video'] });
+  });
+
+  it('should list the tags and categories in use', () => {
+    const blocks = [
+      createBlock(1, 30, 'Distractions', ['video', 'social']),
+      createBlock(2, 30, 'Work', ['social']),
+      createBlock(3, 30)
+    ];
+
+    expect(getAllTags(blocks)).toEqual(['social', 'video']);
+    expect(getAllCategories(blocks)).toEqual(['Distractions', 'Work']);
+  });
+
+  it('should match blocks by tag and category together', () => {
+    const block = createBlock(1, 30, 'Distractions', ['video']);
+
+    expect(matchesTagFilter(block, { tag: 'video', category: null })).toBe(true);
+    expect(matchesTagFilter(block, { tag: 'video', category: 'Work' })).toBe(false);
+    expect(matchesTagFilter(createBlock(2, 30), { tag: 'video', category: null })).toBe(false);
+  });
+
+  it('should add up time per tag and per category', () => {
+    const blocks = [
+      createBlock(1, 60, 'Distractions', ['video', 'social']),
+      createBlock(2, 30, 'Distractions', ['social']),
+      createBlock(3, 45)
+    ];
+
+    expect(getTagDurations(blocks)).toEqual([
+      { label: 'social', minutes: 90, count: 2 },
+      { label: 'video', minutes: 60, count: 1 }
+    ]);
+    expect(getCategoryDurations(blocks)).toEqual([{ label: 'Distractions', minutes: 90, count: 2 }]);
+  });
+});
@@ -0,0 +1,71 @@
+import { Block } from '../types';
+
+export interface TagFilter {
+  tag: string | null;
+  category: string | null;
+}
+
+export const NO_TAG_FILTER: TagFilter = { tag: null, category: null };
+
+export interface DurationRollup {
+  label: string;
+  minutes: number;
+  count: number;
+}
+
+// Tags typed as comma-separated text, lowercased and without duplicates
+export const parseTags = (text: string): string[] => {
+  const tags = text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags));
+};
+
+export const formatTags = (tags: string[] | undefined): string => (tags ?? []).join(', ');
+
+// Category and tags as stored, leaving out empty values
+export const toTagFields = (category: string, tags: string): Pick<Block, 'category' | 'tags'> => {
+  const parsed = parseTags(tags);
+  return {
+    category: category.trim() || undefined,
+    tags: parsed.length > 0 ? parsed : undefined
+  };
+};
+
+export const getAllTags = (blocks: Pick<Block, 'tags'>[]): string[] => {
+  return Array.from(new Set(blocks.flatMap(block => block.tags ?? []))).sort();
+};
+
+export const getAllCategories = (blocks: Pick<Block, 'category'>[]): string[] => {
+  const categories = blocks.map(block => block.category).filter((category): category is string => !!category);
+  return Array.from(new Set(categories)).sort((a, b) => a.localeCompare(b));
+};
+
+export const isTagFilterActive = (filter: TagFilter): boolean => filter.tag !== null || filter.category !== null;
+
+export const matchesTagFilter = (block: Block, filter: TagFilter): boolean => {
+  if (filter.category !== null && block.category !== filter.category) return false;
+  if (filter.tag !== null && !(block.tags ?? []).includes(filter.tag)) return false;
+  return true;
+};
+
+const minutesOf = (block: Block) => Math.round((block.endTime.getTime() - block.startTime.getTime()) / 60000);
+
+const rollUp = (blocks: Block[], getLabels: (block: Block) => string[]): DurationRollup[] => {
+  const totals = new Map<string, DurationRollup>();
+  blocks.forEach(block => {
+    getLabels(block).forEach(label => {
+      const total = totals.get(label) ?? { label, minutes: 0, count: 0 };
+      totals.set(label, { label, minutes: total.minutes + minutesOf(block), count: total.count + 1 });
+    });
+  });
+  return Array.from(totals.values()).sort((a, b) => b.minutes - a.minutes || a.label.localeCompare(b.label));
+};
+
+// Time spent per tag, longest first. A block with several tags counts towards each of them.
+export const getTagDurations = (blocks: Block[]): DurationRollup[] => {
+  return rollUp(blocks, block => block.tags ?? []);
+};
+
+// Time spent per category, longest first
+export const getCategoryDurations = (blocks: Block[]): DurationRollup[] => {
+  return rollUp(blocks, block => block.category ? [block.category] : []);
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { createBlockFromTemplate, describeTemplate, getTemplateTimes } from './templates';
+
+describe('templates', () => {
+  const now = new Date('2024-01-01T10:00:00');
+
+  it('should start now for an hour without defaults', () => {
+    expect(createBlockFromTemplate({ id: 1, name: 'Focus' }, now)).toEqual({
+      name: 'Focus',
+      startTime: now,
+      endTime: new Date('2024-01-01T11:00:00'),
+      notes: ''
+    });
+  });
+
+  it('should start at the default time of day while the block would still run', () => {
+    const template = { id: 1, name: 'Social media', durationMinutes: 8 * 60, startTime: '09:00' };
+
+    expect(getTemplateTimes(template, now)).toEqual({
+      startTime: new Date('2024-01-01T09:00:00'),
+      endTime: new Date('2024-01-01T17:00:00')
+    });
+    expect(getTemplateTimes(template, new Date('2024-01-01T18:00:00')).startTime)
+      .toEqual(new Date('2024-01-02T09:00:00'));
+  });
+
+  it('should start immediately when flagged even with a time of day', () => {
+    const template = { id: 1, name: 'News', durationMinutes: 30, startTime: '20:00', startImmediately: true };
+
+    expect(getTemplateTimes(template, now)).toEqual({
+      startTime: now,
+      endTime: new Date('2024-01-01T10:30:00')
+    });
+  });
+
+  it('should describe the defaults', () => {
+    expect(describeTemplate({ id: 1, name: 'Focus' })).toBeNull();
+    expect(describeTemplate({ id: 1, name: 'Focus', durationMinutes: 90, startTime: '09:00' })).toBe('1h 30m at 09:00');
+  });
+});
@@ -0,0 +1,45 @@
+import { Block, StandardBlock } from '../types';
+import { formatDuration } from './timeUtils';
+
+// Used by standard blocks without a default duration
+export const DEFAULT_DURATION_MINUTES = 60;
+
+// When a block created from a standard block starts and ends.
+// A time of day that already passed today is used today while the block would still be running, and tomorrow otherwise.
+export const getTemplateTimes = (template: StandardBlock, now: Date = new Date()): { startTime: Date; endTime: Date } => {
+  const durationMs = (template.durationMinutes ?? DEFAULT_DURATION_MINUTES) * 60 * 1000;
+
+  if (template.startImmediately || !template.startTime) {
+    return { startTime: new Date(now), endTime: new Date(now.getTime() + durationMs) };
+  }
+
+  const [hours, minutes] = template.startTime.split(':').map(Number);
+  const startTime = new Date(now);
+  startTime.setHours(hours, minutes, 0, 0);
+  if (startTime.getTime() + durationMs <= now.getTime()) {
+    startTime.setDate(startTime.getDate() + 1);
+  }
+  return { startTime, endTime: new Date(startTime.getTime() + durationMs) };
+};
+
+export const createBlockFromTemplate = (template: StandardBlock, now: Date = new Date()): Omit<Block, 'id'> => ({
+  name: template.name,
+  ...getTemplateTimes(template, now),
+  notes: template.notes ?? '',
+  locked: template.locked,
+  category: template.category,
+  tags: template.tags,
+  targets: template.targets
+});
+
+// e.g. "1h 30m at 09:00", or null for a standard block with no defaults
+export const describeTemplate = (template: StandardBlock): string | null => {
+  const parts: string[] = [];
+  if (template.durationMinutes !== undefined) {
+    parts.push(formatDuration(new Date(0), new Date(template.durationMinutes * 60 * 1000)));
+  }
+  if (template.startTime && !template.startImmediately) {
+    parts.push(`at ${template.startTime}`);
+  }
+  return parts.length > 0 ? parts.join(' ') : null;
+};
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { updateDateAndTime, formatTimeForTimeInput, formatDateForDateInput } from './timeUtils';
+import { updateDateAndTime, formatTimeForTimeInput, formatDateForDateInput, calculateRemainingTime, calculateProgress } from './timeUtils';
 
 describe('updateDateAndTime', () => {
   it('should update only date part when only date is provided', () => {
@@ -118,4 +118,27 @@ describe('End time validation', () => {
     
     expect(isValidTimeOrder2).toBe(true);
   });
-}); 
\ No newline at end of file
+}); 
+describe('Paused blocks', () => {
+  const start = new Date('2024-01-01T09:00:00');
+  const end = new Date('2024-01-01T11:00:00');
+
+  it('should keep the remaining time still while paused', () => {
+    const pauses = [{ start: new Date('2024-01-01T10:00:00').toISOString() }];
+
+    expect(calculateRemainingTime(end, new Date('2024-01-01T10:30:00'), pauses).totalMinutes).toBe(60);
+    expect(calculateProgress(start, end, new Date('2024-01-01T10:30:00'), pauses)).toBe(50);
+  });
+
+  it('should leave out finished pauses from the progress', () => {
+    // The 30 minute pause already moved the end from 11:00 to 11:30
+    const pauses = [{
+      start: new Date('2024-01-01T10:00:00').toISOString(),
+      end: new Date('2024-01-01T10:30:00').toISOString()
+    }];
+    const movedEnd = new Date('2024-01-01T11:30:00');
+
+    expect(calculateProgress(start, movedEnd, new Date('2024-01-01T11:00:00'), pauses)).toBe(75);
+    expect(calculateRemainingTime(movedEnd, new Date('2024-01-01T11:00:00'), pauses).totalMinutes).toBe(30);
+  });
+});
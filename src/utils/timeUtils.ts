@@ -1,4 +1,4 @@
-import { RemainingTime } from '../types';
+import { BlockPause, RemainingTime } from '../types';
 
 // Format date only (YYYY-MM-DD)
 export const formatDateOnly = (date: Date): string => {
@@ -84,10 +84,25 @@ export const parseDateTimeLocal = (dateTimeString: string): Date => {
   }
 };
 
-// Calculate remaining time
-export const calculateRemainingTime = (endTime: Date, currentTime: Date): RemainingTime => {
+// Time spent paused up to the current time, counting a pause that is still going on
+export const getPausedMs = (pauses: BlockPause[] | undefined, currentTime: Date): number => {
+  return (pauses ?? []).reduce((total, pause) => {
+    const start = new Date(pause.start).getTime();
+    const end = pause.end ? new Date(pause.end).getTime() : currentTime.getTime();
+    return total + Math.max(0, end - start);
+  }, 0);
+};
+
+// Time the ongoing pause has lasted. Finished pauses already moved the end time.
+export const getOngoingPauseMs = (pauses: BlockPause[] | undefined, currentTime: Date): number => {
+  const ongoing = pauses?.find(pause => !pause.end);
+  return ongoing ? Math.max(0, currentTime.getTime() - new Date(ongoing.start).getTime()) : 0;
+};
+
+// Calculate remaining time; it stands still while paused
+export const calculateRemainingTime = (endTime: Date, currentTime: Date, pauses?: BlockPause[]): RemainingTime => {
   try {
-    const diff = endTime.getTime() - currentTime.getTime();
+    const diff = endTime.getTime() + getOngoingPauseMs(pauses, currentTime) - currentTime.getTime();
     if (diff <= 0) return { text: 'Completed', expired: true };
     
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
@@ -117,13 +132,14 @@ export const calculateRemainingTime = (endTime: Date, currentTime: Date): Remain
   }
 };
 
-// Calculate progress percentage
-export const calculateProgress = (startTime: Date, endTime: Date, currentTime: Date): number => {
+// Calculate progress percentage over the time the block isn't paused
+export const calculateProgress = (startTime: Date, endTime: Date, currentTime: Date, pauses?: BlockPause[]): number => {
   try {
-    const totalDuration = endTime.getTime() - startTime.getTime();
+    const pausedTime = getPausedMs(pauses, currentTime);
+    const totalDuration = endTime.getTime() + getOngoingPauseMs(pauses, currentTime) - startTime.getTime() - pausedTime;
     if (totalDuration <= 0) return 0;
     
-    const elapsedTime = currentTime.getTime() - startTime.getTime();
+    const elapsedTime = currentTime.getTime() - startTime.getTime() - pausedTime;
     const progress = (elapsedTime / totalDuration) * 100;
     return Math.min(100, Math.max(0, progress));
   } catch (error) {
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { moveToTrash, restoreFromTrash, isTrashExpired } from './trash';
+
+const block = {
+  id: 1,
+  name: 'Social media',
+  startTime: new Date('2024-01-01T09:00:00Z'),
+  endTime: new Date('2024-01-01T17:00:00Z'),
+  notes: ''
+};
+
+describe('moveToTrash and restoreFromTrash', () => {
+  it('should round-trip a block through the trash', () => {
+    const trashed = moveToTrash(block, new Date('2024-01-02T00:00:00Z'));
+
+    expect(trashed.deletedAt).toEqual(new Date('2024-01-02T00:00:00Z'));
+    expect(restoreFromTrash(trashed)).toEqual(block);
+  });
+});
+
+describe('isTrashExpired', () => {
+  const trashed = moveToTrash(block, new Date('2024-01-01T00:00:00Z'));
+
+  it('should expire entries older than the retention period', () => {
+    expect(isTrashExpired(trashed, 30, new Date('2024-01-31T00:00:00Z'))).toBe(true);
+    expect(isTrashExpired(trashed, 30, new Date('2024-01-30T23:59:00Z'))).toBe(false);
+  });
+
+  it('should never expire entries when retention is 0', () => {
+    expect(isTrashExpired(trashed, 0, new Date('2030-01-01T00:00:00Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,19 @@
+import { Block, TrashedBlock } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const moveToTrash = (block: Block, deletedAt: Date = new Date()): TrashedBlock => {
+  return { ...block, deletedAt };
+};
+
+export const restoreFromTrash = (trashed: TrashedBlock): Block => {
+  const block: Block & { deletedAt?: Date } = { ...trashed };
+  delete block.deletedAt;
+  return block;
+};
+
+// A retention of 0 days keeps trashed blocks until they are deleted by hand
+export const isTrashExpired = (trashed: TrashedBlock, retentionDays: number, now: Date = new Date()): boolean => {
+  if (retentionDays <= 0) return false;
+  return now.getTime() - trashed.deletedAt.getTime() >= retentionDays * DAY_MS;
+};
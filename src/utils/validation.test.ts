@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { validateBlock, validateStandardBlock, validateTrashedBlock, validateFileData } from './validation';
+
+const validBlock = {
+  id: 1,
+  name: 'Social media',
+  startTime: '2023-07-15T09:00:00.000Z',
+  endTime: '2023-07-15T17:00:00.000Z',
+  notes: ''
+};
+
+describe('validateBlock', () => {
+  it('should revive dates on a valid block', () => {
+    const { block, reasons } = validateBlock(validBlock);
+
+    expect(reasons).toEqual([]);
+    expect(block?.startTime).toBeInstanceOf(Date);
+    expect(block?.endTime.toISOString()).toBe(validBlock.endTime);
+  });
+
+  it('should revive the planned end of a block that was ended early', () => {
+    const { block, reasons } = validateBlock({ ...validBlock, plannedEndTime: '2023-07-15T18:00:00.000Z', breakReason: 'Call' });
+
+    expect(reasons).toEqual([]);
+    expect(block?.plannedEndTime).toBeInstanceOf(Date);
+    expect(validateBlock({ ...validBlock, plannedEndTime: 'later' }).reasons).toContain('Invalid plannedEndTime');
+  });
+
+  it('should reject invalid dates instead of producing Invalid Date', () => {
+    const { block, reasons } = validateBlock({ ...validBlock, startTime: 'tomorrow-ish' });
+
+    expect(block).toBeNull();
+    expect(reasons).toContain('Missing or invalid startTime');
+  });
+
+  it('should collect every problem with a block', () => {
+    const { reasons } = validateBlock({ startTime: validBlock.endTime, endTime: validBlock.startTime });
+
+    expect(reasons).toEqual([
+      'Missing or non-numeric id',
+      'Missing or empty name',
+      'endTime is not after startTime'
+    ]);
+  });
+
+  it('should reject ids that were already seen', () => {
+    const { reasons } = validateBlock(validBlock, new Set([1]));
+
+    expect(reasons).toEqual(['Duplicate id 1']);
+  });
+});
+
+describe('validateStandardBlock', () => {
+  it('should reject a non-boolean required flag', () => {
+    const { block, reasons } = validateStandardBlock({ id: 2, name: 'News', required: 'yes' });
+
+    expect(block).toBeNull();
+    expect(reasons).toEqual(['required is not true or false']);
+  });
+});
+
+describe('validateTrashedBlock', () => {
+  it('should require a deletion time', () => {
+    const { block, reasons } = validateTrashedBlock(validBlock);
+
+    expect(block).toBeNull();
+    expect(reasons).toEqual(['Missing or invalid deletedAt']);
+  });
+
+  it('should revive the deletion time', () => {
+    const { block } = validateTrashedBlock({ ...validBlock, deletedAt: '2023-07-16T08:00:00.000Z' });
+
+    expect(block?.deletedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('validateFileData', () => {
+  it('should keep good records and quarantine bad ones', () => {
+    const now = new Date('2023-07-16T00:00:00.000Z');
+    const result = validateFileData({
+      blocks: [validBlock, { ...validBlock, name: '' }],
+      standardBlocks: [{ id: 2, name: 'News' }, 'oops']
+    }, now);
+
+    expect(result.blocks.map(block => block.id)).toEqual([1]);
+    expect(result.standardBlocks).toEqual([{ id: 2, name: 'News' }]);
+    expect(result.newlyQuarantined).toHaveLength(2);
+    expect(result.quarantine[0]).toEqual({
+      collection: 'blocks',
+      entry: { ...validBlock, name: '' },
+      reasons: ['Duplicate id 1', 'Missing or empty name'],
+      quarantinedAt: now.toISOString()
+    });
+    expect(result.quarantine[1].reasons).toEqual(['Entry is not an object']);
+  });
+
+  it('should preserve entries quarantined by an earlier load', () => {
+    const previous = { collection: 'blocks', entry: {}, reasons: ['Missing or non-numeric id'], quarantinedAt: '2023-01-01T00:00:00.000Z' };
+    const result = validateFileData({ blocks: [], standardBlocks: [], quarantine: [previous] });
+
+    expect(result.quarantine).toEqual([previous]);
+    expect(result.newlyQuarantined).toEqual([]);
+  });
+});
@@ -0,0 +1,265 @@
+import { Block, QuarantinedEntry, StandardBlock, TrashedBlock } from '../types';
+
+type RawRecord = Record<string, unknown>;
+
+export interface ValidationResult {
+  blocks: Block[];
+  standardBlocks: StandardBlock[];
+  trash: TrashedBlock[];
+  quarantine: QuarantinedEntry[];
+  // Entries quarantined by this validation run, as opposed to ones already set aside
+  newlyQuarantined: QuarantinedEntry[];
+}
+
+const isRecord = (value: unknown): value is RawRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Accept ISO strings, timestamps and Date objects, rejecting anything that isn't a real date
+const parseDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const checkId = (raw: RawRecord, seenIds: Set<number>, reasons: string[]) => {
+  if (typeof raw.id !== 'number' || !Number.isFinite(raw.id)) {
+    reasons.push('Missing or non-numeric id');
+  } else if (seenIds.has(raw.id)) {
+    reasons.push(`Duplicate id ${raw.id}`);
+  }
+};
+
+const checkName = (raw: RawRecord, reasons: string[]) => {
+  if (typeof raw.name !== 'string' || !raw.name.trim()) {
+    reasons.push('Missing or empty name');
+  }
+};
+
+const checkTags = (raw: RawRecord, reasons: string[]) => {
+  if (raw.category !== undefined && typeof raw.category !== 'string') {
+    reasons.push('category is not text');
+  }
+  if (raw.tags !== undefined && (!Array.isArray(raw.tags) || raw.tags.some(tag => typeof tag !== 'string'))) {
+    reasons.push('tags is not a list of text');
+  }
+};
+
+const TARGET_LISTS = ['domains', 'urlPatterns', 'apps'];
+
+const checkTargets = (raw: RawRecord, reasons: string[]) => {
+  if (raw.targets === undefined) return;
+  const { targets } = raw;
+  if (!isRecord(targets) || TARGET_LISTS.some(list =>
+    targets[list] !== undefined && (!Array.isArray(targets[list]) || (targets[list] as unknown[]).some(item => typeof item !== 'string'))
+  )) {
+    reasons.push('targets is not lists of text');
+  }
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+const FREQUENCIES = ['daily', 'weekly', 'everyNDays'];
+
+// Reasons a stored schedule can't be used to create occurrences
+const checkSchedule = (schedule: unknown, reasons: string[]) => {
+  if (!isRecord(schedule) || !isRecord(schedule.rule)) {
+    reasons.push('schedule is not an object with a rule');
+    return;
+  }
+  const { rule } = schedule;
+  if (typeof rule.frequency !== 'string' || !FREQUENCIES.includes(rule.frequency)) {
+    reasons.push('schedule has an unknown frequency');
+  }
+  if (typeof schedule.startDate !== 'string' || !DAY_PATTERN.test(schedule.startDate)) {
+    reasons.push('schedule has an invalid startDate');
+  }
+  if (typeof schedule.startTime !== 'string' || !TIME_PATTERN.test(schedule.startTime)) {
+    reasons.push('schedule has an invalid startTime');
+  }
+  if (typeof schedule.durationMinutes !== 'number' || !(schedule.durationMinutes > 0)) {
+    reasons.push('schedule has no positive durationMinutes');
+  }
+  if (rule.until !== undefined && (typeof rule.until !== 'string' || !DAY_PATTERN.test(rule.until))) {
+    reasons.push('schedule has an invalid until date');
+  }
+};
+
+// Validate a single stored block, returning either the typed block or the reasons it was rejected
+export const validateBlock = (
+  raw: unknown,
+  seenIds: Set<number> = new Set()
+): { block: Block | null; reasons: string[] } => {
+  if (!isRecord(raw)) {
+    return { block: null, reasons: ['Entry is not an object'] };
+  }
+
+  const reasons: string[] = [];
+  checkId(raw, seenIds, reasons);
+  checkName(raw, reasons);
+
+  const startTime = parseDate(raw.startTime);
+  const endTime = parseDate(raw.endTime);
+  if (!startTime) reasons.push('Missing or invalid startTime');
+  if (!endTime) reasons.push('Missing or invalid endTime');
+  if (startTime && endTime && endTime <= startTime) {
+    reasons.push('endTime is not after startTime');
+  }
+
+  const plannedEndTime = raw.plannedEndTime === undefined ? undefined : parseDate(raw.plannedEndTime);
+  if (plannedEndTime === null) reasons.push('Invalid plannedEndTime');
+  if (raw.breakReason !== undefined && typeof raw.breakReason !== 'string') {
+    reasons.push('breakReason is not text');
+  }
+
+  if (raw.notes !== undefined && typeof raw.notes !== 'string') {
+    reasons.push('notes is not text');
+  }
+
+  checkTags(raw, reasons);
+  checkTargets(raw, reasons);
+
+  if (raw.locked !== undefined && typeof raw.locked !== 'boolean') {
+    reasons.push('locked is not true or false');
+  }
+  if (raw.unlocks !== undefined && (!Array.isArray(raw.unlocks) || !raw.unlocks.every(isRecord))) {
+    reasons.push('unlocks is not a list of records');
+  }
+  if (raw.pauses !== undefined && (!Array.isArray(raw.pauses) ||
+    !raw.pauses.every(pause => isRecord(pause) && parseDate(pause.start) && (pause.end === undefined || parseDate(pause.end))))) {
+    reasons.push('pauses is not a list of start and end times');
+  }
+  if (raw.activity !== undefined && (!Array.isArray(raw.activity) || !raw.activity.every(isRecord))) {
+    reasons.push('activity is not a list of records');
+  }
+
+  if (raw.seriesId !== undefined && (typeof raw.seriesId !== 'number' ||
+    typeof raw.occurrence !== 'string' || !DAY_PATTERN.test(raw.occurrence))) {
+    reasons.push('seriesId without a valid occurrence day');
+  }
+
+  if (reasons.length > 0 || !startTime || !endTime) {
+    return { block: null, reasons };
+  }
+
+  return {
+    block: { ...raw, startTime, endTime, ...(plannedEndTime ? { plannedEndTime } : {}) } as Block,
+    reasons
+  };
+};
+
+// Validate a trashed block: a valid block plus the time it was deleted
+export const validateTrashedBlock = (
+  raw: unknown,
+  seenIds: Set<number> = new Set()
+): { block: TrashedBlock | null; reasons: string[] } => {
+  const { block, reasons } = validateBlock(raw, seenIds);
+  const deletedAt = isRecord(raw) ? parseDate(raw.deletedAt) : null;
+  if (isRecord(raw) && !deletedAt) {
+    reasons.push('Missing or invalid deletedAt');
+  }
+
+  return {
+    block: block && deletedAt ? { ...block, deletedAt } : null,
+    reasons
+  };
+};
+
+// Validate a single stored standard block
+export const validateStandardBlock = (
+  raw: unknown,
+  seenIds: Set<number> = new Set()
+): { block: StandardBlock | null; reasons: string[] } => {
+  if (!isRecord(raw)) {
+    return { block: null, reasons: ['Entry is not an object'] };
+  }
+
+  const reasons: string[] = [];
+  checkId(raw, seenIds, reasons);
+  checkName(raw, reasons);
+
+  if (raw.required !== undefined && typeof raw.required !== 'boolean') {
+    reasons.push('required is not true or false');
+  }
+
+  if (raw.durationMinutes !== undefined && (typeof raw.durationMinutes !== 'number' || !(raw.durationMinutes > 0))) {
+    reasons.push('durationMinutes is not a positive number');
+  }
+  if (raw.notes !== undefined && typeof raw.notes !== 'string') {
+    reasons.push('notes is not text');
+  }
+  if (raw.startTime !== undefined && (typeof raw.startTime !== 'string' || !TIME_PATTERN.test(raw.startTime))) {
+    reasons.push('startTime is not a time of day');
+  }
+  if (raw.startImmediately !== undefined && typeof raw.startImmediately !== 'boolean') {
+    reasons.push('startImmediately is not true or false');
+  }
+  if (raw.locked !== undefined && typeof raw.locked !== 'boolean') {
+    reasons.push('locked is not true or false');
+  }
+
+  checkTags(raw, reasons);
+  checkTargets(raw, reasons);
+
+  if (raw.schedule !== undefined) {
+    checkSchedule(raw.schedule, reasons);
+  }
+
+  return {
+    block: reasons.length > 0 ? null : (raw as unknown as StandardBlock),
+    reasons
+  };
+};
+
+// Keep previously quarantined entries that still have the expected shape
+const readExistingQuarantine = (value: unknown): QuarantinedEntry[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is QuarantinedEntry =>
+    isRecord(item) &&
+    (item.collection === 'blocks' || item.collection === 'standardBlocks' || item.collection === 'trash') &&
+    Array.isArray(item.reasons)
+  );
+};
+
+// Split migrated file data into valid records and quarantined entries
+export const validateFileData = (data: RawRecord, now: Date = new Date()): ValidationResult => {
+  const quarantinedAt = now.toISOString();
+  const newlyQuarantined: QuarantinedEntry[] = [];
+
+  // Keep valid records of one collection, quarantining the rest
+  const validateCollection = <T extends { id: number }>(
+    collection: QuarantinedEntry['collection'],
+    validate: (raw: unknown, seenIds: Set<number>) => { block: T | null; reasons: string[] }
+  ): T[] => {
+    const valid: T[] = [];
+    const seenIds = new Set<number>();
+    const entries = data[collection];
+    (Array.isArray(entries) ? entries : []).forEach(raw => {
+      const { block, reasons } = validate(raw, seenIds);
+      if (block) {
+        valid.push(block);
+        seenIds.add(block.id);
+      } else {
+        newlyQuarantined.push({ collection, entry: raw, reasons, quarantinedAt });
+      }
+    });
+    return valid;
+  };
+
+  const blocks = validateCollection('blocks', validateBlock);
+  const standardBlocks = validateCollection('standardBlocks', validateStandardBlock);
+  const trash = validateCollection('trash', validateTrashedBlock);
+
+  return {
+    blocks,
+    standardBlocks,
+    trash,
+    quarantine: [...readExistingQuarantine(data.quarantine), ...newlyQuarantined],
+    newlyQuarantined
+  };
+};